@@ -60,6 +60,13 @@ export default function AppLayout() {
           href: null,
         }}
       />
+      <Tabs.Screen
+        name="workout-session"
+        options={{
+          title: "Live Workout",
+          href: null,
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
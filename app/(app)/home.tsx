@@ -13,8 +13,12 @@ import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { auth, logOut } from "../../firebase";
-import { subscribeToUserFriends, subscribeToDailyWorkouts, getDailyCaloriesForUsers, getUser, subscribeToPendingFriendRequests } from "../../firestore";
+import { subscribeToUserFriends, subscribeToDailyWorkouts, getDailyCaloriesForUsers, getDailyWaterForUsers, getUser, subscribeToPendingFriendRequests } from "../../firestore";
 import FriendCard from "../../components/FriendCard";
+import { getWorkoutMuscleGroups } from "../../utils/exerciseLibrary";
+import { DEFAULT_DISTANCE_UNIT, describeCardio, isCardioWorkout } from "../../utils/cardio";
+import { hasHitCalorieGoal } from "../../utils/nutritionGoals";
+import { formatWaterProgress } from "../../utils/water";
 
 interface FriendWithWorkout {
   userID: string;
@@ -23,7 +27,12 @@ interface FriendWithWorkout {
   profilePicURL: string;
   workedOutToday: boolean;
   totalCalories: number;
+  calorieGoalHit: boolean | null;
+  waterSummary: string | null;
   muscleGroups: string[];
+  sessionCount: number;
+  prCount: number;
+  cardioSummaries: string[];
   lastWorkoutTime: Date | null;
 }
 
@@ -36,6 +45,7 @@ export default function Home() {
   const [friends, setFriends] = useState<any[]>([]);
   const [workouts, setWorkouts] = useState<any[]>([]);
   const [caloriesByUser, setCaloriesByUser] = useState<{[key: string]: number}>({});
+  const [waterByUser, setWaterByUser] = useState<{[key: string]: number}>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [pendingRequestsCount, setPendingRequestsCount] = useState(0);
@@ -128,6 +138,25 @@ export default function Home() {
     fetchCalories();
   }, [friends]);
 
+  // Fetch water for friends who share it
+  useEffect(() => {
+    const sharingIds = friends.filter((f) => f.waterSettings?.shareWithFriends).map((f) => f.userID);
+    if (sharingIds.length === 0) {
+      setWaterByUser({});
+      return;
+    }
+
+    const fetchWater = async () => {
+      try {
+        setWaterByUser(await getDailyWaterForUsers(sharingIds));
+      } catch (error) {
+        console.error("Water error:", error);
+      }
+    };
+
+    fetchWater();
+  }, [friends]);
+
   // Subscribe to pending friend requests for badge count
   useEffect(() => {
     const userId = user?.uid;
@@ -147,10 +176,22 @@ export default function Home() {
   }, [user]);
 
   // Aggregate workout data per friend and sort
+  const distanceUnit = currentUser?.distanceUnit || DEFAULT_DISTANCE_UNIT;
+
   const friendsWithWorkouts = useMemo(() => {
     const aggregated: FriendWithWorkout[] = friends.map((friend) => {
       const friendWorkouts = workouts.filter((w) => w.userID === friend.userID);
 
+      // Friends who share goal status show whether they hit it instead of their total
+      const calorieGoalHit = friend.nutritionGoals?.shareGoalStatus
+        ? hasHitCalorieGoal(caloriesByUser[friend.userID] || 0, friend.nutritionGoals)
+        : null;
+
+      // Shown in the friend's own units, e.g. "1,250 / 2,500 ml"
+      const waterSummary = friend.waterSettings?.shareWithFriends
+        ? formatWaterProgress(waterByUser[friend.userID] || 0, friend.waterSettings)
+        : null;
+
       if (friendWorkouts.length === 0) {
         return {
           userID: friend.userID,
@@ -159,22 +200,40 @@ export default function Home() {
           profilePicURL: friend.profilePicURL,
           workedOutToday: false,
           totalCalories: caloriesByUser[friend.userID] || 0,
+          calorieGoalHit,
+          waterSummary,
           muscleGroups: [],
+          sessionCount: 0,
+          prCount: 0,
+          cardioSummaries: [],
           lastWorkoutTime: null,
         };
       }
 
-      // Aggregate muscle groups (calories tracked separately)
+      // Aggregate muscle groups across every session (calories tracked separately)
       const totalCalories = caloriesByUser[friend.userID] || 0;
 
+      // Newer workouts store a muscleGroups array, older ones a single muscleGroup string
+      // Cardio entries get their own summary instead of a "Cardio" muscle group
       const muscleGroups = [
         ...new Set(
           friendWorkouts
-            .map((w) => w.muscleGroup)
-            .filter((group) => group && group.trim())
+            .filter((w) => !isCardioWorkout(w))
+            .flatMap((w) => getWorkoutMuscleGroups(w))
+            .filter((group) => group.trim())
         ),
       ];
 
+      const sessionCount = friendWorkouts.filter((w) => getWorkoutMuscleGroups(w).length > 0).length;
+
+      // PRs are flagged on each workout when it is saved
+      const prCount = friendWorkouts.reduce((sum, w) => sum + (w.prs?.length || 0), 0);
+
+      // Shown in the viewer's preferred distance unit, e.g. "5.2 km run"
+      const cardioSummaries = friendWorkouts
+        .filter(isCardioWorkout)
+        .map((w) => describeCardio(w.cardio, distanceUnit));
+
       // Get most recent workout for sorting
       const workoutTimes = friendWorkouts
         .map((w) => (w.date?.toDate ? w.date.toDate() : new Date(w.date)))
@@ -189,7 +248,12 @@ export default function Home() {
         profilePicURL: friend.profilePicURL,
         workedOutToday: true,
         totalCalories,
+        calorieGoalHit,
+        waterSummary,
         muscleGroups,
+        sessionCount,
+        prCount,
+        cardioSummaries,
         lastWorkoutTime,
       };
     });
@@ -211,7 +275,7 @@ export default function Home() {
     });
 
     return sorted;
-  }, [friends, workouts, caloriesByUser]);
+  }, [friends, workouts, caloriesByUser, waterByUser, distanceUnit]);
 
   const handleLogout = async () => {
     try {
@@ -304,7 +368,12 @@ export default function Home() {
               profilePicURL={item.profilePicURL}
               workedOutToday={item.workedOutToday}
               totalCalories={item.totalCalories}
+              calorieGoalHit={item.calorieGoalHit}
+              waterSummary={item.waterSummary}
               muscleGroups={item.muscleGroups}
+              sessionCount={item.sessionCount}
+              prCount={item.prCount}
+              cardioSummaries={item.cardioSummaries}
             />
           )}
           contentContainerStyle={styles.listContent}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import {
   View,
   Text,
@@ -8,15 +8,59 @@ import {
   Alert,
   ActivityIndicator,
   ScrollView,
-  FlatList,
+  SectionList,
   Modal,
 } from "react-native";
 import { auth } from "../../firebase";
 import {
   createCalorieEntry,
-  getTodaysCalorieEntries,
+  getCalorieEntriesForDate,
   deleteCalorieEntry,
+  getCustomFoods,
+  getUser,
+  updateUser,
+  getUserWorkouts,
+  getCalorieEntriesInRange,
+  getUserRecipes,
+  getFavoriteFoods,
+  addFavoriteFood,
+  deleteFavoriteFood,
+  copyCalorieEntries,
+  updateCalorieEntry,
+  getWaterTotal,
+  addWater,
 } from "../../firestore";
+import DateSelector from "../../components/DateSelector";
+import FoodSearchModal, { FoodPortion } from "../../components/FoodSearchModal";
+import BarcodeLookupModal from "../../components/BarcodeLookupModal";
+import NutritionGoalsModal from "../../components/NutritionGoalsModal";
+import NutritionProgress from "../../components/NutritionProgress";
+import EnergyCalculatorModal from "../../components/EnergyCalculatorModal";
+import RecipesModal from "../../components/RecipesModal";
+import QuickPicks from "../../components/QuickPicks";
+import CopyEntriesModal from "../../components/CopyEntriesModal";
+import CalorieHistoryModal from "../../components/CalorieHistoryModal";
+import WaterTracker from "../../components/WaterTracker";
+import WaterSettingsModal from "../../components/WaterSettingsModal";
+import NutrientTotals from "../../components/NutrientTotals";
+import NutrientSettingsModal from "../../components/NutrientSettingsModal";
+import { addDays, formatDisplayDate, isSameDay } from "../../utils/dates";
+import { buildFoodDatabase } from "../../utils/foodDatabase";
+import { defaultProductProvider } from "../../utils/productLookup";
+import { MEAL_SLOTS, getDefaultMealSlot, groupEntriesByMeal } from "../../utils/meals";
+import { getNutritionTotals, hasNutritionGoals, resolveNutritionGoals } from "../../utils/nutritionGoals";
+import { ADAPTIVE_WINDOW_DAYS, estimateAdaptiveTdee, getWeighIns } from "../../utils/energyExpenditure";
+import { DEFAULT_WEIGHT_UNIT } from "../../utils/stats";
+import { describeRecipePortion, getRecipeServingNutrition } from "../../utils/recipes";
+import {
+  QUICK_PICK_HISTORY_DAYS,
+  getFrequentFoods,
+  getQuickPickKey,
+  getRecentFoods,
+  scaleQuickPick,
+  toQuickPick,
+} from "../../utils/quickPicks";
+import { getNutrientTotals, getTrackedNutrients, resolveNutrientSettings } from "../../utils/micronutrients";
 
 interface CalorieEntry {
   id: string;
@@ -26,8 +70,55 @@ interface CalorieEntry {
   protein?: number;
   carbs?: number;
   fat?: number;
+  meal?: string;
+  mealName?: string;
+  quantity?: number;
+  nutrients?: Record<string, number>;
+}
+
+interface MacroValues {
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
 }
 
+// Parse the optional macro inputs; macros is undefined when none were entered
+const parseMacroInputs = (protein: string, carbs: string, fat: string): { valid: boolean; macros?: MacroValues } => {
+  if (!protein && !carbs && !fat) return { valid: true };
+
+  const proteinNum = protein ? parseFloat(protein) : null;
+  const carbsNum = carbs ? parseFloat(carbs) : null;
+  const fatNum = fat ? parseFloat(fat) : null;
+
+  // Validate macro values
+  if ((protein && (isNaN(proteinNum!) || proteinNum! < 0)) ||
+      (carbs && (isNaN(carbsNum!) || carbsNum! < 0)) ||
+      (fat && (isNaN(fatNum!) || fatNum! < 0))) {
+    return { valid: false };
+  }
+
+  return { valid: true, macros: { protein: proteinNum, carbs: carbsNum, fat: fatNum } };
+};
+
+// Parse the optional extended nutrient inputs (fiber, sodium, vitamins...), skipping blanks
+const parseNutrientInputs = (inputs: Record<string, string>): { valid: boolean; nutrients: Record<string, number> } => {
+  const nutrients: Record<string, number> = {};
+  for (const [key, text] of Object.entries(inputs)) {
+    if (!text.trim()) continue;
+
+    const value = parseFloat(text);
+    if (isNaN(value) || value < 0) {
+      return { valid: false, nutrients: {} };
+    }
+    nutrients[key] = value;
+  }
+  return { valid: true, nutrients };
+};
+
+// Show stored nutrient amounts in the form
+const toNutrientInputs = (nutrients?: Record<string, number>) =>
+  Object.fromEntries(Object.entries(nutrients || {}).map(([key, value]) => [key, String(value)]));
+
 export default function LogCalories() {
   const user = auth.currentUser;
 
@@ -40,32 +131,281 @@ export default function LogCalories() {
   const [carbs, setCarbs] = useState("");
   const [fat, setFat] = useState("");
   const [showMacroModal, setShowMacroModal] = useState(false);
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [meal, setMeal] = useState(() => getDefaultMealSlot());
+  const [mealName, setMealName] = useState("");
+  const [foods, setFoods] = useState<any[]>(() => buildFoodDatabase());
+  const [showFoodSearch, setShowFoodSearch] = useState(false);
+  const [showBarcodeLookup, setShowBarcodeLookup] = useState(false);
+  const [nutritionGoals, setNutritionGoals] = useState<any>(null);
+  const [showGoalsModal, setShowGoalsModal] = useState(false);
+  const [bodyProfile, setBodyProfile] = useState<any>(null);
+  const [weightUnit, setWeightUnit] = useState(DEFAULT_WEIGHT_UNIT);
+  const [showCalculator, setShowCalculator] = useState(false);
+  const [adaptiveTdee, setAdaptiveTdee] = useState<any>(undefined);
+  const [latestWeightLbs, setLatestWeightLbs] = useState<number | null>(null);
+  const [recipes, setRecipes] = useState<any[]>([]);
+  const [showRecipes, setShowRecipes] = useState(false);
+  const [loggingRecipe, setLoggingRecipe] = useState(false);
+  const [favoriteFoods, setFavoriteFoods] = useState<any[]>([]);
+  const [historyEntries, setHistoryEntries] = useState<any[]>([]);
+  const [showCopyModal, setShowCopyModal] = useState(false);
+  const [copying, setCopying] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<CalorieEntry | null>(null);
+  const [editAmount, setEditAmount] = useState("");
+  const [editDescription, setEditDescription] = useState("");
+  const [editProtein, setEditProtein] = useState("");
+  const [editCarbs, setEditCarbs] = useState("");
+  const [editFat, setEditFat] = useState("");
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [waterSettings, setWaterSettings] = useState<any>(null);
+  const [waterMl, setWaterMl] = useState(0);
+  const [savingWater, setSavingWater] = useState(false);
+  const [showWaterSettings, setShowWaterSettings] = useState(false);
+  const [nutrientSettings, setNutrientSettings] = useState<any>(null);
+  const [showNutrientSettings, setShowNutrientSettings] = useState(false);
+  const [nutrientInputs, setNutrientInputs] = useState<Record<string, string>>({});
+  const [editNutrientInputs, setEditNutrientInputs] = useState<Record<string, string>>({});
+
+  const isToday = isSameDay(selectedDate, new Date());
+
+  // Load entries for the selected day
+  const loadEntries = useCallback(async () => {
+    try {
+      const userId = user?.uid;
+      if (!userId) return;
+
+      const dayEntries = await getCalorieEntriesForDate(userId, selectedDate);
+      setEntries(dayEntries);
+    } catch (error) {
+      console.error("Error loading calorie entries:", error);
+    } finally {
+      setLoadingEntries(false);
+    }
+  }, [user, selectedDate]);
 
-  // Load today's entries on mount
   useEffect(() => {
-    const loadEntries = async () => {
-      try {
-        const userId = user?.uid;
-        if (!userId) return;
+    loadEntries();
+  }, [loadEntries]);
+
+  // Load the user's daily goals and the body profile behind them
+  useEffect(() => {
+    const loadGoals = async () => {
+      const userId = user?.uid;
+      if (!userId) return;
 
-        const todaysEntries = await getTodaysCalorieEntries(userId);
-        setEntries(todaysEntries);
+      try {
+        const userData = await getUser(userId);
+        setNutritionGoals(userData?.nutritionGoals || null);
+        setBodyProfile(userData?.bodyProfile || null);
+        setWeightUnit(userData?.weightUnit || DEFAULT_WEIGHT_UNIT);
+        setWaterSettings(userData?.waterSettings || null);
+        setNutrientSettings(userData?.nutrientSettings || null);
       } catch (error) {
-        console.error("Error loading calorie entries:", error);
-      } finally {
-        setLoadingEntries(false);
+        console.error("Error loading nutrition goals:", error);
       }
     };
 
-    loadEntries();
+    loadGoals();
+  }, [user]);
+
+  // Load water for the selected day
+  const loadWater = useCallback(async () => {
+    try {
+      const userId = user?.uid;
+      if (!userId) return;
+
+      setWaterMl(await getWaterTotal(userId, selectedDate));
+    } catch (error) {
+      console.error("Error loading water:", error);
+    }
+  }, [user, selectedDate]);
+
+  useEffect(() => {
+    loadWater();
+  }, [loadWater]);
+
+  // Add (or take back) water on the selected day
+  const handleAddWater = async (ml: number) => {
+    const userId = user?.uid;
+    if (!userId || ml === 0) return;
+
+    setSavingWater(true);
+    try {
+      await addWater(userId, selectedDate, ml);
+      setWaterMl((prev) => Math.max(0, prev + ml));
+    } catch (error) {
+      console.error("Error logging water:", error);
+      Alert.alert("Error", "Failed to log water. Please try again.");
+    } finally {
+      setSavingWater(false);
+    }
+  };
+
+  const saveWaterSettings = async (settings: any) => {
+    if (!user?.uid) return;
+
+    try {
+      await updateUser(user.uid, { waterSettings: settings });
+      setWaterSettings(settings);
+      setShowWaterSettings(false);
+    } catch (error) {
+      console.error("Error saving water settings:", error);
+      Alert.alert("Error", "Failed to save water settings. Please try again.");
+    }
+  };
+
+  const saveNutrientSettings = async (settings: any) => {
+    if (!user?.uid) return;
+
+    try {
+      await updateUser(user.uid, { nutrientSettings: settings });
+      setNutrientSettings(settings);
+      setShowNutrientSettings(false);
+    } catch (error) {
+      console.error("Error saving nutrient settings:", error);
+      Alert.alert("Error", "Failed to save nutrient settings. Please try again.");
+    }
+  };
+
+  // Save daily calorie and macro goals to the user document
+  const saveNutritionGoals = async (goals: any) => {
+    if (!user?.uid) return;
+
+    try {
+      await updateUser(user.uid, { nutritionGoals: goals });
+      setNutritionGoals(goals);
+      setShowGoalsModal(false);
+    } catch (error) {
+      console.error("Error saving nutrition goals:", error);
+      Alert.alert("Error", "Failed to save goals. Please try again.");
+    }
+  };
+
+  // Open the calculator, working out the adaptive estimate from recent weeks in the background
+  const openCalculator = async () => {
+    const userId = user?.uid;
+    if (!userId) return;
+
+    setAdaptiveTdee(undefined);
+    setShowCalculator(true);
+
+    try {
+      const now = new Date();
+      const [workoutData, recentEntries] = await Promise.all([
+        getUserWorkouts(userId),
+        getCalorieEntriesInRange(userId, addDays(now, -ADAPTIVE_WINDOW_DAYS), now),
+      ]);
+      const weighIns = getWeighIns(workoutData);
+      setLatestWeightLbs(weighIns.length > 0 ? weighIns[weighIns.length - 1].weightLbs : null);
+      setAdaptiveTdee(estimateAdaptiveTdee(recentEntries, workoutData, now));
+    } catch (error) {
+      console.error("Error estimating TDEE:", error);
+      setAdaptiveTdee(null);
+    }
+  };
+
+  // Save the calculated calorie goal with how it was derived, keeping macro goals as they are
+  const applyCalculatedGoal = async (profile: any, result: { calories: number; explanation: string }) => {
+    if (!user?.uid) return;
+
+    const goals = {
+      ...resolvedGoals,
+      calories: result.calories,
+      calorieGoalNote: result.explanation,
+    };
+
+    try {
+      await updateUser(user.uid, { bodyProfile: profile, nutritionGoals: goals });
+      setBodyProfile(profile);
+      setNutritionGoals(goals);
+      setShowCalculator(false);
+    } catch (error) {
+      console.error("Error saving calculated goal:", error);
+      Alert.alert("Error", "Failed to save goal. Please try again.");
+    }
+  };
+
+  // Built-in food catalog plus the user's custom foods
+  const loadFoods = useCallback(async () => {
+    try {
+      const userId = user?.uid;
+      if (!userId) return;
+
+      const customFoods = await getCustomFoods(userId);
+      setFoods(buildFoodDatabase(customFoods));
+    } catch (error) {
+      console.error("Error loading custom foods:", error);
+    }
   }, [user]);
 
+  useEffect(() => {
+    loadFoods();
+  }, [loadFoods]);
+
+  const loadRecipes = useCallback(async () => {
+    try {
+      const userId = user?.uid;
+      if (!userId) return;
+
+      setRecipes(await getUserRecipes(userId));
+    } catch (error) {
+      console.error("Error loading recipes:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadRecipes();
+  }, [loadRecipes]);
+
+  // Favorites plus the last few weeks of entries behind the recent and frequent lists
+  const loadQuickPicks = useCallback(async () => {
+    try {
+      const userId = user?.uid;
+      if (!userId) return;
+
+      const now = new Date();
+      const [favorites, recentEntries] = await Promise.all([
+        getFavoriteFoods(userId),
+        getCalorieEntriesInRange(userId, addDays(now, -QUICK_PICK_HISTORY_DAYS), now),
+      ]);
+      setFavoriteFoods(favorites);
+      setHistoryEntries(recentEntries);
+    } catch (error) {
+      console.error("Error loading quick picks:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadQuickPicks();
+  }, [loadQuickPicks]);
+
+  // Fill the form from a food picked in the search or found by barcode
+  const handleSelectFood = (portion: FoodPortion) => {
+    setAmount(String(portion.calories));
+    setDescription(portion.description);
+    setProtein(String(portion.protein));
+    setCarbs(String(portion.carbs));
+    setFat(String(portion.fat));
+    setShowFoodSearch(false);
+    setShowBarcodeLookup(false);
+  };
+
   // Calculate total calories
   const totalCalories = entries.reduce(
     (sum, entry) => sum + (entry.amount || 0),
     0
   );
 
+  const mealSections = groupEntriesByMeal(entries);
+  const nutritionTotals = getNutritionTotals(entries);
+  const resolvedGoals = resolveNutritionGoals(nutritionGoals);
+  const trackedNutrients = getTrackedNutrients(nutrientSettings);
+  const nutrientGoals = resolveNutrientSettings(nutrientSettings).goals;
+  const favoritePicks = favoriteFoods.map((favorite) => ({ ...toQuickPick(favorite), id: favorite.id }));
+  const favoriteKeys = new Set(favoritePicks.map((favorite) => favorite.key));
+
   // Add entry (meal with description or quick total)
   const handleAddEntry = async (isQuickAdd: boolean) => {
     // Validation
@@ -88,26 +428,17 @@ export default function LogCalories() {
       return;
     }
 
-    // Validate macros if provided
-    let macrosData: { protein: number | null; carbs: number | null; fat: number | null } | undefined = undefined;
-    if (protein || carbs || fat) {
-      const proteinNum = protein ? parseFloat(protein) : null;
-      const carbsNum = carbs ? parseFloat(carbs) : null;
-      const fatNum = fat ? parseFloat(fat) : null;
-
-      // Validate macro values
-      if ((protein && (isNaN(proteinNum!) || proteinNum! < 0)) ||
-          (carbs && (isNaN(carbsNum!) || carbsNum! < 0)) ||
-          (fat && (isNaN(fatNum!) || fatNum! < 0))) {
-        Alert.alert("Invalid Macros", "Please enter valid positive numbers for macros");
-        return;
-      }
+    if (meal === "custom" && !mealName.trim()) {
+      Alert.alert("Meal Name Required", "Please name your custom meal");
+      return;
+    }
 
-      macrosData = {
-        protein: proteinNum,
-        carbs: carbsNum,
-        fat: fatNum
-      };
+    // Validate macros if provided
+    const { valid: macrosValid, macros: macrosData } = parseMacroInputs(protein, carbs, fat);
+    const { valid: nutrientsValid, nutrients } = parseNutrientInputs(nutrientInputs);
+    if (!macrosValid || !nutrientsValid) {
+      Alert.alert("Invalid Macros", "Please enter valid positive numbers for macros and nutrients");
+      return;
     }
 
     setLoading(true);
@@ -119,11 +450,11 @@ export default function LogCalories() {
       }
 
       const desc = isQuickAdd ? "" : description.trim();
-      await createCalorieEntry(userId, new Date(), amountNum, desc, macrosData);
+      await createCalorieEntry(userId, selectedDate, amountNum, desc, macrosData, { meal, mealName, nutrients });
 
       // Reload entries
-      const updatedEntries = await getTodaysCalorieEntries(userId);
-      setEntries(updatedEntries);
+      await loadEntries();
+      loadQuickPicks();
 
       // Reset form (including macro fields)
       setAmount("");
@@ -131,6 +462,7 @@ export default function LogCalories() {
       setProtein("");
       setCarbs("");
       setFat("");
+      setNutrientInputs({});
 
       // Updated success message to mention macros if included
       const macroInfo = macrosData ? " with macros" : "";
@@ -146,6 +478,228 @@ export default function LogCalories() {
     }
   };
 
+  // Log servings of a recipe straight to the selected day, linked back to the recipe
+  const handleLogRecipe = async (recipe: any, servingsEaten: number) => {
+    const userId = user?.uid;
+    if (!userId) {
+      Alert.alert("Error", "You must be logged in");
+      return;
+    }
+
+    if (meal === "custom" && !mealName.trim()) {
+      Alert.alert("Meal Name Required", "Please name your custom meal");
+      return;
+    }
+
+    const nutrition = getRecipeServingNutrition(recipe.ingredients || [], recipe.servings, servingsEaten);
+    const desc = describeRecipePortion(recipe.name, servingsEaten);
+
+    setLoggingRecipe(true);
+    try {
+      await createCalorieEntry(
+        userId,
+        selectedDate,
+        nutrition.calories,
+        desc,
+        { protein: nutrition.protein, carbs: nutrition.carbs, fat: nutrition.fat },
+        { meal, mealName, recipeId: recipe.id, recipeServings: servingsEaten }
+      );
+      await loadEntries();
+      loadQuickPicks();
+      setShowRecipes(false);
+      Alert.alert("Success", `Added ${nutrition.calories} calories (${desc})`);
+    } catch (error) {
+      console.error("Error logging recipe:", error);
+      Alert.alert("Error", "Failed to log recipe. Please try again.");
+    } finally {
+      setLoggingRecipe(false);
+    }
+  };
+
+  // Re-log a recent or favorite food in one tap, scaled by the chosen multiplier
+  const handleQuickPick = async (pick: any, multiplier: number) => {
+    const userId = user?.uid;
+    if (!userId) {
+      Alert.alert("Error", "You must be logged in");
+      return;
+    }
+
+    if (meal === "custom" && !mealName.trim()) {
+      Alert.alert("Meal Name Required", "Please name your custom meal");
+      return;
+    }
+
+    const { amount: scaledAmount, macros, nutrients } = scaleQuickPick(pick, multiplier);
+
+    setLoading(true);
+    try {
+      await createCalorieEntry(userId, selectedDate, scaledAmount, pick.description, macros, {
+        meal,
+        mealName,
+        quantity: multiplier,
+        nutrients,
+      });
+      await loadEntries();
+      loadQuickPicks();
+    } catch (error) {
+      console.error("Error re-logging food:", error);
+      Alert.alert("Error", "Failed to add entry. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Star or unstar a food, from an entry or from the quick pick list
+  const handleToggleFavorite = async (food: any) => {
+    const userId = user?.uid;
+    if (!userId || !food.description?.trim()) return;
+
+    const pick = toQuickPick(food);
+    const existing = favoritePicks.find((favorite) => favorite.key === pick.key);
+
+    try {
+      if (existing) {
+        await deleteFavoriteFood(existing.id);
+      } else {
+        await addFavoriteFood(userId, pick);
+      }
+      loadQuickPicks();
+    } catch (error) {
+      console.error("Error updating favorite:", error);
+      Alert.alert("Error", "Failed to update favorites.");
+    }
+  };
+
+  // Clone entries onto the selected day
+  const copyEntriesToSelectedDate = async (sourceEntries: any[]) => {
+    const userId = user?.uid;
+    if (!userId) {
+      Alert.alert("Error", "You must be logged in");
+      return;
+    }
+
+    setCopying(true);
+    try {
+      const copied = await copyCalorieEntries(userId, sourceEntries, selectedDate);
+      await loadEntries();
+      loadQuickPicks();
+      setShowCopyModal(false);
+      Alert.alert(
+        "Copied",
+        `Added ${copied} ${copied === 1 ? "entry" : "entries"} to ${isToday ? "today" : formatDisplayDate(selectedDate)}`
+      );
+    } catch (error) {
+      console.error("Error copying entries:", error);
+      Alert.alert("Error", "Failed to copy entries. Please try again.");
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  // Copy everything from the day before the selected one
+  const handleCopyPreviousDay = async () => {
+    const userId = user?.uid;
+    if (!userId) return;
+
+    const previousDay = addDays(selectedDate, -1);
+    try {
+      const previousEntries = await getCalorieEntriesForDate(userId, previousDay);
+      if (previousEntries.length === 0) {
+        Alert.alert("Nothing to Copy", `No entries on ${formatDisplayDate(previousDay)}`);
+        return;
+      }
+
+      const previousTotal = previousEntries.reduce((sum: number, entry: any) => sum + (entry.amount || 0), 0);
+      Alert.alert(
+        "Copy Entries",
+        `Copy ${previousEntries.length} ${previousEntries.length === 1 ? "entry" : "entries"} (${previousTotal.toLocaleString()} cal) from ${formatDisplayDate(previousDay)}?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Copy", onPress: () => copyEntriesToSelectedDate(previousEntries) },
+        ]
+      );
+    } catch (error) {
+      console.error("Error loading previous day:", error);
+      Alert.alert("Error", "Failed to load entries. Please try again.");
+    }
+  };
+
+  // Open the macro modal in edit mode for an existing entry
+  const openEditEntry = (entry: CalorieEntry) => {
+    setEditingEntry(entry);
+    setEditAmount(String(entry.amount));
+    setEditDescription(entry.description || "");
+    setEditProtein(entry.protein != null ? String(entry.protein) : "");
+    setEditCarbs(entry.carbs != null ? String(entry.carbs) : "");
+    setEditFat(entry.fat != null ? String(entry.fat) : "");
+    setEditNutrientInputs(toNutrientInputs(entry.nutrients));
+    setShowMacroModal(true);
+  };
+
+  const closeMacroModal = () => {
+    setShowMacroModal(false);
+    setEditingEntry(null);
+  };
+
+  // Save changes to the entry being edited
+  const handleUpdateEntry = async () => {
+    if (!editingEntry) return;
+
+    const amountNum = parseInt(editAmount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      Alert.alert("Invalid Amount", "Please enter a valid positive number");
+      return;
+    }
+
+    const { valid: macrosValid, macros: macrosData } = parseMacroInputs(editProtein, editCarbs, editFat);
+    const { valid: nutrientsValid, nutrients } = parseNutrientInputs(editNutrientInputs);
+    if (!macrosValid || !nutrientsValid) {
+      Alert.alert("Invalid Macros", "Please enter valid positive numbers for macros and nutrients");
+      return;
+    }
+
+    setSavingEdit(true);
+    try {
+      await updateCalorieEntry(editingEntry.id, {
+        amount: amountNum,
+        description: editDescription.trim(),
+        macros: macrosData || null,
+        nutrients,
+      });
+      await loadEntries();
+      loadQuickPicks();
+      closeMacroModal();
+    } catch (error) {
+      console.error("Error updating entry:", error);
+      Alert.alert("Error", "Failed to update entry. Please try again.");
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  // The macro modal edits either the new entry's macros or the entry being edited
+  const macroInputs = editingEntry
+    ? {
+        protein: editProtein,
+        setProtein: setEditProtein,
+        carbs: editCarbs,
+        setCarbs: setEditCarbs,
+        fat: editFat,
+        setFat: setEditFat,
+        nutrients: editNutrientInputs,
+        setNutrients: setEditNutrientInputs,
+      }
+    : {
+        protein,
+        setProtein,
+        carbs,
+        setCarbs,
+        fat,
+        setFat,
+        nutrients: nutrientInputs,
+        setNutrients: setNutrientInputs,
+      };
+
   // Delete entry
   const handleDeleteEntry = async (entryId: string) => {
     Alert.alert(
@@ -161,11 +715,8 @@ export default function LogCalories() {
               await deleteCalorieEntry(entryId);
 
               // Reload entries
-              const userId = user?.uid;
-              if (userId) {
-                const updatedEntries = await getTodaysCalorieEntries(userId);
-                setEntries(updatedEntries);
-              }
+              await loadEntries();
+              loadQuickPicks();
             } catch (error) {
               console.error("Error deleting entry:", error);
               Alert.alert("Error", "Failed to delete entry.");
@@ -179,12 +730,22 @@ export default function LogCalories() {
   // Render individual entry
   const renderEntry = ({ item }: { item: CalorieEntry }) => (
     <View style={styles.entryItem}>
-      <View style={styles.entryInfo}>
+      <TouchableOpacity style={styles.entryInfo} onPress={() => openEditEntry(item)}>
         <Text style={styles.entryAmount}>{item.amount} cal</Text>
         {item.description && (
-          <Text style={styles.entryDescription}>{item.description}</Text>
+          <Text style={styles.entryDescription}>
+            {item.description}
+            {item.quantity ? ` × ${item.quantity}` : ""}
+          </Text>
         )}
-      </View>
+      </TouchableOpacity>
+      {item.description ? (
+        <TouchableOpacity style={styles.favoriteButton} onPress={() => handleToggleFavorite(item)}>
+          <Text style={styles.favoriteButtonText}>
+            {favoriteKeys.has(getQuickPickKey(item.description)) ? "★" : "☆"}
+          </Text>
+        </TouchableOpacity>
+      ) : null}
       <TouchableOpacity
         style={styles.deleteButton}
         onPress={() => handleDeleteEntry(item.id)}
@@ -210,36 +771,165 @@ export default function LogCalories() {
         <Text style={styles.header}>Log Calories</Text>
         <Text style={styles.subheader}>Track your daily intake</Text>
 
+        {/* Entry Date */}
+        <View style={styles.dateRow}>
+          <DateSelector date={selectedDate} onChange={setSelectedDate} disabled={loading} showArrows />
+          <TouchableOpacity style={styles.historyButton} onPress={() => setShowHistory(true)}>
+            <Text style={styles.historyButtonText}>History</Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Total Display */}
         <View style={styles.totalContainer}>
-          <Text style={styles.totalLabel}>Total Today</Text>
+          <Text style={styles.totalLabel}>
+            {isToday ? "Total Today" : `Total for ${formatDisplayDate(selectedDate)}`}
+          </Text>
           <Text style={styles.totalAmount}>
             {totalCalories.toLocaleString()} cal
           </Text>
+          <NutritionProgress totals={nutritionTotals} goals={resolvedGoals} />
+          <NutrientTotals nutrients={trackedNutrients} totals={getNutrientTotals(entries)} goals={nutrientGoals} />
+          {resolvedGoals.calorieGoalNote && (
+            <Text style={styles.goalNote}>{resolvedGoals.calorieGoalNote}</Text>
+          )}
+          <View style={styles.goalsActions}>
+            <TouchableOpacity style={styles.goalsButton} onPress={() => setShowGoalsModal(true)}>
+              <Text style={styles.goalsButtonText}>
+                {hasNutritionGoals(nutritionGoals) ? "Edit Daily Goals" : "Set Daily Goals"}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.goalsButton} onPress={openCalculator}>
+              <Text style={styles.goalsButtonText}>Calculate Calorie Goal</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.goalsButton} onPress={() => setShowNutrientSettings(true)}>
+              <Text style={styles.goalsButtonText}>Nutrients</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
+        {/* Water */}
+        <WaterTracker
+          totalMl={waterMl}
+          settings={waterSettings}
+          disabled={savingWater}
+          onAdd={handleAddWater}
+          onOpenSettings={() => setShowWaterSettings(true)}
+        />
+
         {/* Entries List */}
         {entries.length > 0 ? (
           <View style={styles.entriesContainer}>
-            <Text style={styles.sectionTitle}>Today's Entries</Text>
-            <FlatList
-              data={entries}
+            <Text style={styles.sectionTitle}>
+              {isToday ? "Today's Entries" : `Entries for ${formatDisplayDate(selectedDate)}`}
+            </Text>
+            <SectionList
+              sections={mealSections}
               renderItem={renderEntry}
+              renderSectionHeader={({ section }) => (
+                <View style={styles.mealHeader}>
+                  <Text style={styles.mealTitle}>{section.title}</Text>
+                  <Text style={styles.mealSubtotal}>{section.total.toLocaleString()} cal</Text>
+                </View>
+              )}
               keyExtractor={(item) => item.id}
               scrollEnabled={false}
+              stickySectionHeadersEnabled={false}
               contentContainerStyle={styles.entriesList}
             />
           </View>
         ) : (
           <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>No entries yet today</Text>
+            <Text style={styles.emptyText}>
+              {isToday ? "No entries yet today" : "No entries for this day"}
+            </Text>
           </View>
         )}
 
+        {/* Copy From Other Days */}
+        <View style={styles.copyRow}>
+          <TouchableOpacity
+            style={[styles.searchFoodsButton, styles.lookupButton]}
+            onPress={handleCopyPreviousDay}
+            disabled={copying}
+          >
+            <Text style={styles.searchFoodsButtonText}>{isToday ? "Copy Yesterday" : "Copy Previous Day"}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.searchFoodsButton, styles.lookupButton]}
+            onPress={() => setShowCopyModal(true)}
+            disabled={copying}
+          >
+            <Text style={styles.searchFoodsButtonText}>Copy From Date</Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Input Form */}
         <View style={styles.formContainer}>
           <Text style={styles.sectionTitle}>Add Entry</Text>
 
+          {/* Meal Slot */}
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Meal</Text>
+            <View style={styles.mealChips}>
+              {MEAL_SLOTS.map((slot) => (
+                <TouchableOpacity
+                  key={slot.id}
+                  style={[styles.mealChip, meal === slot.id && styles.mealChipSelected]}
+                  onPress={() => setMeal(slot.id)}
+                  disabled={loading}
+                >
+                  <Text style={[styles.mealChipText, meal === slot.id && styles.mealChipTextSelected]}>
+                    {slot.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {meal === "custom" && (
+              <TextInput
+                style={[styles.input, styles.mealNameInput]}
+                placeholder="e.g., Pre-Workout"
+                value={mealName}
+                onChangeText={setMealName}
+                editable={!loading}
+              />
+            )}
+          </View>
+
+          {/* Recent and Favorite Foods */}
+          <QuickPicks
+            favorites={favoritePicks}
+            recent={getRecentFoods(historyEntries)}
+            frequent={getFrequentFoods(historyEntries)}
+            disabled={loading}
+            onPick={handleQuickPick}
+            onToggleFavorite={handleToggleFavorite}
+          />
+
+          {/* Food Search, Barcode and Recipe Buttons */}
+          <View style={styles.lookupRow}>
+            <TouchableOpacity
+              style={[styles.searchFoodsButton, styles.lookupButton]}
+              onPress={() => setShowFoodSearch(true)}
+              disabled={loading}
+            >
+              <Text style={styles.searchFoodsButtonText}>🔍 Search Foods</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.searchFoodsButton, styles.lookupButton]}
+              onPress={() => setShowBarcodeLookup(true)}
+              disabled={loading}
+            >
+              <Text style={styles.searchFoodsButtonText}>Enter Barcode</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.searchFoodsButton, styles.lookupButton]}
+              onPress={() => setShowRecipes(true)}
+              disabled={loading}
+            >
+              <Text style={styles.searchFoodsButtonText}>Recipes</Text>
+            </TouchableOpacity>
+          </View>
+
           <View style={styles.inputContainer}>
             <Text style={styles.label}>Calories *</Text>
             <TextInput
@@ -256,7 +946,7 @@ export default function LogCalories() {
             <Text style={styles.label}>Description (Optional)</Text>
             <TextInput
               style={styles.input}
-              placeholder="e.g., Breakfast, Lunch, Snack"
+              placeholder="e.g., Oatmeal with berries"
               value={description}
               onChangeText={setDescription}
               editable={!loading}
@@ -270,7 +960,9 @@ export default function LogCalories() {
             disabled={loading}
           >
             <Text style={styles.addMacrosButtonText}>
-              {(protein || carbs || fat) ? '✓ Macros Added' : '+ Add Macros (Optional)'}
+              {(protein || carbs || fat || Object.values(nutrientInputs).some((text) => text.trim()))
+                ? '✓ Macros Added'
+                : '+ Add Macros & Nutrients (Optional)'}
             </Text>
           </TouchableOpacity>
 
@@ -306,82 +998,210 @@ export default function LogCalories() {
       </View>
     </ScrollView>
 
+      <FoodSearchModal
+        visible={showFoodSearch}
+        foods={foods}
+        userId={user?.uid}
+        onClose={() => setShowFoodSearch(false)}
+        onSelect={handleSelectFood}
+        onFoodsChange={loadFoods}
+      />
+
+      <RecipesModal
+        visible={showRecipes}
+        recipes={recipes}
+        foods={foods}
+        userId={user?.uid}
+        logging={loggingRecipe}
+        onClose={() => setShowRecipes(false)}
+        onLog={handleLogRecipe}
+        onRecipesChange={loadRecipes}
+        onFoodsChange={loadFoods}
+      />
+
+      <CopyEntriesModal
+        visible={showCopyModal}
+        userId={user?.uid}
+        targetDate={selectedDate}
+        copying={copying}
+        onClose={() => setShowCopyModal(false)}
+        onCopy={copyEntriesToSelectedDate}
+      />
+
+      <CalorieHistoryModal
+        visible={showHistory}
+        userId={user?.uid}
+        calorieGoal={resolvedGoals.calories}
+        onClose={() => setShowHistory(false)}
+        onSelectDate={(date) => {
+          setSelectedDate(date);
+          setShowHistory(false);
+        }}
+      />
+
+      <WaterSettingsModal
+        visible={showWaterSettings}
+        settings={waterSettings}
+        onClose={() => setShowWaterSettings(false)}
+        onSave={saveWaterSettings}
+      />
+
+      <NutrientSettingsModal
+        visible={showNutrientSettings}
+        settings={nutrientSettings}
+        onClose={() => setShowNutrientSettings(false)}
+        onSave={saveNutrientSettings}
+      />
+
+      <NutritionGoalsModal
+        visible={showGoalsModal}
+        goals={nutritionGoals}
+        onClose={() => setShowGoalsModal(false)}
+        onSave={saveNutritionGoals}
+      />
+
+      <EnergyCalculatorModal
+        visible={showCalculator}
+        profile={bodyProfile}
+        latestWeightLbs={latestWeightLbs}
+        adaptive={adaptiveTdee}
+        weightUnit={weightUnit}
+        onClose={() => setShowCalculator(false)}
+        onApply={applyCalculatedGoal}
+      />
+
+      <BarcodeLookupModal
+        visible={showBarcodeLookup}
+        provider={defaultProductProvider}
+        onClose={() => setShowBarcodeLookup(false)}
+        onSelect={handleSelectFood}
+      />
+
       {/* Macro Input Modal */}
       <Modal
         visible={showMacroModal}
         transparent={true}
         animationType="fade"
-        onRequestClose={() => setShowMacroModal(false)}
+        onRequestClose={closeMacroModal}
       >
         <TouchableOpacity
           style={styles.modalOverlay}
           activeOpacity={1}
-          onPress={() => setShowMacroModal(false)}
+          onPress={closeMacroModal}
         >
           <TouchableOpacity
             activeOpacity={1}
             onPress={(e) => e.stopPropagation()}
           >
             <View style={styles.modalContent}>
-              <Text style={styles.modalHeader}>Add Macros</Text>
+              <Text style={styles.modalHeader}>{editingEntry ? "Edit Entry" : "Add Macros"}</Text>
               <Text style={styles.modalSubheader}>
-                All fields optional - enter grams
+                {editingEntry ? "Macros and nutrients optional" : "All fields optional"}
               </Text>
 
-              {/* Protein Input */}
-              <View style={styles.modalInputContainer}>
-                <Text style={styles.modalLabel}>Protein (g)</Text>
-                <TextInput
-                  style={styles.modalInput}
-                  placeholder="e.g., 25"
-                  value={protein}
-                  onChangeText={setProtein}
-                  keyboardType="numeric"
-                />
-              </View>
-
-              {/* Carbs Input */}
-              <View style={styles.modalInputContainer}>
-                <Text style={styles.modalLabel}>Carbs (g)</Text>
-                <TextInput
-                  style={styles.modalInput}
-                  placeholder="e.g., 40"
-                  value={carbs}
-                  onChangeText={setCarbs}
-                  keyboardType="numeric"
-                />
-              </View>
-
-              {/* Fat Input */}
-              <View style={styles.modalInputContainer}>
-                <Text style={styles.modalLabel}>Fat (g)</Text>
-                <TextInput
-                  style={styles.modalInput}
-                  placeholder="e.g., 10"
-                  value={fat}
-                  onChangeText={setFat}
-                  keyboardType="numeric"
-                />
-              </View>
+              <ScrollView style={styles.modalScroll}>
+                {editingEntry && (
+                  <>
+                    <View style={styles.modalInputContainer}>
+                      <Text style={styles.modalLabel}>Calories</Text>
+                      <TextInput
+                        style={styles.modalInput}
+                        value={editAmount}
+                        onChangeText={setEditAmount}
+                        keyboardType="numeric"
+                      />
+                    </View>
+
+                    <View style={styles.modalInputContainer}>
+                      <Text style={styles.modalLabel}>Description</Text>
+                      <TextInput
+                        style={styles.modalInput}
+                        placeholder="e.g., Oatmeal with berries"
+                        value={editDescription}
+                        onChangeText={setEditDescription}
+                      />
+                    </View>
+                  </>
+                )}
+
+                {/* Protein Input */}
+                <View style={styles.modalInputContainer}>
+                  <Text style={styles.modalLabel}>Protein (g)</Text>
+                  <TextInput
+                    style={styles.modalInput}
+                    placeholder="e.g., 25"
+                    value={macroInputs.protein}
+                    onChangeText={macroInputs.setProtein}
+                    keyboardType="numeric"
+                  />
+                </View>
+
+                {/* Carbs Input */}
+                <View style={styles.modalInputContainer}>
+                  <Text style={styles.modalLabel}>Carbs (g)</Text>
+                  <TextInput
+                    style={styles.modalInput}
+                    placeholder="e.g., 40"
+                    value={macroInputs.carbs}
+                    onChangeText={macroInputs.setCarbs}
+                    keyboardType="numeric"
+                  />
+                </View>
+
+                {/* Fat Input */}
+                <View style={styles.modalInputContainer}>
+                  <Text style={styles.modalLabel}>Fat (g)</Text>
+                  <TextInput
+                    style={styles.modalInput}
+                    placeholder="e.g., 10"
+                    value={macroInputs.fat}
+                    onChangeText={macroInputs.setFat}
+                    keyboardType="numeric"
+                  />
+                </View>
+
+                {/* Extended Nutrients */}
+                {trackedNutrients.map((nutrient) => (
+                  <View key={nutrient.key} style={styles.modalInputContainer}>
+                    <Text style={styles.modalLabel}>
+                      {nutrient.label} ({nutrient.unit})
+                    </Text>
+                    <TextInput
+                      style={styles.modalInput}
+                      value={macroInputs.nutrients[nutrient.key] || ""}
+                      onChangeText={(text) => macroInputs.setNutrients((prev) => ({ ...prev, [nutrient.key]: text }))}
+                      keyboardType="numeric"
+                    />
+                  </View>
+                ))}
+              </ScrollView>
 
               {/* Buttons */}
               <TouchableOpacity
-                style={styles.modalSaveButton}
-                onPress={() => setShowMacroModal(false)}
+                style={[styles.modalSaveButton, savingEdit && styles.disabledButton]}
+                onPress={editingEntry ? handleUpdateEntry : closeMacroModal}
+                disabled={savingEdit}
               >
-                <Text style={styles.modalSaveButtonText}>Save</Text>
+                {savingEdit ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.modalSaveButtonText}>Save</Text>
+                )}
               </TouchableOpacity>
 
               <TouchableOpacity
                 style={styles.modalCancelButton}
                 onPress={() => {
-                  setProtein("");
-                  setCarbs("");
-                  setFat("");
-                  setShowMacroModal(false);
+                  if (!editingEntry) {
+                    setProtein("");
+                    setCarbs("");
+                    setFat("");
+                    setNutrientInputs({});
+                  }
+                  closeMacroModal();
                 }}
               >
-                <Text style={styles.modalCancelButtonText}>Clear & Close</Text>
+                <Text style={styles.modalCancelButtonText}>{editingEntry ? "Cancel" : "Clear & Close"}</Text>
               </TouchableOpacity>
             </View>
           </TouchableOpacity>
@@ -441,6 +1261,38 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#34C759",
   },
+  goalNote: {
+    fontSize: 12,
+    color: "#999",
+    textAlign: "center",
+    marginTop: 12,
+  },
+  dateRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  historyButton: {
+    paddingVertical: 12,
+  },
+  historyButtonText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  goalsActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    columnGap: 24,
+  },
+  goalsButton: {
+    marginTop: 16,
+  },
+  goalsButtonText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
   entriesContainer: {
     marginBottom: 24,
   },
@@ -453,6 +1305,22 @@ const styles = StyleSheet.create({
   entriesList: {
     gap: 8,
   },
+  mealHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  mealTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#000",
+  },
+  mealSubtotal: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#34C759",
+  },
   entryItem: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -488,6 +1356,17 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginLeft: 12,
   },
+  favoriteButton: {
+    width: 32,
+    height: 32,
+    justifyContent: "center",
+    alignItems: "center",
+    marginLeft: 12,
+  },
+  favoriteButtonText: {
+    color: "#FF9500",
+    fontSize: 22,
+  },
   deleteButtonText: {
     color: "#fff",
     fontSize: 18,
@@ -529,6 +1408,33 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#e0e0e0",
   },
+  mealChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  mealChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+    backgroundColor: "#fff",
+  },
+  mealChipSelected: {
+    backgroundColor: "#007AFF",
+  },
+  mealChipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  mealChipTextSelected: {
+    color: "#fff",
+  },
+  mealNameInput: {
+    marginTop: 8,
+  },
   buttonRow: {
     gap: 12,
     marginTop: 8,
@@ -557,6 +1463,30 @@ const styles = StyleSheet.create({
   quickButtonText: {
     color: "#007AFF",
   },
+  lookupRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 16,
+  },
+  copyRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginBottom: 24,
+  },
+  lookupButton: {
+    flex: 1,
+  },
+  searchFoodsButton: {
+    backgroundColor: "#E6F4FE",
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  searchFoodsButtonText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   addMacrosButton: {
     backgroundColor: "transparent",
     borderWidth: 2,
@@ -604,6 +1534,9 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: "center",
   },
+  modalScroll: {
+    maxHeight: 420,
+  },
   modalInputContainer: {
     marginBottom: 16,
   },
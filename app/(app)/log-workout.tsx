@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import {
   View,
   Text,
@@ -8,77 +8,213 @@ import {
   Alert,
   ActivityIndicator,
   ScrollView,
-  Platform,
+  Modal,
 } from "react-native";
-import { useRouter } from "expo-router";
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { auth } from "../../firebase";
-import { createWorkout, getTodaysWorkout, updateWorkout, getUser } from "../../firestore";
-
-const MUSCLE_GROUPS = [
-  "Chest",
-  "Back",
-  "Legs",
-  "Arms",
-  "Shoulders",
-  "Cardio",
-];
-
-const STAT_LABELS: { [key: string]: string } = {
-  pr: "Personal Record",
-  cardio: "Cardio (minutes)",
-  stretch: "Stretch (minutes)",
-  weight: "Weight (lbs)",
-  reps: "Total Reps",
-  duration: "Duration (minutes)",
-};
+import {
+  createWorkout,
+  getWorkoutsForDate,
+  updateWorkout,
+  createCardioWorkout,
+  deleteWorkout,
+  getUser,
+  getUserWorkouts,
+  migrateLegacyStats,
+  createWorkoutTemplate,
+  updateWorkoutTemplate,
+  recordWorkoutPersonalRecords,
+  rebuildPersonalRecords,
+  getCustomExercises,
+  getActiveProgram,
+  completePlannedSession,
+} from "../../firestore";
+import ExerciseEditor, {
+  ExerciseBlock,
+  ExerciseInput,
+  parseExerciseInputs,
+  toExerciseInputs,
+} from "../../components/ExerciseEditor";
+import WorkoutTemplatesModal from "../../components/WorkoutTemplatesModal";
+import CardioForm, { CardioInput } from "../../components/CardioForm";
+import DateSelector from "../../components/DateSelector";
+import { formatDisplayDate, isSameDay, parseDateKey, toDateKey } from "../../utils/dates";
+import { describeRecord } from "../../utils/personalRecords";
+import { loadWorkoutSession, startWorkoutSession } from "../../utils/workoutSession";
+import {
+  buildExerciseLibrary,
+  deriveMuscleGroups,
+  expandLegacyMuscleGroup,
+  getWorkoutMuscleGroups,
+} from "../../utils/exerciseLibrary";
+import { MUSCLE_GROUPS } from "../../constants/exercises";
+import { getExerciseHistory, suggestNextTarget } from "../../utils/progression";
+import { validateBlocks } from "../../utils/workoutBlocks";
+import { resolvePlateSettings } from "../../utils/plateCalculator";
+import { describePlannedSets, getPlannedSessionsByDate, isPlannedSessionDone } from "../../utils/programs";
+import {
+  DEFAULT_WEIGHT_UNIT,
+  STAT_DEFINITIONS,
+  getStatLabel,
+  parseStatInput,
+  toStatInputs,
+} from "../../utils/stats";
+import {
+  DEFAULT_DISTANCE_UNIT,
+  describeCardio,
+  isCardioWorkout,
+  parseCardioInputs,
+  toCardioInputs,
+} from "../../utils/cardio";
 
 export default function LogWorkout() {
   const router = useRouter();
+  const params = useLocalSearchParams<{ date?: string }>();
   const user = auth.currentUser;
 
-  const [muscleGroup, setMuscleGroup] = useState("");
+  // Muscle groups picked by hand, on top of those derived from the exercises
+  const [extraMuscleGroups, setExtraMuscleGroups] = useState<string[]>([]);
+  const [exercises, setExercises] = useState<ExerciseInput[]>([]);
+  // Superset/circuit/interval settings for grouped exercises
+  const [blocks, setBlocks] = useState<ExerciseBlock[]>([]);
+  const [entryType, setEntryType] = useState<"strength" | "cardio">("strength");
+  const [cardioInputs, setCardioInputs] = useState<CardioInput>(() => toCardioInputs());
+  const [distanceUnit, setDistanceUnit] = useState(DEFAULT_DISTANCE_UNIT);
+  const [exerciseLibrary, setExerciseLibrary] = useState<any[]>(() => buildExerciseLibrary());
   const [loading, setLoading] = useState(false);
-  const [showDropdown, setShowDropdown] = useState(false);
   const [workoutId, setWorkoutId] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [dayWorkouts, setDayWorkouts] = useState<any[]>([]);
   const [loadingWorkout, setLoadingWorkout] = useState(true);
   const [statPreferences, setStatPreferences] = useState<string[]>([]);
+  const [progressionSettings, setProgressionSettings] = useState<any>(null);
+  const [weightUnit, setWeightUnit] = useState(DEFAULT_WEIGHT_UNIT);
+  const [plateSettings, setPlateSettings] = useState(() => resolvePlateSettings());
+  const [workoutHistory, setWorkoutHistory] = useState<any[]>([]);
   const [statValues, setStatValues] = useState<{ [key: string]: string }>({});
   const [savingStatId, setSavingStatId] = useState<string | null>(null);
+  const [showTemplatesModal, setShowTemplatesModal] = useState(false);
+  const [showSaveTemplateModal, setShowSaveTemplateModal] = useState(false);
+  const [activeTemplate, setActiveTemplate] = useState<{ id: string; name: string } | null>(null);
+  const [templateName, setTemplateName] = useState("");
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [hasActiveSession, setHasActiveSession] = useState(false);
+  const [activeProgram, setActiveProgram] = useState<any>(null);
+
+  // Load all sessions for the selected day
+  const loadDayWorkouts = useCallback(async () => {
+    try {
+      const userId = user?.uid;
+      if (!userId) return;
+
+      const workouts = await getWorkoutsForDate(userId, selectedDate);
+      setDayWorkouts(workouts);
+    } catch (error) {
+      console.error("Error loading workouts:", error);
+      // Don't show error to user, just let them create new
+    } finally {
+      setLoadingWorkout(false);
+    }
+  }, [user, selectedDate]);
 
-  // Check if today's workout exists on mount
   useEffect(() => {
-    const loadTodaysWorkout = async () => {
-      try {
+    loadDayWorkouts();
+  }, [loadDayWorkouts]);
+
+  // Built-in catalog plus the user's custom exercises
+  const loadExerciseLibrary = useCallback(async () => {
+    try {
+      const userId = user?.uid;
+      if (!userId) return;
+
+      const customExercises = await getCustomExercises(userId);
+      setExerciseLibrary(buildExerciseLibrary(customExercises));
+    } catch (error) {
+      console.error("Error loading custom exercises:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadExerciseLibrary();
+  }, [loadExerciseLibrary]);
+
+  const derivedMuscleGroups = deriveMuscleGroups(exerciseLibrary, exercises);
+  const muscleGroups = [...new Set([...derivedMuscleGroups, ...extraMuscleGroups])];
+
+  const toggleMuscleGroup = (group: string) => {
+    setExtraMuscleGroups((prev) =>
+      prev.includes(group) ? prev.filter((g) => g !== group) : [...prev, group]
+    );
+  };
+
+  // Keep only groups the exercises don't already cover; older workouts store a single string such as "Legs"
+  const toExtraMuscleGroups = (source: any) => {
+    const derived = deriveMuscleGroups(exerciseLibrary, source.exercises || []);
+    return getWorkoutMuscleGroups(source)
+      .flatMap(expandLegacyMuscleGroup)
+      .filter((group) => !derived.includes(group));
+  };
+
+  const isToday = isSameDay(selectedDate, new Date());
+  const dayRecords = dayWorkouts.flatMap((workout) => workout.prs || []);
+
+  // Backdated sessions are stored at midday so they stay on the chosen day
+  const getSessionDate = () =>
+    isToday
+      ? new Date()
+      : new Date(selectedDate.getFullYear(), selectedDate.getMonth(), selectedDate.getDate(), 12);
+
+  // Check for a live session left running in the background
+  useFocusEffect(
+    useCallback(() => {
+      const checkActiveSession = async () => {
         const userId = user?.uid;
         if (!userId) return;
 
-        const todaysWorkout = await getTodaysWorkout(userId);
+        const draft = await loadWorkoutSession(userId);
+        setHasActiveSession(!!draft);
+      };
 
-        if (todaysWorkout) {
-          // Found existing workout, populate form
-          setWorkoutId(todaysWorkout.id);
-          setMuscleGroup(todaysWorkout.muscleGroup || "");
-          setIsEditing(true);
+      checkActiveSession();
+    }, [user])
+  );
+
+  // Planned sessions come from the program started on the profile screen
+  useFocusEffect(
+    useCallback(() => {
+      const loadActiveProgram = async () => {
+        try {
+          const userId = user?.uid;
+          if (!userId) return;
 
-          // Load existing stat values
-          if (todaysWorkout.stats) {
-            setStatValues(todaysWorkout.stats);
-          }
+          setActiveProgram(await getActiveProgram(userId));
+        } catch (error) {
+          console.error("Error loading program:", error);
         }
-      } catch (error) {
-        console.error("Error loading today's workout:", error);
-        // Don't show error to user, just let them create new
-      } finally {
-        setLoadingWorkout(false);
-      }
-    };
+      };
 
-    loadTodaysWorkout();
-  }, [user]);
+      loadActiveProgram();
+    }, [user])
+  );
+
+  const plannedSession = activeProgram
+    ? (getPlannedSessionsByDate(activeProgram)[toDateKey(selectedDate)] || [])
+        .find((session: any) => !isPlannedSessionDone(activeProgram, session.id))
+    : null;
+
+  // Pre-fill the session with the program's planned exercises and loads
+  const handleLoadPlannedSession = () => {
+    if (!plannedSession) return;
 
-  // Load user's stat preferences
+    setExtraMuscleGroups([]);
+    setExercises(toExerciseInputs(plannedSession.exercises, weightUnit));
+    setBlocks([]);
+    setActiveTemplate(null);
+  };
+
+  // Load user's stat preferences and progression rule
   useEffect(() => {
     const loadStatPreferences = async () => {
       try {
@@ -89,6 +225,15 @@ export default function LogWorkout() {
         if (userData?.statPreferences) {
           setStatPreferences(userData.statPreferences);
         }
+        setProgressionSettings(userData?.progressionSettings || null);
+        setWeightUnit(userData?.weightUnit || DEFAULT_WEIGHT_UNIT);
+        setPlateSettings(resolvePlateSettings(userData?.plateSettings));
+        setDistanceUnit(userData?.distanceUnit || DEFAULT_DISTANCE_UNIT);
+
+        // Stats used to be saved as raw strings; convert them once
+        if (userData && userData.statsVersion !== 2) {
+          await migrateLegacyStats(userId);
+        }
       } catch (error) {
         console.error("Error loading stat preferences:", error);
       }
@@ -97,10 +242,39 @@ export default function LogWorkout() {
     loadStatPreferences();
   }, [user]);
 
+  // Past sessions feed the progression suggestions
+  const loadWorkoutHistory = useCallback(async () => {
+    try {
+      const userId = user?.uid;
+      if (!userId) return;
+
+      setWorkoutHistory(await getUserWorkouts(userId));
+    } catch (error) {
+      console.error("Error loading workout history:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadWorkoutHistory();
+  }, [loadWorkoutHistory]);
+
+  // Suggest today's target from earlier sessions of the same exercise
+  const getSuggestion = (exercise: ExerciseInput) =>
+    suggestNextTarget(
+      getExerciseHistory(workoutHistory, exercise.name, {
+        before: getSessionDate(),
+        excludeWorkoutId: workoutId,
+      }),
+      progressionSettings,
+      weightUnit
+    );
+
+  const statLabel = (statId: string) => getStatLabel(statId, weightUnit);
+
   const handleSaveStat = async (statId: string) => {
-    const statValue = statValues[statId];
-    if (!statValue || !statValue.trim()) {
-      Alert.alert("Value Required", `Please enter a value for ${STAT_LABELS[statId]}`);
+    const { stat, error: statError } = parseStatInput(statId, statValues[statId], weightUnit);
+    if (statError) {
+      Alert.alert("Invalid Value", statError);
       return;
     }
 
@@ -112,29 +286,31 @@ export default function LogWorkout() {
         return;
       }
 
-      // Get or create today's workout
-      let todaysWorkout = await getTodaysWorkout(userId);
+      // Attach stats to the session being edited, else the most recent one that day
+      let targetWorkout =
+        dayWorkouts.find((workout) => workout.id === workoutId) || dayWorkouts[0];
 
-      if (!todaysWorkout) {
+      if (!targetWorkout) {
         // Create a basic workout entry for stats
         const workoutRef = await createWorkout(
           userId,
-          new Date(),
+          getSessionDate(),
           0,
           "Stats Only",
           false
         );
-        todaysWorkout = { id: workoutRef.id };
+        targetWorkout = { id: workoutRef.id };
         setWorkoutId(workoutRef.id);
       }
 
       // Save the stat
-      const existingStats = todaysWorkout.stats || {};
-      await updateWorkout(todaysWorkout.id, {
-        stats: { ...existingStats, [statId]: statValue }
+      const existingStats = targetWorkout.stats || {};
+      await updateWorkout(targetWorkout.id, {
+        stats: { ...existingStats, [statId]: stat }
       });
+      await loadDayWorkouts();
 
-      Alert.alert("Success", `${STAT_LABELS[statId]} saved!`);
+      Alert.alert("Success", `${STAT_DEFINITIONS[statId].label} saved!`);
     } catch (error) {
       console.error("Save stat error:", error);
       Alert.alert("Error", "Failed to save stat. Please try again.");
@@ -143,10 +319,249 @@ export default function LogWorkout() {
     }
   };
 
+  // Open one of the day's sessions for editing
+  const handleSelectSession = (workout: any) => {
+    setWorkoutId(workout.id);
+    setExtraMuscleGroups(toExtraMuscleGroups(workout));
+    // Older workouts only have a muscle group, no exercises
+    setExercises(toExerciseInputs(workout.exercises, weightUnit));
+    setBlocks(workout.blocks || []);
+    setStatValues(toStatInputs(workout.stats, weightUnit));
+    setEntryType(isCardioWorkout(workout) ? "cardio" : "strength");
+    setCardioInputs(toCardioInputs(workout.cardio, distanceUnit));
+    setActiveTemplate(null);
+    setIsEditing(true);
+  };
+
+  // Reset the form to log an additional session that day
+  const handleNewSession = useCallback(() => {
+    setWorkoutId(null);
+    setExtraMuscleGroups([]);
+    setExercises([]);
+    setBlocks([]);
+    setCardioInputs(toCardioInputs());
+    setStatValues({});
+    setActiveTemplate(null);
+    setIsEditing(false);
+  }, []);
+
+  const handleChangeDate = (date: Date) => {
+    setSelectedDate(date);
+    handleNewSession();
+  };
+
+  // Open the day passed in from the profile calendar
+  useEffect(() => {
+    const paramDate = parseDateKey(params.date);
+    if (paramDate) {
+      setSelectedDate(paramDate);
+      handleNewSession();
+    }
+  }, [params.date, handleNewSession]);
+
+  // Delete one of the day's sessions
+  const handleDeleteSession = (workout: any) => {
+    Alert.alert(
+      "Delete Workout",
+      "Are you sure you want to delete this workout?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteWorkout(workout.id);
+              if (workout.id === workoutId) {
+                handleNewSession();
+              }
+              await loadDayWorkouts();
+              // Deleted sets may have held PRs
+              if (user?.uid) {
+                await rebuildPersonalRecords(user.uid);
+              }
+            } catch (error) {
+              console.error("Error deleting workout:", error);
+              Alert.alert("Error", "Failed to delete workout.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Pre-fill the session from a saved template
+  const handleSelectTemplate = (template: any) => {
+    setExtraMuscleGroups(toExtraMuscleGroups(template));
+    setExercises(toExerciseInputs(template.exercises, weightUnit));
+    setBlocks(template.blocks || []);
+    setActiveTemplate({ id: template.id, name: template.name });
+    setShowTemplatesModal(false);
+  };
+
+  // Save the current session as a new template, or overwrite the active one
+  const handleSaveTemplate = async (overwrite: boolean) => {
+    if (!overwrite && !templateName.trim()) {
+      Alert.alert("Name Required", "Please enter a template name");
+      return;
+    }
+
+    const { exercises: parsedExercises, error: exerciseError } = parseExerciseInputs(exercises, weightUnit);
+    if (exerciseError) {
+      Alert.alert("Invalid Exercise", exerciseError);
+      return;
+    }
+
+    const blockError = validateBlocks(blocks);
+    if (blockError) {
+      Alert.alert("Invalid Block", blockError);
+      return;
+    }
+
+    setSavingTemplate(true);
+    try {
+      const userId = user?.uid;
+      if (!userId) {
+        Alert.alert("Error", "You must be logged in");
+        return;
+      }
+
+      if (overwrite && activeTemplate) {
+        await updateWorkoutTemplate(activeTemplate.id, {
+          muscleGroups,
+          exercises: parsedExercises,
+          blocks,
+        });
+        Alert.alert("Success", `Template "${activeTemplate.name}" updated!`);
+      } else {
+        const templateRef = await createWorkoutTemplate(
+          userId,
+          templateName,
+          muscleGroups,
+          parsedExercises,
+          blocks
+        );
+        setActiveTemplate({ id: templateRef.id, name: templateName.trim() });
+        Alert.alert("Success", `Template "${templateName.trim()}" saved!`);
+      }
+
+      setTemplateName("");
+      setShowSaveTemplateModal(false);
+    } catch (error) {
+      console.error("Save template error:", error);
+      Alert.alert("Error", "Failed to save template. Please try again.");
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  // Start a live session using the current form as the plan
+  const handleStartSession = async () => {
+    if (muscleGroups.length === 0) {
+      Alert.alert("Muscle Group Required", "Add an exercise or select a muscle group");
+      return;
+    }
+
+    const userId = user?.uid;
+    if (!userId) {
+      Alert.alert("Error", "You must be logged in");
+      return;
+    }
+
+    const start = async () => {
+      try {
+        await startWorkoutSession(userId, extraMuscleGroups, exercises, blocks);
+        handleNewSession();
+        router.push("/(app)/workout-session");
+      } catch (error) {
+        console.error("Start session error:", error);
+        Alert.alert("Error", "Failed to start live session. Please try again.");
+      }
+    };
+
+    if (hasActiveSession) {
+      Alert.alert(
+        "Replace Live Session",
+        "You already have a workout in progress. Start a new one instead?",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Start New", style: "destructive", onPress: start },
+        ]
+      );
+      return;
+    }
+
+    start();
+  };
+
+  // Save a cardio entry, keeping the minutes-based cardio stat in step
+  const handleSubmitCardio = async () => {
+    const { cardio, error: cardioError } = parseCardioInputs(cardioInputs, distanceUnit);
+    if (cardioError) {
+      Alert.alert("Invalid Cardio Entry", cardioError);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const userId = user?.uid;
+      if (!userId) {
+        Alert.alert("Error", "You must be logged in");
+        return;
+      }
+
+      if (isEditing && workoutId) {
+        const existingStats = dayWorkouts.find((workout) => workout.id === workoutId)?.stats || {};
+        await updateWorkout(workoutId, {
+          type: "cardio",
+          cardio,
+          muscleGroups: ["Cardio"],
+          exercises: [],
+          blocks: [],
+          stats: { ...existingStats, cardio: { value: cardio.durationMinutes, unit: "min" } },
+        });
+      } else {
+        await createCardioWorkout(userId, getSessionDate(), cardio);
+      }
+
+      Alert.alert("Success", `${describeCardio(cardio, distanceUnit)} ${isEditing ? "updated" : "logged"}!`, [
+        {
+          text: "OK",
+          onPress: () => router.back(),
+        },
+      ]);
+
+      handleNewSession();
+      await loadDayWorkouts();
+    } catch (error) {
+      console.error("Cardio log error:", error);
+      Alert.alert("Error", `Failed to ${isEditing ? 'update' : 'log'} cardio. Please try again.`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSubmit = async () => {
+    if (entryType === "cardio") {
+      await handleSubmitCardio();
+      return;
+    }
+
     // Validation
-    if (!muscleGroup) {
-      Alert.alert("Muscle Group Required", "Please select a muscle group");
+    if (muscleGroups.length === 0) {
+      Alert.alert("Muscle Group Required", "Add an exercise or select a muscle group");
+      return;
+    }
+
+    const { exercises: parsedExercises, error: exerciseError } = parseExerciseInputs(exercises, weightUnit);
+    if (exerciseError) {
+      Alert.alert("Invalid Exercise", exerciseError);
+      return;
+    }
+
+    const blockError = validateBlocks(blocks);
+    if (blockError) {
+      Alert.alert("Invalid Block", blockError);
       return;
     }
 
@@ -158,42 +573,66 @@ export default function LogWorkout() {
         return;
       }
 
+      let savedWorkoutId: string;
       if (isEditing && workoutId) {
         // Update existing workout
         await updateWorkout(workoutId, {
-          muscleGroup,
+          muscleGroups,
+          exercises: parsedExercises,
+          blocks,
           caloriesConsumed: 0,
           completed: true,
         });
-
-        Alert.alert("Success", "Workout updated successfully!", [
-          {
-            text: "OK",
-            onPress: () => router.back(),
-          },
-        ]);
+        savedWorkoutId = workoutId;
       } else {
         // Create new workout
-        await createWorkout(
+        const workoutRef = await createWorkout(
           userId,
-          new Date(),
+          getSessionDate(),
           0, // Calories tracked separately
-          muscleGroup,
-          true // Mark as completed
+          muscleGroups,
+          true, // Mark as completed
+          parsedExercises,
+          blocks
         );
+        savedWorkoutId = workoutRef.id;
+      }
 
-        Alert.alert("Success", "Workout logged successfully!", [
-          {
-            text: "OK",
-            onPress: () => router.back(),
-          },
-        ]);
+      // PR detection shouldn't block saving the workout
+      let newRecords: any[] = [];
+      try {
+        newRecords = await recordWorkoutPersonalRecords(userId, savedWorkoutId);
+      } catch (error) {
+        console.error("PR detection error:", error);
       }
 
+      // Likewise for ticking off the program's planned session
+      let completedSession: any = null;
+      try {
+        completedSession = await completePlannedSession(userId, savedWorkoutId);
+      } catch (error) {
+        console.error("Program update error:", error);
+      }
+
+      const successMessage = isEditing ? "Workout updated successfully!" : "Workout logged successfully!";
+      const recordsMessage = newRecords.length > 0
+        ? `\n\n🏆 New PRs:\n${newRecords.map((record) => describeRecord(record, weightUnit)).join("\n")}`
+        : "";
+      const programMessage = completedSession ? `\n\n✅ Completed ${completedSession.name}` : "";
+
+      Alert.alert(newRecords.length > 0 ? "New PR!" : "Success", successMessage + recordsMessage + programMessage, [
+        {
+          text: "OK",
+          onPress: () => router.back(),
+        },
+      ]);
+
       // Reset form
-      setMuscleGroup("");
-      setWorkoutId(null);
-      setIsEditing(false);
+      handleNewSession();
+      await Promise.all([loadDayWorkouts(), loadWorkoutHistory()]);
+      if (completedSession && user?.uid) {
+        setActiveProgram(await getActiveProgram(user.uid));
+      }
     } catch (error) {
       console.error("Workout log error:", error);
       Alert.alert("Error", `Failed to ${isEditing ? 'update' : 'log'} workout. Please try again.`);
@@ -214,63 +653,200 @@ export default function LogWorkout() {
   }
 
   return (
+    <>
     <ScrollView style={styles.container}>
       <View style={styles.formContainer}>
-        <Text style={styles.header}>{isEditing ? "Edit Today's Workout" : "Log Workout"}</Text>
+        <Text style={styles.header}>{isEditing ? "Edit Workout" : "Log Workout"}</Text>
         <Text style={styles.subheader}>
           {isEditing
-            ? "Update the muscle group you worked today"
-            : "Select which muscle group you worked today"}
+            ? "Update what you worked on in this session"
+            : "Log your lifts and we'll work out which muscles you trained"}
         </Text>
 
-        {/* Muscle Group Dropdown */}
-        <View style={styles.inputContainer}>
-          <Text style={styles.label}>Muscle Group *</Text>
+        {/* Live Session */}
+        {hasActiveSession && (
           <TouchableOpacity
-            style={[styles.dropdown, showDropdown && styles.dropdownActive]}
-            onPress={() => setShowDropdown(!showDropdown)}
-            disabled={loading}
+            style={styles.resumeBanner}
+            onPress={() => router.push("/(app)/workout-session")}
           >
-            <Text
-              style={[
-                styles.dropdownText,
-                !muscleGroup && styles.dropdownPlaceholder,
-              ]}
-            >
-              {muscleGroup || "Select muscle group"}
-            </Text>
-            <Text style={styles.dropdownArrow}>{showDropdown ? "▲" : "▼"}</Text>
+            <Ionicons name="stopwatch-outline" size={22} color="#fff" />
+            <Text style={styles.resumeBannerText}>Workout in progress, tap to resume</Text>
           </TouchableOpacity>
+        )}
+
+        {/* Workout Date */}
+        <DateSelector date={selectedDate} onChange={handleChangeDate} disabled={loading} />
 
-          {/* Dropdown Options */}
-          {showDropdown && (
-            <View style={styles.dropdownMenu}>
-              {MUSCLE_GROUPS.map((group) => (
+        {/* Sessions For The Day */}
+        {dayWorkouts.length > 0 && (
+          <View style={styles.sessionsContainer}>
+            <Text style={styles.label}>
+              {isToday ? "Today's Sessions" : `Sessions on ${formatDisplayDate(selectedDate)}`}
+            </Text>
+            {dayWorkouts.map((workout) => (
+              <TouchableOpacity
+                key={workout.id}
+                style={[
+                  styles.sessionRow,
+                  workoutId === workout.id && isEditing && styles.sessionRowSelected,
+                ]}
+                onPress={() => handleSelectSession(workout)}
+                disabled={loading}
+              >
+                <View style={styles.sessionInfo}>
+                  <Text style={styles.sessionTitle}>
+                    {isCardioWorkout(workout)
+                      ? describeCardio(workout.cardio, distanceUnit)
+                      : getWorkoutMuscleGroups(workout).join(", ") || "Workout"}
+                  </Text>
+                  <Text style={styles.sessionDetails}>
+                    {workout.date.toDate().toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                    {workout.exercises?.length ? ` · ${workout.exercises.length} exercises` : ""}
+                  </Text>
+                </View>
+                <Ionicons name="create-outline" size={20} color="#007AFF" />
                 <TouchableOpacity
-                  key={group}
-                  style={[
-                    styles.dropdownOption,
-                    muscleGroup === group && styles.dropdownOptionSelected,
-                  ]}
-                  onPress={() => {
-                    setMuscleGroup(group);
-                    setShowDropdown(false);
-                  }}
+                  style={styles.sessionDeleteButton}
+                  onPress={() => handleDeleteSession(workout)}
+                  disabled={loading}
                 >
-                  <Text
-                    style={[
-                      styles.dropdownOptionText,
-                      muscleGroup === group &&
-                        styles.dropdownOptionTextSelected,
-                    ]}
-                  >
-                    {group}
-                  </Text>
+                  <Ionicons name="trash-outline" size={20} color="#FF3B30" />
                 </TouchableOpacity>
+              </TouchableOpacity>
+            ))}
+            {isEditing && (
+              <TouchableOpacity
+                style={styles.newSessionButton}
+                onPress={handleNewSession}
+                disabled={loading}
+              >
+                <Text style={styles.newSessionButtonText}>+ New Session</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* Entry Type */}
+        <View style={styles.entryTypeToggle}>
+          {(["strength", "cardio"] as const).map((type) => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.entryTypeOption, entryType === type && styles.entryTypeOptionSelected]}
+              onPress={() => setEntryType(type)}
+              disabled={loading || isEditing}
+            >
+              <Text style={[styles.entryTypeText, entryType === type && styles.entryTypeTextSelected]}>
+                {type === "strength" ? "Strength" : "Cardio"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {entryType === "strength" ? (
+          <>
+          {/* Planned Program Session */}
+          {plannedSession && !isEditing && (
+            <View style={styles.plannedCard}>
+              <View style={styles.plannedHeader}>
+                <Ionicons name="calendar-outline" size={20} color="#007AFF" />
+                <Text style={styles.plannedTitle}>
+                  {activeProgram.name} · {plannedSession.name}
+                </Text>
+              </View>
+              {plannedSession.exercises.map((exercise: any, index: number) => (
+                <Text key={index} style={styles.plannedExercise}>
+                  {exercise.name}: {describePlannedSets(exercise.sets, weightUnit)}
+                </Text>
               ))}
+              <TouchableOpacity
+                style={styles.plannedButton}
+                onPress={handleLoadPlannedSession}
+                disabled={loading}
+              >
+                <Text style={styles.plannedButtonText}>Load Planned Session</Text>
+              </TouchableOpacity>
             </View>
           )}
-        </View>
+
+          {/* Start From Template */}
+          <TouchableOpacity
+            style={styles.templateButton}
+            onPress={() => setShowTemplatesModal(true)}
+            disabled={loading}
+          >
+            <Ionicons name="albums-outline" size={20} color="#007AFF" />
+            <Text style={styles.templateButtonText}>
+              {activeTemplate ? `Template: ${activeTemplate.name}` : "Start from Template"}
+            </Text>
+          </TouchableOpacity>
+
+          {/* Exercises */}
+          <View style={styles.exercisesContainer}>
+            <Text style={styles.label}>Exercises</Text>
+            <ExerciseEditor
+              exercises={exercises}
+              onChange={setExercises}
+              blocks={blocks}
+              onBlocksChange={setBlocks}
+              disabled={loading}
+              library={exerciseLibrary}
+              userId={user?.uid}
+              onLibraryChange={loadExerciseLibrary}
+              getSuggestion={getSuggestion}
+              plateSettings={plateSettings}
+              weightUnit={weightUnit}
+            />
+            {exercises.length > 0 && (
+              <TouchableOpacity
+                style={styles.saveTemplateButton}
+                onPress={() => setShowSaveTemplateModal(true)}
+                disabled={loading}
+              >
+                <Text style={styles.saveTemplateButtonText}>Save as Template</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Muscle Groups */}
+          <View style={styles.inputContainer}>
+            <Text style={styles.label}>Muscle Groups *</Text>
+            <Text style={styles.hintText}>
+              Groups worked by your exercises are selected automatically. Tap others to add them.
+            </Text>
+            <View style={styles.muscleChipsRow}>
+              {MUSCLE_GROUPS.map((group) => {
+                const isDerived = derivedMuscleGroups.includes(group);
+                const isSelected = isDerived || extraMuscleGroups.includes(group);
+                return (
+                  <TouchableOpacity
+                    key={group}
+                    style={[
+                      styles.muscleChip,
+                      isSelected && styles.muscleChipSelected,
+                      isDerived && styles.muscleChipDerived,
+                    ]}
+                    onPress={() => toggleMuscleGroup(group)}
+                    disabled={loading || isDerived}
+                  >
+                    <Text style={[styles.muscleChipText, isSelected && styles.muscleChipTextSelected]}>
+                      {group}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+          </>
+        ) : (
+          <View style={styles.exercisesContainer}>
+            <CardioForm
+              value={cardioInputs}
+              onChange={setCardioInputs}
+              distanceUnit={distanceUnit}
+              disabled={loading}
+            />
+          </View>
+        )}
 
         {/* Submit Button */}
         <TouchableOpacity
@@ -287,6 +863,18 @@ export default function LogWorkout() {
           )}
         </TouchableOpacity>
 
+        {/* Live Session Button */}
+        {isToday && !isEditing && entryType === "strength" && (
+          <TouchableOpacity
+            style={styles.liveSessionButton}
+            onPress={handleStartSession}
+            disabled={loading}
+          >
+            <Ionicons name="play-circle-outline" size={20} color="#007AFF" />
+            <Text style={styles.liveSessionButtonText}>Start Live Session</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Cancel Button */}
         <TouchableOpacity
           style={styles.cancelButton}
@@ -316,38 +904,132 @@ export default function LogWorkout() {
                   size={24}
                   color="#007AFF"
                 />
-                <Text style={styles.statCardTitle}>{STAT_LABELS[statId]}</Text>
+                <Text style={styles.statCardTitle}>{statLabel(statId)}</Text>
               </View>
 
+              {statId === 'pr' ? (
+                // PRs are detected from logged sets rather than typed in
+                dayRecords.length > 0 ? (
+                  dayRecords.map((record, index) => (
+                    <Text key={index} style={styles.recordText}>
+                      🏆 {describeRecord(record, weightUnit)}
+                    </Text>
+                  ))
+                ) : (
+                  <Text style={styles.recordEmptyText}>
+                    PRs are detected automatically when you log your sets
+                  </Text>
+                )
+              ) : (
+                <>
+                  <TextInput
+                    style={styles.statInput}
+                    placeholder={`Enter ${statLabel(statId).toLowerCase()}`}
+                    value={statValues[statId] || ""}
+                    onChangeText={(text) =>
+                      setStatValues((prev) => ({ ...prev, [statId]: text }))
+                    }
+                    // Durations accept h:mm, so they need punctuation
+                    keyboardType={
+                      STAT_DEFINITIONS[statId]?.type === "duration" ? "numbers-and-punctuation" : "numeric"
+                    }
+                  />
+
+                  <TouchableOpacity
+                    style={[
+                      styles.saveStatButton,
+                      savingStatId === statId && styles.disabledButton
+                    ]}
+                    onPress={() => handleSaveStat(statId)}
+                    disabled={savingStatId === statId}
+                  >
+                    {savingStatId === statId ? (
+                      <ActivityIndicator color="#fff" />
+                    ) : (
+                      <Text style={styles.saveStatButtonText}>Save {STAT_DEFINITIONS[statId].label}</Text>
+                    )}
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+
+      {/* Templates Modal */}
+      <WorkoutTemplatesModal
+        visible={showTemplatesModal}
+        userId={user?.uid}
+        onClose={() => setShowTemplatesModal(false)}
+        onSelect={handleSelectTemplate}
+      />
+
+      {/* Save Template Modal */}
+      <Modal
+        visible={showSaveTemplateModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowSaveTemplateModal(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setShowSaveTemplateModal(false)}
+        >
+          <TouchableOpacity
+            activeOpacity={1}
+            onPress={(e) => e.stopPropagation()}
+          >
+            <View style={styles.modalContent}>
+              <Text style={styles.modalHeader}>Save as Template</Text>
+              <Text style={styles.modalSubheader}>
+                Reuse these exercises in future sessions
+              </Text>
+
               <TextInput
-                style={styles.statInput}
-                placeholder={`Enter ${STAT_LABELS[statId].toLowerCase()}`}
-                value={statValues[statId] || ""}
-                onChangeText={(text) =>
-                  setStatValues((prev) => ({ ...prev, [statId]: text }))
-                }
-                keyboardType={statId === 'pr' ? 'default' : 'numeric'}
+                style={styles.modalInput}
+                placeholder="e.g., Push Day"
+                value={templateName}
+                onChangeText={setTemplateName}
+                editable={!savingTemplate}
               />
 
               <TouchableOpacity
-                style={[
-                  styles.saveStatButton,
-                  savingStatId === statId && styles.disabledButton
-                ]}
-                onPress={() => handleSaveStat(statId)}
-                disabled={savingStatId === statId}
+                style={[styles.modalSaveButton, savingTemplate && styles.disabledButton]}
+                onPress={() => handleSaveTemplate(false)}
+                disabled={savingTemplate}
               >
-                {savingStatId === statId ? (
+                {savingTemplate ? (
                   <ActivityIndicator color="#fff" />
                 ) : (
-                  <Text style={styles.saveStatButtonText}>Save {STAT_LABELS[statId]}</Text>
+                  <Text style={styles.modalSaveButtonText}>Save New Template</Text>
                 )}
               </TouchableOpacity>
+
+              {activeTemplate && (
+                <TouchableOpacity
+                  style={[styles.modalSaveButton, savingTemplate && styles.disabledButton]}
+                  onPress={() => handleSaveTemplate(true)}
+                  disabled={savingTemplate}
+                >
+                  <Text style={styles.modalSaveButtonText}>
+                    Update &quot;{activeTemplate.name}&quot;
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                style={styles.modalCancelButton}
+                onPress={() => setShowSaveTemplateModal(false)}
+              >
+                <Text style={styles.modalCancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
             </View>
-          ))}
-        </View>
-      )}
-    </ScrollView>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </>
   );
 }
 
@@ -383,76 +1065,279 @@ const styles = StyleSheet.create({
     color: "#000",
     marginBottom: 8,
   },
-  dropdown: {
+  hintText: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 12,
+  },
+  muscleChipsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  muscleChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    backgroundColor: "#f5f5f5",
+  },
+  muscleChipSelected: {
+    backgroundColor: "#007AFF",
+    borderColor: "#007AFF",
+  },
+  muscleChipDerived: {
+    backgroundColor: "#34C759",
+    borderColor: "#34C759",
+  },
+  muscleChipText: {
+    fontSize: 14,
+    color: "#000",
+  },
+  muscleChipTextSelected: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  input: {
     backgroundColor: "#f5f5f5",
     borderRadius: 12,
     padding: 16,
+    fontSize: 16,
     borderWidth: 1,
     borderColor: "#e0e0e0",
+  },
+  exercisesContainer: {
+    marginBottom: 24,
+  },
+  sessionsContainer: {
+    marginBottom: 24,
+  },
+  sessionRow: {
     flexDirection: "row",
-    justifyContent: "space-between",
     alignItems: "center",
+    backgroundColor: "#f5f5f5",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
   },
-  dropdownActive: {
+  sessionRowSelected: {
     borderColor: "#007AFF",
+    backgroundColor: "#E6F4FE",
   },
-  dropdownText: {
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitle: {
     fontSize: 16,
+    fontWeight: "600",
     color: "#000",
   },
-  dropdownPlaceholder: {
-    color: "#999",
-  },
-  dropdownArrow: {
-    fontSize: 12,
+  sessionDetails: {
+    fontSize: 14,
     color: "#666",
+    marginTop: 2,
   },
-  dropdownMenu: {
-    backgroundColor: "#fff",
+  sessionDeleteButton: {
+    padding: 4,
+    marginLeft: 12,
+  },
+  newSessionButton: {
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  newSessionButtonText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  resumeBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#34C759",
     borderRadius: 12,
-    marginTop: 8,
-    borderWidth: 1,
-    borderColor: "#e0e0e0",
+    padding: 14,
+    marginBottom: 24,
+  },
+  resumeBannerText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  liveSessionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "#007AFF",
+    marginBottom: 12,
+  },
+  liveSessionButtonText: {
+    color: "#007AFF",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  entryTypeToggle: {
+    flexDirection: "row",
+    backgroundColor: "#f0f0f0",
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 24,
+  },
+  entryTypeOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  entryTypeOptionSelected: {
+    backgroundColor: "#fff",
     shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
+    shadowOffset: { width: 0, height: 1 },
     shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 3,
-    ...Platform.select({
-      android: {
-        position: "relative",
-      },
-      ios: {
-        position: "absolute",
-        top: 80,
-        left: 0,
-        right: 0,
-      },
-    }),
-  },
-  dropdownOption: {
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  entryTypeText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#666",
+  },
+  entryTypeTextSelected: {
+    color: "#007AFF",
+  },
+  plannedCard: {
+    backgroundColor: "#E6F4FE",
+    borderRadius: 12,
     padding: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: "#f0f0f0",
+    marginBottom: 16,
   },
-  dropdownOptionSelected: {
+  plannedHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  plannedTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#007AFF",
+    marginLeft: 8,
+  },
+  plannedExercise: {
+    fontSize: 14,
+    color: "#333",
+    marginBottom: 4,
+  },
+  plannedButton: {
+    backgroundColor: "#007AFF",
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  plannedButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  templateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
     backgroundColor: "#E6F4FE",
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginBottom: 24,
   },
-  dropdownOptionText: {
+  templateButtonText: {
+    color: "#007AFF",
     fontSize: 16,
-    color: "#000",
+    fontWeight: "600",
+    marginLeft: 8,
   },
-  dropdownOptionTextSelected: {
+  saveTemplateButton: {
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  saveTemplateButtonText: {
     color: "#007AFF",
+    fontSize: 14,
     fontWeight: "600",
   },
-  input: {
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: "#fff",
+    borderRadius: 20,
+    padding: 24,
+    width: "100%",
+    maxWidth: 400,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  modalHeader: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#000",
+    marginBottom: 6,
+    textAlign: "center",
+  },
+  modalSubheader: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  modalInput: {
     backgroundColor: "#f5f5f5",
     borderRadius: 12,
-    padding: 16,
+    padding: 14,
     fontSize: 16,
     borderWidth: 1,
     borderColor: "#e0e0e0",
+    marginBottom: 8,
+  },
+  modalSaveButton: {
+    backgroundColor: "#007AFF",
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  modalSaveButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  modalCancelButton: {
+    backgroundColor: "transparent",
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#999",
+    marginTop: 8,
+  },
+  modalCancelButtonText: {
+    color: "#666",
+    fontSize: 14,
+    fontWeight: "600",
   },
   submitButton: {
     backgroundColor: "#34C759",
@@ -547,6 +1432,16 @@ const styles = StyleSheet.create({
     borderColor: "#e0e0e0",
     marginBottom: 16,
   },
+  recordText: {
+    fontSize: 16,
+    color: "#000",
+    marginBottom: 8,
+  },
+  recordEmptyText: {
+    fontSize: 14,
+    color: "#999",
+    fontStyle: "italic",
+  },
   saveStatButton: {
     backgroundColor: "#007AFF",
     paddingVertical: 12,
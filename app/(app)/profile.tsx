@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import {
   View,
   Text,
@@ -7,12 +7,43 @@ import {
   ScrollView,
   TouchableOpacity,
   Modal,
+  Alert,
 } from "react-native";
-import { useRouter } from "expo-router";
+import { useRouter, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { auth } from "../../firebase";
-import { getUser, getUserWorkouts } from "../../firestore";
+import {
+  getUser,
+  getUserWorkouts,
+  getPersonalRecords,
+  getActiveProgram,
+  createProgram,
+  endProgram,
+} from "../../firestore";
+import { parseDateKey, toDateKey } from "../../utils/dates";
+import { PROGRESSION_RULES, resolveProgressionSettings } from "../../utils/progression";
+import ProgressionSettingsModal from "../../components/ProgressionSettingsModal";
+import ProgramSetupModal from "../../components/ProgramSetupModal";
+import PlateSettingsModal from "../../components/PlateSettingsModal";
+import { resolvePlateSettings } from "../../utils/plateCalculator";
+import { EXERCISE_CATALOG } from "../../constants/exercises";
+import { getExerciseKey } from "../../utils/personalRecords";
+import {
+  describePlannedSets,
+  getPlannedSessionsByDate,
+  getProgramProgress,
+  isPlannedSessionDone,
+} from "../../utils/programs";
+import { DEFAULT_WEIGHT_UNIT, WEIGHT_UNITS, convertWeight, formatWeight } from "../../utils/stats";
+import {
+  DEFAULT_DISTANCE_UNIT,
+  DISTANCE_UNITS,
+  convertDistance,
+  formatDuration,
+  getCardioActivity,
+  summarizeCardio,
+} from "../../utils/cardio";
 
 export default function Profile() {
   const router = useRouter();
@@ -21,9 +52,14 @@ export default function Profile() {
 
   const [currentUser, setCurrentUser] = useState<any | null>(null);
   const [workouts, setWorkouts] = useState<any[]>([]);
+  const [personalRecords, setPersonalRecords] = useState<{ [key: string]: any }>({});
   const [loading, setLoading] = useState(true);
   const [showStatsModal, setShowStatsModal] = useState(false);
   const [selectedStats, setSelectedStats] = useState<string[]>([]);
+  const [showProgressionModal, setShowProgressionModal] = useState(false);
+  const [activeProgram, setActiveProgram] = useState<any>(null);
+  const [showProgramModal, setShowProgramModal] = useState(false);
+  const [showPlateModal, setShowPlateModal] = useState(false);
 
   // Available stat options
   const availableStats = [
@@ -58,22 +94,30 @@ export default function Profile() {
     loadCurrentUser();
   }, [user]);
 
-  // Load user's workouts
-  useEffect(() => {
-    const loadWorkouts = async () => {
-      const userId = user?.uid;
-      if (!userId) return;
+  // Load user's workouts, refreshing after returning from editing a day
+  useFocusEffect(
+    useCallback(() => {
+      const loadWorkouts = async () => {
+        const userId = user?.uid;
+        if (!userId) return;
 
-      try {
-        const workoutData = await getUserWorkouts(userId);
-        setWorkouts(workoutData);
-      } catch (error) {
-        console.error("Error loading workouts:", error);
-      }
-    };
+        try {
+          const [workoutData, recordsData, programData] = await Promise.all([
+            getUserWorkouts(userId),
+            getPersonalRecords(userId),
+            getActiveProgram(userId),
+          ]);
+          setWorkouts(workoutData);
+          setPersonalRecords(recordsData);
+          setActiveProgram(programData);
+        } catch (error) {
+          console.error("Error loading workouts:", error);
+        }
+      };
 
-    loadWorkouts();
-  }, [user]);
+      loadWorkouts();
+    }, [user])
+  );
 
   // Generate calendar data for current month
   const generateCalendarData = () => {
@@ -101,12 +145,19 @@ export default function Profile() {
       }
     });
 
+    // Days with a program session still to do
+    const plannedSessionsByDate = getPlannedSessionsByDate(activeProgram);
+    const isPlanned = (date: Date) =>
+      (plannedSessionsByDate[toDateKey(date)] || []).some(
+        (session: any) => !isPlannedSessionDone(activeProgram, session.id)
+      );
+
     // Build calendar days
     const calendarDays = [];
 
     // Add empty cells for days before month starts
     for (let i = 0; i < startingDayOfWeek; i++) {
-      calendarDays.push({ day: null, status: 'empty' });
+      calendarDays.push({ day: null, status: 'empty', isToday: false, isFuture: false, date: null });
     }
 
     // Add actual days of month
@@ -126,12 +177,12 @@ export default function Profile() {
       } else if (isPast) {
         status = 'red';
       } else if (isToday) {
-        status = workoutDates.has(day) ? 'green' : 'grey';
+        status = isPlanned(date) ? 'planned' : 'grey';
       } else if (isFuture) {
-        status = 'grey';
+        status = isPlanned(date) ? 'planned' : 'grey';
       }
 
-      calendarDays.push({ day, status, isToday });
+      calendarDays.push({ day, status, isToday, isFuture: isFuture && !isToday, date });
     }
 
     return calendarDays;
@@ -140,6 +191,37 @@ export default function Profile() {
   const calendarDays = generateCalendarData();
   const monthName = new Date().toLocaleString('default', { month: 'long', year: 'numeric' });
 
+  // Heaviest lifts first, flagging records set in the last week
+  const recentRecordCutoff = Date.now() - 7 * 24 * 60 * 60 * 1000;
+  const recordList = Object.values(personalRecords)
+    .filter((record: any) => record.bestWeight || record.bestOneRepMax)
+    .sort((a: any, b: any) => (b.bestOneRepMax?.value || 0) - (a.bestOneRepMax?.value || 0));
+
+  // Cardio totals over the last 30 days
+  const cardioCutoff = Date.now() - 30 * 24 * 60 * 60 * 1000;
+  const cardioTotals = summarizeCardio(
+    workouts.filter((workout) => workout.date?.toMillis && workout.date.toMillis() >= cardioCutoff)
+  );
+
+  // Best estimated 1RMs pre-fill the program setup form
+  const estimatedMaxes = useMemo(() => {
+    const maxes: Record<string, number> = {};
+    EXERCISE_CATALOG.forEach((exercise) => {
+      const record = personalRecords[getExerciseKey(exercise.name)];
+      if (record?.bestOneRepMax) {
+        maxes[exercise.id] = record.bestOneRepMax.value;
+      }
+    });
+    return maxes;
+  }, [personalRecords]);
+
+  const programProgress = activeProgram ? getProgramProgress(activeProgram) : null;
+
+  // Open a past day in the workout log to add, edit or delete sessions
+  const openDay = (date: Date) => {
+    router.push({ pathname: "/(app)/log-workout", params: { date: toDateKey(date) } });
+  };
+
   // Toggle stat selection
   const toggleStat = (statId: string) => {
     setSelectedStats((prev) => {
@@ -164,6 +246,106 @@ export default function Profile() {
     }
   };
 
+  // Save the progression rule used for workout suggestions
+  const saveProgressionSettings = async (progressionSettings: any) => {
+    if (!user?.uid) return;
+
+    try {
+      const { updateUser } = await import("../../firestore");
+      await updateUser(user.uid, { progressionSettings });
+      setCurrentUser((prev: any) => ({ ...prev, progressionSettings }));
+      setShowProgressionModal(false);
+    } catch (error) {
+      console.error("Error saving progression settings:", error);
+    }
+  };
+
+  // Save the bar and plates used for warm-ups and plate loading
+  const savePlateSettings = async (plateSettings: any) => {
+    if (!user?.uid) return;
+
+    try {
+      const { updateUser } = await import("../../firestore");
+      await updateUser(user.uid, { plateSettings });
+      setCurrentUser((prev: any) => ({ ...prev, plateSettings }));
+      setShowPlateModal(false);
+    } catch (error) {
+      console.error("Error saving plate settings:", error);
+    }
+  };
+
+  // Save the unit weight stats are entered and shown in
+  const saveWeightUnit = async (weightUnit: string) => {
+    if (!user?.uid) return;
+
+    try {
+      const { updateUser } = await import("../../firestore");
+      await updateUser(user.uid, { weightUnit });
+      setCurrentUser((prev: any) => ({ ...prev, weightUnit }));
+    } catch (error) {
+      console.error("Error saving weight unit:", error);
+    }
+  };
+
+  // Save the unit cardio distances are entered and shown in
+  const saveDistanceUnit = async (distanceUnit: string) => {
+    if (!user?.uid) return;
+
+    try {
+      const { updateUser } = await import("../../firestore");
+      await updateUser(user.uid, { distanceUnit });
+      setCurrentUser((prev: any) => ({ ...prev, distanceUnit }));
+    } catch (error) {
+      console.error("Error saving distance unit:", error);
+    }
+  };
+
+  // Schedule a program from today, replacing any program in progress
+  const startProgram = async (templateId: string, trainingDays: number[], oneRepMaxes: Record<string, number>) => {
+    if (!user?.uid) return;
+
+    try {
+      await createProgram(user.uid, templateId, new Date(), trainingDays, oneRepMaxes, weightUnit);
+      setActiveProgram(await getActiveProgram(user.uid));
+      setShowProgramModal(false);
+    } catch (error) {
+      console.error("Error starting program:", error);
+      Alert.alert("Error", "Failed to start program. Please try again.");
+    }
+  };
+
+  const confirmEndProgram = () => {
+    if (!activeProgram) return;
+
+    Alert.alert(
+      "End Program",
+      `Stop following ${activeProgram.name}? Logged workouts are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "End Program",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await endProgram(activeProgram.id);
+              setActiveProgram(null);
+            } catch (error) {
+              console.error("Error ending program:", error);
+              Alert.alert("Error", "Failed to end program. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const weightUnit = currentUser?.weightUnit || DEFAULT_WEIGHT_UNIT;
+  const distanceUnit = currentUser?.distanceUnit || DEFAULT_DISTANCE_UNIT;
+  const progressionSettings = resolveProgressionSettings(currentUser?.progressionSettings);
+  const progressionRule = PROGRESSION_RULES.find((rule) => rule.id === progressionSettings.rule);
+  const progressionIncrement = convertWeight(progressionSettings.increment, progressionSettings.incrementUnit, weightUnit);
+  const plateSettings = resolvePlateSettings(currentUser?.plateSettings);
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -215,14 +397,17 @@ export default function Profile() {
             {/* Calendar Grid */}
             <View style={styles.calendarGrid}>
               {calendarDays.map((item, index) => (
-                <View
+                <TouchableOpacity
                   key={index}
+                  onPress={() => item.date && openDay(item.date)}
+                  disabled={!item.date || item.isFuture}
                   style={[
                     styles.calendarDay,
                     item.status === 'empty' && styles.emptyDay,
                     item.status === 'green' && styles.greenDay,
                     item.status === 'red' && styles.redDay,
                     item.status === 'grey' && styles.greyDay,
+                    item.status === 'planned' && styles.plannedDay,
                     item.isToday && styles.todayBorder,
                   ]}
                 >
@@ -232,17 +417,132 @@ export default function Profile() {
                         styles.dayNumber,
                         (item.status === 'green' || item.status === 'red') &&
                           styles.dayNumberLight,
+                        item.status === 'planned' && styles.dayNumberPlanned,
                       ]}
                     >
                       {item.day}
                     </Text>
                   )}
-                </View>
+                </TouchableOpacity>
               ))}
             </View>
           </View>
         </View>
 
+        {/* Program Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Program</Text>
+          {activeProgram && programProgress ? (
+            <View style={styles.recordsCard}>
+              <View style={styles.programHeader}>
+                <View style={styles.programInfo}>
+                  <Text style={styles.recordName}>{activeProgram.name}</Text>
+                  <Text style={styles.recordDetails}>
+                    Week {programProgress.currentWeek} · {programProgress.completed}/{programProgress.total} sessions done
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={confirmEndProgram}>
+                  <Text style={styles.endProgramText}>End</Text>
+                </TouchableOpacity>
+              </View>
+              {programProgress.nextSession ? (
+                <View style={styles.nextSession}>
+                  <Text style={styles.nextSessionTitle}>
+                    Next: {programProgress.nextSession.name} ·{" "}
+                    {parseDateKey(programProgress.nextSession.date)?.toLocaleDateString("default", {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </Text>
+                  {programProgress.nextSession.exercises.map((exercise: any, index: number) => (
+                    <Text key={index} style={styles.recordDetails}>
+                      {exercise.name}: {describePlannedSets(exercise.sets, weightUnit)}
+                    </Text>
+                  ))}
+                </View>
+              ) : (
+                <Text style={styles.nextSessionTitle}>No sessions left, program complete!</Text>
+              )}
+            </View>
+          ) : (
+            <View style={styles.setupCard}>
+              <Ionicons name="calendar-outline" size={48} color="#007AFF" />
+              <Text style={styles.setupText}>
+                Follow a 5/3/1, PPL or GZCLP program with planned sessions
+              </Text>
+              <TouchableOpacity
+                style={styles.setupButton}
+                onPress={() => setShowProgramModal(true)}
+              >
+                <Text style={styles.setupButtonText}>Start a Program</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {/* Personal Records Section */}
+        {recordList.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Personal Records</Text>
+            <View style={styles.recordsCard}>
+              {recordList.map((record: any) => {
+                const isNew = Math.max(
+                  record.bestWeight?.date || 0,
+                  record.bestOneRepMax?.date || 0
+                ) >= recentRecordCutoff;
+
+                return (
+                  <View key={record.name} style={styles.recordRow}>
+                    <Ionicons name="trophy" size={22} color="#FFB800" />
+                    <View style={styles.recordInfo}>
+                      <Text style={styles.recordName}>{record.name}</Text>
+                      <Text style={styles.recordDetails}>
+                        {record.bestWeight
+                          ? `Best ${formatWeight(record.bestWeight.weight, weightUnit)} × ${record.bestWeight.reps}`
+                          : ""}
+                        {record.bestOneRepMax ? ` · e1RM ${formatWeight(record.bestOneRepMax.value, weightUnit)}` : ""}
+                      </Text>
+                    </View>
+                    {isNew && (
+                      <View style={styles.newBadge}>
+                        <Text style={styles.newBadgeText}>NEW</Text>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Cardio Section */}
+        {cardioTotals.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Cardio · Last 30 Days</Text>
+            <View style={styles.recordsCard}>
+              {cardioTotals.map((total) => {
+                const activity = getCardioActivity(total.activity);
+                return (
+                  <View key={total.activity} style={styles.recordRow}>
+                    <Ionicons name={activity?.icon as any} size={22} color="#007AFF" />
+                    <View style={styles.recordInfo}>
+                      <Text style={styles.recordName}>{activity?.label}</Text>
+                      <Text style={styles.recordDetails}>
+                        {total.count} session{total.count === 1 ? "" : "s"}
+                        {total.distanceKm > 0
+                          ? ` · ${convertDistance(total.distanceKm, "km", distanceUnit).toFixed(1)} ${distanceUnit}`
+                          : ""}
+                        {` · ${formatDuration(total.durationMinutes)}`}
+                      </Text>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         {/* Stats Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Stats</Text>
@@ -288,19 +588,107 @@ export default function Profile() {
           </View>
         </View>
 
-        {/* Settings Section (Coming Soon) */}
+        {/* Settings Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Settings</Text>
-          <View style={styles.comingSoonCard}>
-            <Ionicons name="settings-outline" size={48} color="#999" />
-            <Text style={styles.comingSoonText}>Coming Soon</Text>
-            <Text style={styles.comingSoonSubtext}>
-              Preferences and account settings
-            </Text>
+          <View style={styles.settingsCard}>
+            <TouchableOpacity
+              style={styles.settingsRow}
+              onPress={() => setShowProgressionModal(true)}
+            >
+              <Ionicons name="trending-up-outline" size={24} color="#007AFF" />
+              <View style={styles.settingsInfo}>
+                <Text style={styles.settingsLabel}>Progression</Text>
+                <Text style={styles.settingsValue}>
+                  {progressionRule?.label} · +{progressionIncrement} {weightUnit}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#999" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.settingsRow, styles.settingsRowBorder]}
+              onPress={() => setShowPlateModal(true)}
+            >
+              <Ionicons name="barbell-outline" size={24} color="#007AFF" />
+              <View style={styles.settingsInfo}>
+                <Text style={styles.settingsLabel}>Bar & Plates</Text>
+                <Text style={styles.settingsValue}>
+                  {plateSettings.barWeight} {plateSettings.unit} bar ·{" "}
+                  {plateSettings.plates.filter((plate) => plate.pairs > 0).map((plate) => plate.weight).join(", ")}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#999" />
+            </TouchableOpacity>
+            <View style={[styles.settingsRow, styles.settingsRowBorder]}>
+              <Ionicons name="scale-outline" size={24} color="#007AFF" />
+              <View style={styles.settingsInfo}>
+                <Text style={styles.settingsLabel}>Weight Units</Text>
+                <Text style={styles.settingsValue}>Used for lifts and body weight stats</Text>
+              </View>
+              <View style={styles.unitToggle}>
+                {WEIGHT_UNITS.map((unit) => (
+                  <TouchableOpacity
+                    key={unit}
+                    style={[styles.unitOption, weightUnit === unit && styles.unitOptionSelected]}
+                    onPress={() => saveWeightUnit(unit)}
+                  >
+                    <Text style={[styles.unitOptionText, weightUnit === unit && styles.unitOptionTextSelected]}>
+                      {unit}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+            <View style={[styles.settingsRow, styles.settingsRowBorder]}>
+              <Ionicons name="map-outline" size={24} color="#007AFF" />
+              <View style={styles.settingsInfo}>
+                <Text style={styles.settingsLabel}>Distance Units</Text>
+                <Text style={styles.settingsValue}>Used for cardio distance and pace</Text>
+              </View>
+              <View style={styles.unitToggle}>
+                {DISTANCE_UNITS.map((unit) => (
+                  <TouchableOpacity
+                    key={unit}
+                    style={[styles.unitOption, distanceUnit === unit && styles.unitOptionSelected]}
+                    onPress={() => saveDistanceUnit(unit)}
+                  >
+                    <Text style={[styles.unitOptionText, distanceUnit === unit && styles.unitOptionTextSelected]}>
+                      {unit}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
           </View>
         </View>
       </ScrollView>
 
+      {/* Program Setup Modal */}
+      <ProgramSetupModal
+        visible={showProgramModal}
+        estimatedMaxes={estimatedMaxes}
+        weightUnit={weightUnit}
+        onClose={() => setShowProgramModal(false)}
+        onStart={startProgram}
+      />
+
+      {/* Plate Settings Modal */}
+      <PlateSettingsModal
+        visible={showPlateModal}
+        settings={currentUser?.plateSettings}
+        onClose={() => setShowPlateModal(false)}
+        onSave={savePlateSettings}
+      />
+
+      {/* Progression Settings Modal */}
+      <ProgressionSettingsModal
+        visible={showProgressionModal}
+        settings={currentUser?.progressionSettings}
+        weightUnit={weightUnit}
+        onClose={() => setShowProgressionModal(false)}
+        onSave={saveProgressionSettings}
+      />
+
       {/* Stats Preferences Modal */}
       <Modal
         visible={showStatsModal}
@@ -540,6 +928,78 @@ const styles = StyleSheet.create({
   dayNumberLight: {
     color: "#fff",
   },
+  plannedDay: {
+    backgroundColor: "#E6F4FE",
+  },
+  dayNumberPlanned: {
+    color: "#007AFF",
+  },
+  programHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  programInfo: {
+    flex: 1,
+  },
+  endProgramText: {
+    color: "#FF3B30",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  nextSession: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  nextSessionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#007AFF",
+    marginBottom: 4,
+  },
+  recordsCard: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  recordRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  recordInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  recordName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#000",
+  },
+  recordDetails: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
+  newBadge: {
+    backgroundColor: "#FFB800",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  newBadgeText: {
+    color: "#fff",
+    fontSize: 12,
+    fontWeight: "bold",
+  },
   setupCard: {
     backgroundColor: "#fff",
     borderRadius: 16,
@@ -595,6 +1055,61 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     marginLeft: 6,
   },
+  settingsCard: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  settingsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 14,
+  },
+  settingsRowBorder: {
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  unitToggle: {
+    flexDirection: "row",
+    backgroundColor: "#f0f0f0",
+    borderRadius: 8,
+    padding: 2,
+  },
+  unitOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 6,
+  },
+  unitOptionSelected: {
+    backgroundColor: "#007AFF",
+  },
+  unitOptionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+  },
+  unitOptionTextSelected: {
+    color: "#fff",
+  },
+  settingsInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  settingsLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#000",
+  },
+  settingsValue: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 2,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0, 0, 0, 0.5)",
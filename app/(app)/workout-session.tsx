@@ -0,0 +1,781 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from "react-native";
+import { useRouter, useFocusEffect } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { auth } from "../../firebase";
+import {
+  createWorkoutFromSession,
+  recordWorkoutPersonalRecords,
+  getCustomExercises,
+  completePlannedSession,
+  getUser,
+} from "../../firestore";
+import { SetInput, parseExerciseInputs } from "../../components/ExerciseEditor";
+import {
+  loadWorkoutSession,
+  saveWorkoutSession,
+  clearWorkoutSession,
+  getCompletedExercises,
+  formatTimer,
+} from "../../utils/workoutSession";
+import { describeRecord } from "../../utils/personalRecords";
+import { DEFAULT_WEIGHT_UNIT } from "../../utils/stats";
+import { describeBlock, getBlockType, normalizeBlocks } from "../../utils/workoutBlocks";
+import IntervalTimerModal from "../../components/IntervalTimerModal";
+import {
+  buildExerciseLibrary,
+  deriveMuscleGroups,
+  getWorkoutMuscleGroups,
+} from "../../utils/exerciseLibrary";
+
+const REST_OPTIONS = [60, 90, 120, 180];
+
+interface SessionSet extends SetInput {
+  done: boolean;
+}
+
+interface WorkoutSession {
+  startedAt: number;
+  muscleGroups?: string[];
+  muscleGroup?: string; // Drafts saved before muscle groups were derived from exercises
+  exercises: { name: string; exerciseId?: string; blockId?: string; sets: SessionSet[] }[];
+  blocks?: any[];
+  restSeconds: number;
+  restEndsAt: number | null;
+}
+
+export default function WorkoutSessionScreen() {
+  const router = useRouter();
+  const user = auth.currentUser;
+
+  const [session, setSession] = useState<WorkoutSession | null>(null);
+  const [loadingSession, setLoadingSession] = useState(true);
+  const [finishing, setFinishing] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [newExerciseName, setNewExerciseName] = useState("");
+  const [exerciseLibrary, setExerciseLibrary] = useState<any[]>(() => buildExerciseLibrary());
+  const [timerBlockId, setTimerBlockId] = useState<string | null>(null);
+  const [weightUnit, setWeightUnit] = useState(DEFAULT_WEIGHT_UNIT);
+
+  // Reload the draft whenever the screen is opened
+  useFocusEffect(
+    useCallback(() => {
+      const loadSession = async () => {
+        const userId = user?.uid;
+        if (!userId) return;
+
+        const draft = await loadWorkoutSession(userId);
+        setSession(draft);
+        setLoadingSession(false);
+      };
+
+      loadSession();
+    }, [user])
+  );
+
+  useEffect(() => {
+    const loadExerciseLibrary = async () => {
+      try {
+        const userId = user?.uid;
+        if (!userId) return;
+
+        const customExercises = await getCustomExercises(userId);
+        setExerciseLibrary(buildExerciseLibrary(customExercises));
+      } catch (error) {
+        console.error("Error loading custom exercises:", error);
+      }
+    };
+
+    loadExerciseLibrary();
+  }, [user]);
+
+  // Set weights are entered in the user's preferred unit
+  useEffect(() => {
+    const loadWeightUnit = async () => {
+      try {
+        const userId = user?.uid;
+        if (!userId) return;
+
+        const userData = await getUser(userId);
+        setWeightUnit(userData?.weightUnit || DEFAULT_WEIGHT_UNIT);
+      } catch (error) {
+        console.error("Error loading weight unit:", error);
+      }
+    };
+
+    loadWeightUnit();
+  }, [user]);
+
+  // Tick once a second; timers are derived from stored timestamps so they stay
+  // correct after the app has been in the background
+  useEffect(() => {
+    if (!session) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  const restRemaining = session?.restEndsAt ? Math.ceil((session.restEndsAt - now) / 1000) : null;
+
+  // Buzz once when the rest period runs out
+  useEffect(() => {
+    if (restRemaining === 0) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  }, [restRemaining]);
+
+  // Update the session and persist it so nothing is lost if the app is closed
+  const updateSession = (updater: (current: WorkoutSession) => WorkoutSession) => {
+    if (!session || !user?.uid) return;
+
+    const updated = updater(session);
+    setSession(updated);
+    saveWorkoutSession(user.uid, updated).catch((error) => {
+      console.error("Error saving workout session:", error);
+    });
+  };
+
+  const updateSet = (exerciseIndex: number, setIndex: number, changes: Partial<SessionSet>) => {
+    updateSession((current) => ({
+      ...current,
+      exercises: current.exercises.map((exercise, i) =>
+        i === exerciseIndex
+          ? {
+              ...exercise,
+              sets: exercise.sets.map((set, j) => (j === setIndex ? { ...set, ...changes } : set)),
+            }
+          : exercise
+      ),
+    }));
+  };
+
+  const handleToggleSet = (exerciseIndex: number, setIndex: number) => {
+    const set = session!.exercises[exerciseIndex].sets[setIndex];
+    if (!set.done && !(parseInt(set.reps) > 0)) {
+      Alert.alert("Reps Required", "Enter the reps you completed before ticking off the set");
+      return;
+    }
+
+    // Within a superset or circuit, rest only after the block's last exercise
+    const blockId = session!.exercises[exerciseIndex].blockId;
+    const nextInBlock = !!blockId && session!.exercises[exerciseIndex + 1]?.blockId === blockId;
+
+    updateSession((current) => ({
+      ...current,
+      // Completing a set starts the rest timer
+      restEndsAt: set.done || nextInBlock ? current.restEndsAt : Date.now() + current.restSeconds * 1000,
+      exercises: current.exercises.map((exercise, i) =>
+        i === exerciseIndex
+          ? {
+              ...exercise,
+              sets: exercise.sets.map((s, j) => (j === setIndex ? { ...s, done: !s.done } : s)),
+            }
+          : exercise
+      ),
+    }));
+  };
+
+  const handleAddSet = (exerciseIndex: number) => {
+    updateSession((current) => ({
+      ...current,
+      exercises: current.exercises.map((exercise, i) => {
+        if (i !== exerciseIndex) return exercise;
+        const lastSet = exercise.sets[exercise.sets.length - 1];
+        return {
+          ...exercise,
+          sets: [
+            ...exercise.sets,
+            {
+              reps: lastSet?.reps || "",
+              weight: lastSet?.weight || "",
+              weightLbs: lastSet?.weightLbs,
+              rpe: "",
+              done: false,
+            },
+          ],
+        };
+      }),
+    }));
+  };
+
+  const handleAddExercise = () => {
+    if (!newExerciseName.trim()) {
+      Alert.alert("Name Required", "Please enter an exercise name");
+      return;
+    }
+
+    updateSession((current) => ({
+      ...current,
+      exercises: [
+        ...current.exercises,
+        { name: newExerciseName.trim(), sets: [{ reps: "", weight: "", rpe: "", done: false }] },
+      ],
+    }));
+    setNewExerciseName("");
+  };
+
+  const adjustRest = (seconds: number) => {
+    updateSession((current) => ({
+      ...current,
+      restEndsAt: current.restEndsAt ? Math.max(Date.now(), current.restEndsAt + seconds * 1000) : null,
+    }));
+  };
+
+  const handleFinish = async () => {
+    if (!session) return;
+
+    const completedExercises = getCompletedExercises(session);
+    if (completedExercises.length === 0) {
+      Alert.alert("No Sets Completed", "Tick off at least one set before finishing");
+      return;
+    }
+
+    const { exercises: parsedExercises, error: exerciseError } = parseExerciseInputs(completedExercises, weightUnit);
+    if (exerciseError) {
+      Alert.alert("Invalid Exercise", exerciseError);
+      return;
+    }
+
+    setFinishing(true);
+    try {
+      const userId = user?.uid;
+      if (!userId) {
+        Alert.alert("Error", "You must be logged in");
+        return;
+      }
+
+      // Only exercises with completed sets count towards the muscle groups worked
+      const muscleGroups = [
+        ...new Set([
+          ...deriveMuscleGroups(exerciseLibrary, parsedExercises),
+          ...getWorkoutMuscleGroups(session),
+        ]),
+      ];
+
+      // Exercises without completed sets are dropped, which can leave a block with one exercise
+      const { exercises: groupedExercises, blocks } = normalizeBlocks(parsedExercises, session.blocks || []);
+
+      const workoutRef = await createWorkoutFromSession(
+        userId,
+        muscleGroups,
+        groupedExercises,
+        new Date(session.startedAt),
+        new Date(),
+        blocks
+      );
+      await clearWorkoutSession(userId);
+
+      // PR detection shouldn't block saving the workout
+      let newRecords: any[] = [];
+      try {
+        newRecords = await recordWorkoutPersonalRecords(userId, workoutRef.id);
+      } catch (error) {
+        console.error("PR detection error:", error);
+      }
+
+      let completedSession: any = null;
+      try {
+        completedSession = await completePlannedSession(userId, workoutRef.id);
+      } catch (error) {
+        console.error("Program update error:", error);
+      }
+
+      const recordsMessage = newRecords.length > 0
+        ? `\n\n🏆 New PRs:\n${newRecords.map((record) => describeRecord(record, weightUnit)).join("\n")}`
+        : "";
+      const programMessage = completedSession ? `\n\n✅ Completed ${completedSession.name}` : "";
+
+      setSession(null);
+      Alert.alert("Workout Saved", `Great session!${recordsMessage}${programMessage}`, [
+        { text: "OK", onPress: () => router.replace("/(app)/log-workout") },
+      ]);
+    } catch (error) {
+      console.error("Finish session error:", error);
+      Alert.alert("Error", "Failed to save workout. Please try again.");
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(
+      "Discard Session",
+      "Are you sure you want to discard this workout? Logged sets will be lost.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: async () => {
+            if (user?.uid) {
+              await clearWorkoutSession(user.uid);
+            }
+            setSession(null);
+            router.replace("/(app)/log-workout");
+          },
+        },
+      ]
+    );
+  };
+
+  if (loadingSession) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  if (!session) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Ionicons name="stopwatch-outline" size={64} color="#999" />
+        <Text style={styles.emptyText}>No workout in progress</Text>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => router.replace("/(app)/log-workout")}
+        >
+          <Text style={styles.primaryButtonText}>Back to Log Workout</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const sessionMuscleGroups = [
+    ...new Set([
+      ...deriveMuscleGroups(exerciseLibrary, session.exercises),
+      ...getWorkoutMuscleGroups(session),
+    ]),
+  ];
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        {/* Session Header */}
+        <View style={styles.timerCard}>
+          <Text style={styles.timerLabel}>{sessionMuscleGroups.join(", ") || "Workout"} · Elapsed</Text>
+          <Text style={styles.timerValue}>{formatTimer((now - session.startedAt) / 1000)}</Text>
+        </View>
+
+        {/* Rest Timer */}
+        <View style={[styles.restCard, restRemaining !== null && restRemaining <= 0 && styles.restCardDone]}>
+          {restRemaining !== null && restRemaining > 0 ? (
+            <>
+              <Text style={styles.restLabel}>Rest</Text>
+              <Text style={styles.restValue}>{formatTimer(restRemaining)}</Text>
+              <View style={styles.restActions}>
+                <TouchableOpacity style={styles.restActionButton} onPress={() => adjustRest(-15)}>
+                  <Text style={styles.restActionText}>-15s</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.restActionButton} onPress={() => adjustRest(15)}>
+                  <Text style={styles.restActionText}>+15s</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.restActionButton}
+                  onPress={() => updateSession((current) => ({ ...current, restEndsAt: null }))}
+                >
+                  <Text style={styles.restActionText}>Skip</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <Text style={styles.restLabel}>
+              {restRemaining !== null ? "Rest over, next set!" : "Tick off a set to start resting"}
+            </Text>
+          )}
+
+          {/* Rest Length */}
+          <View style={styles.restOptions}>
+            {REST_OPTIONS.map((seconds) => (
+              <TouchableOpacity
+                key={seconds}
+                style={[
+                  styles.restOption,
+                  session.restSeconds === seconds && styles.restOptionSelected,
+                ]}
+                onPress={() => updateSession((current) => ({ ...current, restSeconds: seconds }))}
+              >
+                <Text
+                  style={[
+                    styles.restOptionText,
+                    session.restSeconds === seconds && styles.restOptionTextSelected,
+                  ]}
+                >
+                  {formatTimer(seconds)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Exercises */}
+        {session.exercises.map((exercise, exerciseIndex) => {
+          const block = exercise.blockId ? session.blocks?.find((b) => b.id === exercise.blockId) : undefined;
+          const startsBlock = !!block && session.exercises[exerciseIndex - 1]?.blockId !== block.id;
+
+          return (
+            <View key={exerciseIndex} style={[styles.exerciseCard, block && styles.exerciseCardInBlock]}>
+              {block && startsBlock && (
+                <View style={styles.blockBanner}>
+                  <Text style={styles.blockBannerText}>{describeBlock(block)}</Text>
+                  {getBlockType(block.type)?.timed && (
+                    <TouchableOpacity style={styles.blockTimerButton} onPress={() => setTimerBlockId(block.id)}>
+                      <Ionicons name="timer-outline" size={18} color="#fff" />
+                      <Text style={styles.blockTimerButtonText}>Timer</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+              <Text style={styles.exerciseName}>{exercise.name}</Text>
+              {exercise.sets.map((set, setIndex) => (
+                <View key={setIndex} style={[styles.setRow, set.done && styles.setRowDone]}>
+                  <Text style={styles.setNumber}>{setIndex + 1}</Text>
+                  <TextInput
+                    style={styles.setInput}
+                    placeholder="reps"
+                    value={set.reps}
+                    onChangeText={(text) => updateSet(exerciseIndex, setIndex, { reps: text })}
+                    keyboardType="numeric"
+                    editable={!set.done}
+                  />
+                  <TextInput
+                    style={styles.setInput}
+                    placeholder={weightUnit}
+                    value={set.weight}
+                    onChangeText={(text) => updateSet(exerciseIndex, setIndex, { weight: text })}
+                    keyboardType="numeric"
+                    editable={!set.done}
+                  />
+                  <TouchableOpacity
+                    style={[styles.checkButton, set.done && styles.checkButtonDone]}
+                    onPress={() => handleToggleSet(exerciseIndex, setIndex)}
+                  >
+                    <Ionicons name="checkmark" size={22} color={set.done ? "#fff" : "#34C759"} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TouchableOpacity style={styles.addSetButton} onPress={() => handleAddSet(exerciseIndex)}>
+                <Text style={styles.addSetButtonText}>+ Add Set</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+
+        {/* Add Exercise */}
+        <View style={styles.addExerciseRow}>
+          <TextInput
+            style={styles.addExerciseInput}
+            placeholder="Add exercise"
+            value={newExerciseName}
+            onChangeText={setNewExerciseName}
+          />
+          <TouchableOpacity style={styles.addExerciseButton} onPress={handleAddExercise}>
+            <Ionicons name="add" size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        {/* Finish / Discard */}
+        <TouchableOpacity
+          style={[styles.finishButton, finishing && styles.disabledButton]}
+          onPress={handleFinish}
+          disabled={finishing}
+        >
+          {finishing ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Finish Workout</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.discardButton} onPress={handleDiscard} disabled={finishing}>
+          <Text style={styles.discardButtonText}>Discard Session</Text>
+        </TouchableOpacity>
+      </View>
+
+      <IntervalTimerModal
+        visible={!!timerBlockId}
+        block={session.blocks?.find((block) => block.id === timerBlockId)}
+        exerciseNames={session.exercises
+          .filter((exercise) => exercise.blockId === timerBlockId)
+          .map((exercise) => exercise.name)}
+        onClose={() => setTimerBlockId(null)}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  content: {
+    padding: 20,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: "#666",
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#999",
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  timerCard: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 20,
+    alignItems: "center",
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  timerLabel: {
+    fontSize: 16,
+    color: "#666",
+    marginBottom: 4,
+  },
+  timerValue: {
+    fontSize: 42,
+    fontWeight: "bold",
+    color: "#000",
+  },
+  restCard: {
+    backgroundColor: "#E6F4FE",
+    borderRadius: 16,
+    padding: 16,
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  restCardDone: {
+    backgroundColor: "#E8F8EC",
+  },
+  restLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  restValue: {
+    fontSize: 36,
+    fontWeight: "bold",
+    color: "#007AFF",
+    marginVertical: 4,
+  },
+  restActions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  restActionButton: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  restActionText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  restOptions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+  },
+  restOption: {
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: "#007AFF",
+  },
+  restOptionSelected: {
+    backgroundColor: "#007AFF",
+  },
+  restOptionText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  restOptionTextSelected: {
+    color: "#fff",
+  },
+  exerciseCard: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  exerciseCardInBlock: {
+    borderLeftWidth: 4,
+    borderLeftColor: "#007AFF",
+  },
+  blockBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#E6F4FE",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  blockBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#007AFF",
+  },
+  blockTimerButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#007AFF",
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  blockTimerButtonText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+    marginLeft: 4,
+  },
+  exerciseName: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#000",
+    marginBottom: 12,
+  },
+  setRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 8,
+    padding: 4,
+    borderRadius: 8,
+  },
+  setRowDone: {
+    backgroundColor: "#E8F8EC",
+  },
+  setNumber: {
+    width: 24,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    textAlign: "center",
+  },
+  setInput: {
+    flex: 1,
+    backgroundColor: "#f5f5f5",
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 6,
+    fontSize: 16,
+    textAlign: "center",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  checkButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: "#34C759",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  checkButtonDone: {
+    backgroundColor: "#34C759",
+  },
+  addSetButton: {
+    paddingVertical: 8,
+    alignItems: "center",
+  },
+  addSetButtonText: {
+    color: "#007AFF",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  addExerciseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  addExerciseInput: {
+    flex: 1,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    marginRight: 8,
+  },
+  addExerciseButton: {
+    backgroundColor: "#007AFF",
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  primaryButton: {
+    backgroundColor: "#007AFF",
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  finishButton: {
+    backgroundColor: "#34C759",
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  discardButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    borderWidth: 2,
+    borderColor: "#FF3B30",
+    marginBottom: 20,
+  },
+  discardButtonText: {
+    color: "#FF3B30",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,330 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getCachedProduct, cacheProduct } from '../firestore';
+import { scaleFoodServing, describeFoodPortion } from '../utils/foodDatabase';
+import { lookupProduct, normalizeUpc } from '../utils/productLookup';
+import type { FoodPortion } from './FoodSearchModal';
+
+interface ProductProvider {
+  name: string;
+  lookup: (upc: string) => Promise<any>;
+}
+
+interface BarcodeLookupModalProps {
+  visible: boolean;
+  // Where products are looked up when they aren't cached yet
+  provider: ProductProvider;
+  onClose: () => void;
+  onSelect: (portion: FoodPortion) => void;
+}
+
+const productCache = { get: getCachedProduct, set: cacheProduct };
+
+const BarcodeLookupModal = ({ visible, provider, onClose, onSelect }: BarcodeLookupModalProps) => {
+  const [code, setCode] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [product, setProduct] = useState<any>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [servingIndex, setServingIndex] = useState(0);
+  const [quantity, setQuantity] = useState('1');
+
+  // Start fresh every time the lookup opens
+  useEffect(() => {
+    if (visible) {
+      setCode('');
+      setProduct(null);
+      setNotFound(false);
+    }
+  }, [visible]);
+
+  const parsedQuantity = parseFloat(quantity);
+  const preview =
+    product && !isNaN(parsedQuantity) && parsedQuantity > 0
+      ? scaleFoodServing(product, servingIndex, parsedQuantity)
+      : null;
+
+  const handleLookup = async () => {
+    if (!normalizeUpc(code)) {
+      Alert.alert('Invalid Barcode', 'Please enter the 8, 12 or 13 digit number under the barcode');
+      return;
+    }
+
+    setSearching(true);
+    setNotFound(false);
+    try {
+      const found = await lookupProduct(code, provider, productCache);
+      setProduct(found);
+      setNotFound(!found);
+      setServingIndex(0);
+      setQuantity('1');
+    } catch (error) {
+      console.error('Error looking up product:', error);
+      Alert.alert('Error', 'Failed to look up product. Please try again.');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleUseProduct = () => {
+    if (!product || !preview) {
+      Alert.alert('Invalid Quantity', 'Please enter how many servings you had');
+      return;
+    }
+
+    onSelect({
+      description: describeFoodPortion(product, servingIndex, parsedQuantity),
+      ...preview,
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Barcode Lookup</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            <Text style={styles.label}>UPC / EAN</Text>
+            <View style={styles.lookupRow}>
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                placeholder="e.g., 016000275287"
+                value={code}
+                onChangeText={setCode}
+                keyboardType="number-pad"
+                autoFocus
+                onSubmitEditing={handleLookup}
+              />
+              <TouchableOpacity
+                style={[styles.lookupButton, searching && styles.disabledButton]}
+                onPress={handleLookup}
+                disabled={searching}
+              >
+                {searching ? <ActivityIndicator color="#fff" /> : <Text style={styles.lookupButtonText}>Look Up</Text>}
+              </TouchableOpacity>
+            </View>
+
+            {notFound && (
+              <Text style={styles.emptyText}>
+                No product found for that barcode. Enter the nutrition label manually instead.
+              </Text>
+            )}
+
+            {product && (
+              <>
+                <Text style={styles.productName}>{product.name}</Text>
+                {product.brand ? <Text style={styles.productBrand}>{product.brand}</Text> : null}
+
+                <Text style={styles.label}>Serving Size</Text>
+                <View style={styles.chipsRow}>
+                  {product.servings.map((serving: any, index: number) => (
+                    <TouchableOpacity
+                      key={serving.label}
+                      style={[styles.chip, servingIndex === index && styles.chipSelected]}
+                      onPress={() => setServingIndex(index)}
+                    >
+                      <Text style={[styles.chipText, servingIndex === index && styles.chipTextSelected]}>
+                        {serving.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.label}>Number of Servings</Text>
+                <TextInput
+                  style={styles.input}
+                  value={quantity}
+                  onChangeText={setQuantity}
+                  keyboardType="decimal-pad"
+                />
+
+                {preview && (
+                  <View style={styles.previewCard}>
+                    <Text style={styles.previewCalories}>{preview.calories} cal</Text>
+                    <Text style={styles.previewMacros}>
+                      P: {preview.protein}g · C: {preview.carbs}g · F: {preview.fat}g
+                    </Text>
+                  </View>
+                )}
+
+                <TouchableOpacity style={styles.primaryButton} onPress={handleUseProduct}>
+                  <Text style={styles.primaryButtonText}>Use This Product</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 8,
+  },
+  lookupRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  codeInput: {
+    flex: 1,
+  },
+  lookupButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  lookupButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  productName: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 16,
+  },
+  productBrand: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  previewCard: {
+    backgroundColor: '#E6F4FE',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  previewCalories: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  previewMacros: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
+
+export default BarcodeLookupModal;
@@ -0,0 +1,373 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getCalorieHistory } from '../firestore';
+import { addDays, formatDisplayDate, isSameDay } from '../utils/dates';
+import { HISTORY_RANGES, getHistoryBounds, getHistoryRange, summarizeHistory } from '../utils/calorieHistory';
+
+interface CalorieHistoryModalProps {
+  visible: boolean;
+  userId: string | undefined;
+  calorieGoal: number | null;
+  onClose: () => void;
+  onSelectDate: (date: Date) => void;
+}
+
+const CHART_HEIGHT = 140;
+
+const formatRangeDate = (date: Date) => date.toLocaleDateString('default', { month: 'short', day: 'numeric' });
+
+const CalorieHistoryModal = ({ visible, userId, calorieGoal, onClose, onSelectDate }: CalorieHistoryModalProps) => {
+  const [rangeId, setRangeId] = useState('week');
+  const [endDate, setEndDate] = useState(() => new Date());
+  const [days, setDays] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Start from the current week each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setEndDate(new Date());
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible || !userId) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      try {
+        const { startDate } = getHistoryBounds(rangeId, endDate);
+        const history = await getCalorieHistory(userId, startDate, endDate);
+        setDays(history.days);
+      } catch (error) {
+        console.error('Error loading calorie history:', error);
+        setDays([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [visible, userId, rangeId, endDate]);
+
+  const range = getHistoryRange(rangeId);
+  const { startDate } = getHistoryBounds(rangeId, endDate);
+  const summary = summarizeHistory(days);
+  const isCurrentPeriod = isSameDay(endDate, new Date());
+  const chartMax = Math.max(summary.highestCalories, calorieGoal || 0, 1);
+  const chartDays = [...days].reverse();
+
+  const shiftPeriod = (direction: number) => {
+    const shifted = addDays(endDate, direction * range.days);
+    setEndDate(shifted > new Date() ? new Date() : shifted);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Calorie History</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            <View style={styles.tabs}>
+              {HISTORY_RANGES.map(({ id, label }) => (
+                <TouchableOpacity
+                  key={id}
+                  style={[styles.tab, rangeId === id && styles.tabSelected]}
+                  onPress={() => setRangeId(id)}
+                >
+                  <Text style={[styles.tabText, rangeId === id && styles.tabTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.periodRow}>
+              <TouchableOpacity style={styles.periodArrow} onPress={() => shiftPeriod(-1)}>
+                <Ionicons name="chevron-back" size={22} color="#007AFF" />
+              </TouchableOpacity>
+              <Text style={styles.periodText}>
+                {formatRangeDate(startDate)} – {formatRangeDate(endDate)}
+              </Text>
+              <TouchableOpacity
+                style={styles.periodArrow}
+                onPress={() => shiftPeriod(1)}
+                disabled={isCurrentPeriod}
+              >
+                <Ionicons name="chevron-forward" size={22} color={isCurrentPeriod ? '#ccc' : '#007AFF'} />
+              </TouchableOpacity>
+            </View>
+
+            {loading ? (
+              <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
+            ) : (
+              <>
+                {/* Summary */}
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>{summary.averageCalories.toLocaleString()}</Text>
+                    <Text style={styles.summaryLabel}>Avg cal/day</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>
+                      {summary.loggedDays}/{days.length}
+                    </Text>
+                    <Text style={styles.summaryLabel}>Days logged</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryValue}>{summary.highestCalories.toLocaleString()}</Text>
+                    <Text style={styles.summaryLabel}>Highest</Text>
+                  </View>
+                </View>
+
+                {/* Daily Totals Chart */}
+                <View style={styles.chart}>
+                  {calorieGoal ? (
+                    <View style={[styles.goalLine, { bottom: (calorieGoal / chartMax) * CHART_HEIGHT }]} />
+                  ) : null}
+                  {chartDays.map((day) => (
+                    <TouchableOpacity key={day.dateKey} style={styles.barColumn} onPress={() => onSelectDate(day.date)}>
+                      <View
+                        style={[
+                          styles.bar,
+                          { height: (day.calories / chartMax) * CHART_HEIGHT },
+                          calorieGoal && day.calories > calorieGoal ? styles.barOver : null,
+                        ]}
+                      />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {rangeId === 'week' && (
+                  <View style={styles.chartLabels}>
+                    {chartDays.map((day) => (
+                      <Text key={day.dateKey} style={styles.chartLabel}>
+                        {day.date.toLocaleDateString('default', { weekday: 'narrow' })}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+                {calorieGoal ? (
+                  <Text style={styles.chartLegend}>Line shows your {calorieGoal.toLocaleString()} cal goal</Text>
+                ) : null}
+
+                {/* Daily Totals List */}
+                <View style={styles.dayList}>
+                  {days.map((day) => (
+                    <TouchableOpacity key={day.dateKey} style={styles.dayRow} onPress={() => onSelectDate(day.date)}>
+                      <View style={styles.dayInfo}>
+                        <Text style={styles.dayDate}>{formatDisplayDate(day.date)}</Text>
+                        <Text style={styles.dayMacros}>
+                          {day.entryCount > 0
+                            ? `P: ${day.protein}g · C: ${day.carbs}g · F: ${day.fat}g`
+                            : 'Nothing logged'}
+                        </Text>
+                      </View>
+                      <Text style={[styles.dayCalories, day.entryCount === 0 && styles.dayCaloriesEmpty]}>
+                        {day.calories.toLocaleString()} cal
+                      </Text>
+                      <Ionicons name="chevron-forward" size={18} color="#ccc" />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '85%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 12,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  tabSelected: {
+    backgroundColor: '#fff',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  tabTextSelected: {
+    color: '#007AFF',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  periodArrow: {
+    padding: 8,
+  },
+  periodText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  loader: {
+    marginVertical: 40,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: '#E6F4FE',
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginBottom: 20,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  goalLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+    borderTopColor: '#34C759',
+    borderStyle: 'dashed',
+  },
+  barColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    backgroundColor: '#007AFF',
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  barOver: {
+    backgroundColor: '#FF3B30',
+  },
+  chartLabels: {
+    flexDirection: 'row',
+    gap: 2,
+    marginTop: 4,
+  },
+  chartLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    color: '#666',
+  },
+  chartLegend: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  dayList: {
+    marginTop: 16,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  dayInfo: {
+    flex: 1,
+  },
+  dayDate: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  dayMacros: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  dayCalories: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#34C759',
+    marginRight: 4,
+  },
+  dayCaloriesEmpty: {
+    color: '#999',
+  },
+});
+
+export default CalorieHistoryModal;
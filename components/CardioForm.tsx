@@ -0,0 +1,160 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CARDIO_ACTIVITIES, computePace, convertDistance } from '../utils/cardio';
+
+export interface CardioInput {
+  activity: string;
+  distance: string;
+  duration: string;
+  avgHeartRate: string;
+  maxHeartRate: string;
+  elevation: string;
+}
+
+interface CardioFormProps {
+  value: CardioInput;
+  onChange: (value: CardioInput) => void;
+  distanceUnit: string;
+  disabled?: boolean;
+}
+
+const CardioForm = ({ value, onChange, distanceUnit, disabled = false }: CardioFormProps) => {
+  const update = (field: keyof CardioInput, text: string) => {
+    onChange({ ...value, [field]: text });
+  };
+
+  // Live pace preview while typing
+  const distance = parseFloat(value.distance);
+  const duration = parseFloat(value.duration);
+  const pace = distance > 0 && duration > 0
+    ? computePace(value.activity, convertDistance(distance, distanceUnit, 'km'), duration, distanceUnit)
+    : null;
+
+  const renderInput = (label: string, field: keyof CardioInput, placeholder: string) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        placeholder={placeholder}
+        value={value[field]}
+        onChangeText={(text) => update(field, text)}
+        keyboardType="numeric"
+        editable={!disabled}
+      />
+    </View>
+  );
+
+  return (
+    <View>
+      {/* Activity */}
+      <View style={styles.activityRow}>
+        {CARDIO_ACTIVITIES.map((activity) => (
+          <TouchableOpacity
+            key={activity.id}
+            style={[styles.activityOption, value.activity === activity.id && styles.activityOptionSelected]}
+            onPress={() => update('activity', activity.id)}
+            disabled={disabled}
+          >
+            <Ionicons
+              name={activity.icon as any}
+              size={22}
+              color={value.activity === activity.id ? '#fff' : '#007AFF'}
+            />
+            <Text style={[styles.activityText, value.activity === activity.id && styles.activityTextSelected]}>
+              {activity.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.fieldRow}>
+        {renderInput(`Distance (${distanceUnit})`, 'distance', '0.0')}
+        {renderInput('Duration (min)', 'duration', '0')}
+      </View>
+
+      {pace && (
+        <View style={styles.paceCard}>
+          <Ionicons name="speedometer-outline" size={20} color="#007AFF" />
+          <Text style={styles.paceText}>{pace}</Text>
+        </View>
+      )}
+
+      <View style={styles.fieldRow}>
+        {renderInput('Avg HR (bpm)', 'avgHeartRate', '-')}
+        {renderInput('Max HR (bpm)', 'maxHeartRate', '-')}
+      </View>
+
+      <View style={styles.fieldRow}>
+        {renderInput(`Elevation Gain (${distanceUnit === 'mi' ? 'ft' : 'm'})`, 'elevation', '-')}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  activityRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  activityOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#fff',
+  },
+  activityOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  activityText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginTop: 4,
+  },
+  activityTextSelected: {
+    color: '#fff',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  paceCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E6F4FE',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  paceText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+});
+
+export default CardioForm;
@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateSelector from './DateSelector';
+import { getCalorieEntriesForDate } from '../firestore';
+import { addDays, formatDisplayDate } from '../utils/dates';
+import { groupEntriesByMeal } from '../utils/meals';
+
+interface CopyEntriesModalProps {
+  visible: boolean;
+  userId: string | undefined;
+  targetDate: Date;
+  copying: boolean;
+  onClose: () => void;
+  onCopy: (entries: any[]) => void;
+}
+
+const CopyEntriesModal = ({ visible, userId, targetDate, copying, onClose, onCopy }: CopyEntriesModalProps) => {
+  const [sourceDate, setSourceDate] = useState(() => addDays(targetDate, -1));
+  const [sourceEntries, setSourceEntries] = useState<any[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loadingEntries, setLoadingEntries] = useState(false);
+
+  // Default to the day before the one being copied to
+  useEffect(() => {
+    if (visible) {
+      setSourceDate(addDays(targetDate, -1));
+    }
+  }, [visible, targetDate]);
+
+  useEffect(() => {
+    if (!visible || !userId) return;
+
+    const loadSourceEntries = async () => {
+      setLoadingEntries(true);
+      setSelectedIds([]);
+      try {
+        setSourceEntries(await getCalorieEntriesForDate(userId, sourceDate));
+      } catch (error) {
+        console.error('Error loading entries to copy:', error);
+        setSourceEntries([]);
+      } finally {
+        setLoadingEntries(false);
+      }
+    };
+
+    loadSourceEntries();
+  }, [visible, userId, sourceDate]);
+
+  const sections = groupEntriesByMeal(sourceEntries);
+  const selectedEntries = sourceEntries.filter((entry) => selectedIds.includes(entry.id));
+
+  const toggleEntry = (entryId: string) => {
+    setSelectedIds((prev) => (prev.includes(entryId) ? prev.filter((id) => id !== entryId) : [...prev, entryId]));
+  };
+
+  // Select a whole meal slot, or clear it if it's already fully selected
+  const toggleMeal = (entries: any[]) => {
+    const ids = entries.map((entry) => entry.id);
+    const allSelected = ids.every((id) => selectedIds.includes(id));
+    setSelectedIds((prev) =>
+      allSelected ? prev.filter((id) => !ids.includes(id)) : [...prev.filter((id) => !ids.includes(id)), ...ids]
+    );
+  };
+
+  const allSelected = sourceEntries.length > 0 && selectedEntries.length === sourceEntries.length;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Copy Entries</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            <Text style={styles.label}>Copy From</Text>
+            <DateSelector date={sourceDate} onChange={setSourceDate} disabled={copying} />
+
+            {loadingEntries ? (
+              <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
+            ) : sourceEntries.length === 0 ? (
+              <Text style={styles.emptyText}>No entries on {formatDisplayDate(sourceDate)}</Text>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={styles.selectAllRow}
+                  onPress={() => setSelectedIds(allSelected ? [] : sourceEntries.map((entry) => entry.id))}
+                >
+                  <Text style={styles.selectAllText}>{allSelected ? 'Clear Selection' : 'Select Whole Day'}</Text>
+                </TouchableOpacity>
+
+                {sections.map((section) => {
+                  const mealSelected = section.data.every((entry: any) => selectedIds.includes(entry.id));
+                  return (
+                    <View key={section.key} style={styles.mealSection}>
+                      <TouchableOpacity style={styles.mealHeader} onPress={() => toggleMeal(section.data)}>
+                        <Ionicons
+                          name={mealSelected ? 'checkbox' : 'square-outline'}
+                          size={22}
+                          color="#007AFF"
+                        />
+                        <Text style={styles.mealTitle}>{section.title}</Text>
+                        <Text style={styles.mealSubtotal}>{section.total.toLocaleString()} cal</Text>
+                      </TouchableOpacity>
+                      {section.data.map((entry: any) => {
+                        const selected = selectedIds.includes(entry.id);
+                        return (
+                          <TouchableOpacity key={entry.id} style={styles.entryRow} onPress={() => toggleEntry(entry.id)}>
+                            <Ionicons
+                              name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                              size={22}
+                              color={selected ? '#34C759' : '#999'}
+                            />
+                            <Text style={styles.entryDescription} numberOfLines={1}>
+                              {entry.description || 'Quick add'}
+                            </Text>
+                            <Text style={styles.entryAmount}>{entry.amount} cal</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  );
+                })}
+              </>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (copying || selectedEntries.length === 0) && styles.disabledButton]}
+              onPress={() => onCopy(selectedEntries)}
+              disabled={copying || selectedEntries.length === 0}
+            >
+              {copying ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  Copy {selectedEntries.length} {selectedEntries.length === 1 ? 'Entry' : 'Entries'} to{' '}
+                  {formatDisplayDate(targetDate)}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  selectAllRow: {
+    alignSelf: 'flex-end',
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  selectAllText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  mealSection: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  mealHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  mealTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginLeft: 8,
+  },
+  mealSubtotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#34C759',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingLeft: 8,
+  },
+  entryDescription: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    marginLeft: 8,
+  },
+  entryAmount: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
+
+export default CopyEntriesModal;
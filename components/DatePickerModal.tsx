@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { isSameDay } from '../utils/dates';
+
+interface DatePickerModalProps {
+  visible: boolean;
+  selectedDate: Date;
+  onSelect: (date: Date) => void;
+  onClose: () => void;
+  allowFuture?: boolean;
+}
+
+const DatePickerModal = ({
+  visible,
+  selectedDate,
+  onSelect,
+  onClose,
+  allowFuture = false,
+}: DatePickerModalProps) => {
+  const [visibleMonth, setVisibleMonth] = useState(
+    new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1)
+  );
+
+  // Jump back to the selected month each time the picker opens
+  useEffect(() => {
+    if (visible) {
+      setVisibleMonth(new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1));
+    }
+  }, [visible, selectedDate]);
+
+  const today = new Date();
+  const year = visibleMonth.getFullYear();
+  const month = visibleMonth.getMonth();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const startingDayOfWeek = visibleMonth.getDay();
+
+  const days: (Date | null)[] = [];
+  for (let i = 0; i < startingDayOfWeek; i++) {
+    days.push(null);
+  }
+  for (let day = 1; day <= daysInMonth; day++) {
+    days.push(new Date(year, month, day));
+  }
+
+  const isNextMonthDisabled =
+    !allowFuture && year === today.getFullYear() && month >= today.getMonth();
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.modalContent}>
+            {/* Month Navigation */}
+            <View style={styles.monthRow}>
+              <TouchableOpacity
+                style={styles.monthButton}
+                onPress={() => setVisibleMonth(new Date(year, month - 1, 1))}
+              >
+                <Ionicons name="chevron-back" size={24} color="#007AFF" />
+              </TouchableOpacity>
+              <Text style={styles.monthTitle}>
+                {visibleMonth.toLocaleString('default', { month: 'long', year: 'numeric' })}
+              </Text>
+              <TouchableOpacity
+                style={styles.monthButton}
+                onPress={() => setVisibleMonth(new Date(year, month + 1, 1))}
+                disabled={isNextMonthDisabled}
+              >
+                <Ionicons name="chevron-forward" size={24} color={isNextMonthDisabled ? '#ccc' : '#007AFF'} />
+              </TouchableOpacity>
+            </View>
+
+            {/* Day Labels */}
+            <View style={styles.calendarHeader}>
+              {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((day, index) => (
+                <Text key={index} style={styles.dayLabel}>
+                  {day}
+                </Text>
+              ))}
+            </View>
+
+            {/* Calendar Grid */}
+            <View style={styles.calendarGrid}>
+              {days.map((date, index) => {
+                if (!date) {
+                  return <View key={index} style={styles.calendarDay} />;
+                }
+
+                const isFuture = date > today && !isSameDay(date, today);
+                const isDisabled = isFuture && !allowFuture;
+                const isSelected = isSameDay(date, selectedDate);
+
+                return (
+                  <TouchableOpacity
+                    key={index}
+                    style={[
+                      styles.calendarDay,
+                      isSelected && styles.selectedDay,
+                      isSameDay(date, today) && styles.todayBorder,
+                    ]}
+                    onPress={() => onSelect(date)}
+                    disabled={isDisabled}
+                  >
+                    <Text
+                      style={[
+                        styles.dayNumber,
+                        isDisabled && styles.dayNumberDisabled,
+                        isSelected && styles.dayNumberSelected,
+                      ]}
+                    >
+                      {date.getDate()}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <TouchableOpacity style={styles.todayButton} onPress={() => onSelect(new Date())}>
+              <Text style={styles.todayButtonText}>Jump to Today</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    padding: 16,
+    width: 328,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  monthButton: {
+    padding: 4,
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  calendarHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 8,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  dayLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    width: 40,
+    textAlign: 'center',
+  },
+  calendarGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  calendarDay: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  selectedDay: {
+    backgroundColor: '#007AFF',
+  },
+  todayBorder: {
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+  dayNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  dayNumberDisabled: {
+    color: '#ccc',
+  },
+  dayNumberSelected: {
+    color: '#fff',
+  },
+  todayButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  todayButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default DatePickerModal;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DatePickerModal from './DatePickerModal';
+import { addDays, formatDisplayDate, isSameDay } from '../utils/dates';
+
+interface DateSelectorProps {
+  date: Date;
+  onChange: (date: Date) => void;
+  disabled?: boolean;
+  showArrows?: boolean;
+}
+
+const DateSelector = ({ date, onChange, disabled = false, showArrows = false }: DateSelectorProps) => {
+  const [showPicker, setShowPicker] = useState(false);
+
+  // The picker doesn't allow future days, so neither does stepping forward
+  const isNextDisabled = disabled || isSameDay(date, new Date()) || date > new Date();
+
+  return (
+    <View style={styles.container}>
+      {showArrows && (
+        <TouchableOpacity
+          style={styles.arrowButton}
+          onPress={() => onChange(addDays(date, -1))}
+          disabled={disabled}
+        >
+          <Ionicons name="chevron-back" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity
+        style={styles.dateButton}
+        onPress={() => setShowPicker(true)}
+        disabled={disabled}
+      >
+        <Ionicons name="calendar-outline" size={20} color="#007AFF" />
+        <Text style={styles.dateButtonText}>{formatDisplayDate(date)}</Text>
+        <Text style={styles.dateButtonArrow}>▼</Text>
+      </TouchableOpacity>
+
+      {showArrows && (
+        <TouchableOpacity
+          style={styles.arrowButton}
+          onPress={() => onChange(addDays(date, 1))}
+          disabled={isNextDisabled}
+        >
+          <Ionicons name="chevron-forward" size={22} color={isNextDisabled ? '#ccc' : '#007AFF'} />
+        </TouchableOpacity>
+      )}
+
+      <DatePickerModal
+        visible={showPicker}
+        selectedDate={date}
+        onSelect={(selected) => {
+          setShowPicker(false);
+          onChange(selected);
+        }}
+        onClose={() => setShowPicker(false)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginBottom: 24,
+  },
+  arrowButton: {
+    padding: 8,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  dateButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginLeft: 8,
+    marginRight: 8,
+  },
+  dateButtonArrow: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
+
+export default DateSelector;
@@ -0,0 +1,405 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ACTIVITY_LEVELS, WEIGHT_GOALS, deriveCalorieGoal } from '../utils/energyExpenditure';
+import { convertWeight } from '../utils/stats';
+
+interface EnergyCalculatorModalProps {
+  visible: boolean;
+  // Saved body profile (weight in lbs, height in cm)
+  profile: any;
+  latestWeightLbs: number | null;
+  // Adaptive TDEE estimate, undefined while it loads
+  adaptive: any;
+  weightUnit: string;
+  onClose: () => void;
+  onApply: (profile: any, result: { calories: number; explanation: string }) => void;
+}
+
+const CM_PER_INCH = 2.54;
+
+const SEX_OPTIONS = [
+  { id: 'male', label: 'Male' },
+  { id: 'female', label: 'Female' },
+];
+
+const EnergyCalculatorModal = ({
+  visible,
+  profile,
+  latestWeightLbs,
+  adaptive,
+  weightUnit,
+  onClose,
+  onApply,
+}: EnergyCalculatorModalProps) => {
+  const [sex, setSex] = useState('male');
+  const [age, setAge] = useState('');
+  const [heightCm, setHeightCm] = useState('');
+  const [heightFeet, setHeightFeet] = useState('');
+  const [heightInches, setHeightInches] = useState('');
+  const [weight, setWeight] = useState('');
+  const [bodyFat, setBodyFat] = useState('');
+  const [activityLevel, setActivityLevel] = useState('moderate');
+  const [weightGoal, setWeightGoal] = useState('maintain');
+
+  const usesMetric = weightUnit === 'kg';
+
+  // Show the saved profile every time the modal opens, with the latest weigh-in as the weight
+  useEffect(() => {
+    if (visible) {
+      setSex(profile?.sex || 'male');
+      setAge(profile?.age ? String(profile.age) : '');
+      const savedHeight = profile?.heightCm || 0;
+      const totalInches = Math.round(savedHeight / CM_PER_INCH);
+      setHeightCm(savedHeight ? String(Math.round(savedHeight)) : '');
+      setHeightFeet(savedHeight ? String(Math.floor(totalInches / 12)) : '');
+      setHeightInches(savedHeight ? String(totalInches % 12) : '');
+      const weightLbs = latestWeightLbs || profile?.weightLbs;
+      setWeight(weightLbs ? String(convertWeight(weightLbs, 'lbs', weightUnit)) : '');
+      setBodyFat(profile?.bodyFatPercent ? String(profile.bodyFatPercent) : '');
+      setActivityLevel(profile?.activityLevel || 'moderate');
+      setWeightGoal(profile?.weightGoal || 'maintain');
+    }
+  }, [visible, profile, latestWeightLbs, weightUnit]);
+
+  const parsedHeightCm = usesMetric
+    ? parseFloat(heightCm)
+    : ((parseFloat(heightFeet) || 0) * 12 + (parseFloat(heightInches) || 0)) * CM_PER_INCH;
+  const parsedWeight = parseFloat(weight);
+  const parsedBodyFat = parseFloat(bodyFat);
+
+  const bodyProfile = {
+    sex,
+    age: parseInt(age),
+    heightCm: Math.round(parsedHeightCm * 10) / 10,
+    weightLbs: convertWeight(parsedWeight, weightUnit, 'lbs'),
+    bodyFatPercent: !isNaN(parsedBodyFat) && parsedBodyFat > 0 ? parsedBodyFat : null,
+    activityLevel,
+    weightGoal,
+  };
+
+  const isComplete =
+    bodyProfile.age > 0 && bodyProfile.heightCm > 0 && bodyProfile.weightLbs > 0;
+  const result = isComplete ? deriveCalorieGoal(bodyProfile, adaptive) : null;
+
+  const handleApply = () => {
+    if (!(bodyProfile.age >= 13 && bodyProfile.age <= 100)) {
+      Alert.alert('Invalid Age', 'Please enter an age between 13 and 100');
+      return;
+    }
+    if (!isComplete || !result) {
+      Alert.alert('Missing Details', 'Please enter your height and weight');
+      return;
+    }
+    if (!isNaN(parsedBodyFat) && (parsedBodyFat <= 0 || parsedBodyFat >= 70)) {
+      Alert.alert('Invalid Body Fat', 'Please enter a body fat percentage between 0 and 70, or leave it blank');
+      return;
+    }
+
+    onApply(bodyProfile, { calories: result.calories, explanation: result.explanation });
+  };
+
+  const renderOptions = (
+    options: { id: string; label: string }[],
+    selected: string,
+    onSelect: (id: string) => void
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.id}
+          style={[styles.option, selected === option.id && styles.optionSelected]}
+          onPress={() => onSelect(option.id)}
+        >
+          <Text style={[styles.optionText, selected === option.id && styles.optionTextSelected]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Calorie Calculator</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            <Text style={styles.label}>Sex</Text>
+            {renderOptions(SEX_OPTIONS, sex, setSex)}
+
+            <Text style={styles.label}>Age</Text>
+            <TextInput style={styles.input} placeholder="years" value={age} onChangeText={setAge} keyboardType="numeric" />
+
+            <Text style={styles.label}>Height</Text>
+            {usesMetric ? (
+              <TextInput
+                style={styles.input}
+                placeholder="cm"
+                value={heightCm}
+                onChangeText={setHeightCm}
+                keyboardType="numeric"
+              />
+            ) : (
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  placeholder="ft"
+                  value={heightFeet}
+                  onChangeText={setHeightFeet}
+                  keyboardType="numeric"
+                />
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  placeholder="in"
+                  value={heightInches}
+                  onChangeText={setHeightInches}
+                  keyboardType="numeric"
+                />
+              </View>
+            )}
+
+            <Text style={styles.label}>Weight ({weightUnit})</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={weightUnit}
+              value={weight}
+              onChangeText={setWeight}
+              keyboardType="decimal-pad"
+            />
+
+            <Text style={styles.label}>Body Fat % (Optional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Uses Katch-McArdle when set"
+              value={bodyFat}
+              onChangeText={setBodyFat}
+              keyboardType="decimal-pad"
+            />
+
+            <Text style={styles.label}>Activity Level</Text>
+            {ACTIVITY_LEVELS.map((level) => (
+              <TouchableOpacity
+                key={level.id}
+                style={[styles.levelOption, activityLevel === level.id && styles.levelOptionSelected]}
+                onPress={() => setActivityLevel(level.id)}
+              >
+                <View style={styles.levelInfo}>
+                  <Text style={[styles.levelLabel, activityLevel === level.id && styles.levelLabelSelected]}>
+                    {level.label}
+                  </Text>
+                  <Text style={styles.levelDescription}>{level.description}</Text>
+                </View>
+                {activityLevel === level.id && <Ionicons name="checkmark-circle" size={22} color="#007AFF" />}
+              </TouchableOpacity>
+            ))}
+
+            <Text style={styles.label}>Goal</Text>
+            {renderOptions(WEIGHT_GOALS, weightGoal, setWeightGoal)}
+
+            {/* Adaptive Estimate Status */}
+            <View style={styles.adaptiveCard}>
+              {adaptive === undefined ? (
+                <ActivityIndicator color="#007AFF" />
+              ) : adaptive?.tdee ? (
+                <Text style={styles.adaptiveText}>
+                  Using your logged intake and weight trend for an adaptive TDEE of{' '}
+                  {adaptive.tdee.toLocaleString()} cal
+                </Text>
+              ) : (
+                <Text style={styles.adaptiveText}>
+                  Adaptive estimate not available yet: {adaptive?.reason || 'not enough data'}
+                </Text>
+              )}
+            </View>
+
+            {result && (
+              <View style={styles.resultCard}>
+                <Text style={styles.resultCalories}>{result.calories.toLocaleString()} cal/day</Text>
+                <Text style={styles.resultExplanation}>{result.explanation}</Text>
+              </View>
+            )}
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleApply}>
+              <Text style={styles.saveButtonText}>Use as Calorie Goal</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '85%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  optionTextSelected: {
+    color: '#fff',
+  },
+  levelOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  levelOptionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#f0f7ff',
+  },
+  levelInfo: {
+    flex: 1,
+  },
+  levelLabel: {
+    fontSize: 16,
+    color: '#000',
+  },
+  levelLabelSelected: {
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  levelDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  adaptiveCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 16,
+  },
+  adaptiveText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  resultCard: {
+    backgroundColor: '#E6F4FE',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  resultCalories: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  resultExplanation: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default EnergyCalculatorModal;
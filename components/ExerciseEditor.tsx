@@ -0,0 +1,764 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ExercisePickerModal from './ExercisePickerModal';
+import IntervalTimerModal from './IntervalTimerModal';
+import PlateCalculatorPanel from './PlateCalculatorPanel';
+import { findLibraryExercise } from '../utils/exerciseLibrary';
+import { describePreviousSession, describeSuggestion } from '../utils/progression';
+import { DEFAULT_WEIGHT_UNIT, convertWeight, toWeightInput } from '../utils/stats';
+import {
+  BLOCK_TYPES,
+  getBlockType,
+  changeBlockType,
+  normalizeBlocks,
+  linkWithPrevious,
+  unlinkFromPrevious,
+  describeBlock,
+} from '../utils/workoutBlocks';
+
+export interface SetInput {
+  reps: string;
+  weight: string;
+  rpe: string;
+  // Stored lbs weight the input was filled from, saved back as-is while the text is unchanged
+  weightLbs?: number;
+}
+
+export interface ExerciseInput {
+  name: string;
+  exerciseId?: string;
+  blockId?: string;
+  sets: SetInput[];
+}
+
+export interface ExerciseBlock {
+  id: string;
+  type: string;
+  rounds: number;
+  workSeconds: number;
+  restSeconds: number;
+}
+
+interface ExerciseEditorProps {
+  exercises: ExerciseInput[];
+  onChange: (exercises: ExerciseInput[]) => void;
+  disabled?: boolean;
+  library?: any[];
+  userId?: string;
+  onLibraryChange?: () => void;
+  getSuggestion?: (exercise: ExerciseInput) => any;
+  blocks?: ExerciseBlock[];
+  onBlocksChange?: (blocks: ExerciseBlock[]) => void;
+  plateSettings?: any;
+  weightUnit?: string;
+}
+
+const EMPTY_SET: SetInput = { reps: '', weight: '', rpe: '' };
+
+/**
+ * Convert stored exercises into editable string inputs, with weights in the user's unit
+ */
+export const toExerciseInputs = (exercises: any[] | undefined, weightUnit = DEFAULT_WEIGHT_UNIT): ExerciseInput[] => {
+  if (!exercises) return [];
+
+  return exercises.map((exercise) => ({
+    name: exercise.name || '',
+    ...(exercise.exerciseId ? { exerciseId: exercise.exerciseId } : {}),
+    ...(exercise.blockId ? { blockId: exercise.blockId } : {}),
+    sets: (exercise.sets || []).map((set: any) => ({
+      reps: set.reps != null ? String(set.reps) : '',
+      ...(set.weight != null ? toWeightInput(set.weight, weightUnit) : { weight: '' }),
+      rpe: set.rpe != null ? String(set.rpe) : '',
+    })),
+  }));
+};
+
+/**
+ * Parse editable inputs into numeric exercises, returning an error message if invalid
+ * Weights are entered in the user's unit and stored in lbs
+ */
+export const parseExerciseInputs = (inputs: ExerciseInput[], weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  const exercises = [];
+
+  for (const input of inputs) {
+    const name = input.name.trim();
+    if (!name) {
+      return { exercises: [], error: 'Every exercise needs a name' };
+    }
+
+    const sets = [];
+    for (const set of input.sets) {
+      const reps = parseInt(set.reps);
+      const weight = set.weight ? parseFloat(set.weight) : 0;
+      const rpe = set.rpe ? parseFloat(set.rpe) : null;
+
+      if (isNaN(reps) || reps <= 0) {
+        return { exercises: [], error: `Enter valid reps for every set of ${name}` };
+      }
+      if (isNaN(weight) || weight < 0) {
+        return { exercises: [], error: `Enter a valid weight for every set of ${name}` };
+      }
+      if (rpe !== null && (isNaN(rpe) || rpe < 1 || rpe > 10)) {
+        return { exercises: [], error: `RPE for ${name} must be between 1 and 10` };
+      }
+
+      const isUnchanged = set.weightLbs != null && set.weight === toWeightInput(set.weightLbs, weightUnit).weight;
+      sets.push({ reps, weight: isUnchanged ? set.weightLbs : convertWeight(weight, weightUnit, 'lbs'), rpe });
+    }
+
+    exercises.push({ name, exerciseId: input.exerciseId, blockId: input.blockId, sets });
+  }
+
+  return { exercises, error: null };
+};
+
+const ExerciseEditor = ({
+  exercises,
+  onChange,
+  disabled = false,
+  library,
+  userId,
+  onLibraryChange,
+  getSuggestion,
+  blocks,
+  onBlocksChange,
+  plateSettings,
+  weightUnit = DEFAULT_WEIGHT_UNIT,
+}: ExerciseEditorProps) => {
+  // Index of the exercise being picked from the library (exercises.length adds a new one)
+  const [pickerIndex, setPickerIndex] = useState<number | null>(null);
+  const [timerBlockId, setTimerBlockId] = useState<string | null>(null);
+  // Exercise whose warm-up and plate panel is open
+  const [plateIndex, setPlateIndex] = useState<number | null>(null);
+
+  // Grouping is only offered when the parent keeps track of blocks
+  const canGroup = !!blocks && !!onBlocksChange;
+
+  // Reordering or removing exercises can break a block apart, so clean up after
+  const changeExercises = (updated: ExerciseInput[]) => {
+    if (!canGroup) {
+      onChange(updated);
+      return;
+    }
+    const normalized = normalizeBlocks(updated, blocks);
+    onChange(normalized.exercises);
+    onBlocksChange(normalized.blocks);
+  };
+
+  const toggleLink = (index: number) => {
+    if (!canGroup) return;
+
+    const isLinked = !!exercises[index].blockId && exercises[index].blockId === exercises[index - 1]?.blockId;
+    const updated = isLinked
+      ? unlinkFromPrevious(exercises, blocks, index)
+      : linkWithPrevious(exercises, blocks, index);
+    onChange(updated.exercises);
+    onBlocksChange(updated.blocks);
+  };
+
+  const updateBlock = (blockId: string, changes: Partial<ExerciseBlock>) => {
+    if (!canGroup) return;
+    onBlocksChange(blocks.map((block) => (block.id === blockId ? { ...block, ...changes } : block)));
+  };
+
+  const updateBlockNumber = (blockId: string, field: 'rounds' | 'workSeconds' | 'restSeconds', text: string) => {
+    const value = parseInt(text);
+    updateBlock(blockId, { [field]: isNaN(value) ? 0 : value });
+  };
+
+  const updateExercise = (index: number, updated: ExerciseInput) => {
+    onChange(exercises.map((exercise, i) => (i === index ? updated : exercise)));
+  };
+
+  const moveExercise = (index: number, direction: number) => {
+    const target = index + direction;
+    if (target < 0 || target >= exercises.length) return;
+
+    const reordered = [...exercises];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    changeExercises(reordered);
+  };
+
+  const removeExercise = (index: number) => {
+    changeExercises(exercises.filter((_, i) => i !== index));
+    setPlateIndex(null);
+  };
+
+  const addExercise = () => {
+    onChange([...exercises, { name: '', sets: [{ ...EMPTY_SET }] }]);
+  };
+
+  const handlePickExercise = (libraryExercise: any) => {
+    if (pickerIndex === null) return;
+
+    const picked = { name: libraryExercise.name, exerciseId: libraryExercise.id };
+    if (pickerIndex >= exercises.length) {
+      onChange([...exercises, { ...picked, sets: [{ ...EMPTY_SET }] }]);
+    } else {
+      updateExercise(pickerIndex, { ...exercises[pickerIndex], ...picked });
+    }
+    setPickerIndex(null);
+  };
+
+  // Fill every set with the suggested target
+  const applySuggestion = (exerciseIndex: number, suggestion: any) => {
+    const exercise = exercises[exerciseIndex];
+    const target = {
+      reps: String(suggestion.reps),
+      ...(suggestion.weight > 0 ? toWeightInput(suggestion.weight, weightUnit) : { weight: '', weightLbs: undefined }),
+    };
+    const sets = exercise.sets.length > 0 ? exercise.sets : [{ ...EMPTY_SET }];
+    updateExercise(exerciseIndex, { ...exercise, sets: sets.map((set) => ({ ...set, ...target })) });
+  };
+
+  const updateSet = (exerciseIndex: number, setIndex: number, field: keyof SetInput, value: string) => {
+    const exercise = exercises[exerciseIndex];
+    updateExercise(exerciseIndex, {
+      ...exercise,
+      sets: exercise.sets.map((set, i) => (i === setIndex ? { ...set, [field]: value } : set)),
+    });
+  };
+
+  const addSet = (exerciseIndex: number) => {
+    const exercise = exercises[exerciseIndex];
+    // Copy the previous set so repeated sets only need a tap
+    const lastSet = exercise.sets[exercise.sets.length - 1] || EMPTY_SET;
+    updateExercise(exerciseIndex, { ...exercise, sets: [...exercise.sets, { ...lastSet }] });
+  };
+
+  const removeSet = (exerciseIndex: number, setIndex: number) => {
+    const exercise = exercises[exerciseIndex];
+    updateExercise(exerciseIndex, {
+      ...exercise,
+      sets: exercise.sets.filter((_, i) => i !== setIndex),
+    });
+  };
+
+  const renderMuscles = (exercise: ExerciseInput) => {
+    const entry = library && exercise.name.trim() ? findLibraryExercise(library, exercise) : null;
+    if (!entry) return null;
+
+    return (
+      <Text style={styles.musclesText}>
+        {entry.primaryMuscles.join(', ')}
+        {entry.secondaryMuscles?.length ? ` · ${entry.secondaryMuscles.join(', ')}` : ''}
+      </Text>
+    );
+  };
+
+  const renderPlates = (exercise: ExerciseInput, exerciseIndex: number) => {
+    const entry = library && exercise.name.trim() ? findLibraryExercise(library, exercise) : null;
+    if (!plateSettings || entry?.equipment !== 'barbell') return null;
+
+    const isOpen = plateIndex === exerciseIndex;
+    return (
+      <>
+        <TouchableOpacity
+          style={styles.platesToggle}
+          onPress={() => setPlateIndex(isOpen ? null : exerciseIndex)}
+        >
+          <Ionicons name="barbell-outline" size={16} color="#007AFF" />
+          <Text style={styles.platesToggleText}>{isOpen ? 'Hide Warm-ups & Plates' : 'Warm-ups & Plates'}</Text>
+        </TouchableOpacity>
+        {isOpen && (
+          <PlateCalculatorPanel
+            sets={exercise.sets}
+            plateSettings={plateSettings}
+            weightUnit={weightUnit}
+            disabled={disabled}
+            onAddWarmups={(warmups) => updateExercise(exerciseIndex, { ...exercise, sets: [...warmups, ...exercise.sets] })}
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderSuggestion = (exercise: ExerciseInput, exerciseIndex: number) => {
+    const suggestion = getSuggestion && exercise.name.trim() ? getSuggestion(exercise) : null;
+    if (!suggestion) return null;
+
+    return (
+      <View style={styles.suggestionCard}>
+        <View style={styles.suggestionInfo}>
+          <Text style={styles.suggestionPrevious}>Last: {describePreviousSession(suggestion.previous, weightUnit)}</Text>
+          <Text style={styles.suggestionTarget}>Target: {describeSuggestion(suggestion, weightUnit)}</Text>
+        </View>
+        <TouchableOpacity
+          style={styles.applyButton}
+          onPress={() => applySuggestion(exerciseIndex, suggestion)}
+          disabled={disabled}
+        >
+          <Text style={styles.applyButtonText}>Apply</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderBlockHeader = (block: ExerciseBlock) => {
+    const type = getBlockType(block.type);
+
+    return (
+      <View style={styles.blockCard}>
+        <View style={styles.blockTypeRow}>
+          {BLOCK_TYPES.map((option) => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.blockTypeOption, block.type === option.id && styles.blockTypeOptionSelected]}
+              onPress={() => updateBlock(block.id, changeBlockType(block, option.id))}
+              disabled={disabled}
+            >
+              <Text style={[styles.blockTypeText, block.type === option.id && styles.blockTypeTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.blockFieldRow}>
+          <View style={styles.blockField}>
+            <Text style={styles.blockFieldLabel}>Rounds</Text>
+            <TextInput
+              style={styles.blockInput}
+              value={block.rounds ? String(block.rounds) : ''}
+              onChangeText={(text) => updateBlockNumber(block.id, 'rounds', text)}
+              keyboardType="numeric"
+              editable={!disabled}
+            />
+          </View>
+          {type?.timed && (
+            <View style={styles.blockField}>
+              <Text style={styles.blockFieldLabel}>Work (s)</Text>
+              <TextInput
+                style={styles.blockInput}
+                value={block.workSeconds ? String(block.workSeconds) : ''}
+                onChangeText={(text) => updateBlockNumber(block.id, 'workSeconds', text)}
+                keyboardType="numeric"
+                editable={!disabled}
+              />
+            </View>
+          )}
+          <View style={styles.blockField}>
+            <Text style={styles.blockFieldLabel}>Rest (s)</Text>
+            <TextInput
+              style={styles.blockInput}
+              value={String(block.restSeconds)}
+              onChangeText={(text) => updateBlockNumber(block.id, 'restSeconds', text)}
+              keyboardType="numeric"
+              editable={!disabled}
+            />
+          </View>
+        </View>
+
+        <View style={styles.blockFooter}>
+          <Text style={styles.blockDescription}>{describeBlock(block)}</Text>
+          {type?.timed && (
+            <TouchableOpacity
+              style={styles.applyButton}
+              onPress={() => setTimerBlockId(block.id)}
+              disabled={disabled || !(block.rounds > 0 && block.workSeconds > 0)}
+            >
+              <Text style={styles.applyButtonText}>Start Timer</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const timerBlock = blocks?.find((block) => block.id === timerBlockId);
+
+  return (
+    <View>
+      {exercises.map((exercise, exerciseIndex) => {
+        const block = exercise.blockId ? blocks?.find((b) => b.id === exercise.blockId) : undefined;
+        const startsBlock = !!block && exercises[exerciseIndex - 1]?.blockId !== block.id;
+        const linkedToPrevious = !!block && !startsBlock;
+
+        return (
+          <View key={exerciseIndex}>
+            {block && startsBlock && renderBlockHeader(block)}
+            <View style={[styles.exerciseCard, block && styles.exerciseCardInBlock]}>
+              {/* Exercise Header */}
+              <View style={styles.exerciseHeader}>
+                <Text style={styles.exerciseNumber}>{exerciseIndex + 1}.</Text>
+                <TextInput
+                  style={styles.nameInput}
+                  placeholder="Exercise name, e.g., Bench Press"
+                  value={exercise.name}
+                  // Typing a name unlinks the library entry; it is matched by name again when saved
+                  onChangeText={(text) => updateExercise(exerciseIndex, { ...exercise, name: text, exerciseId: undefined })}
+                  editable={!disabled}
+                />
+                {canGroup && exerciseIndex > 0 && (
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => toggleLink(exerciseIndex)}
+                    disabled={disabled}
+                  >
+                    <Ionicons name={linkedToPrevious ? 'unlink-outline' : 'link-outline'} size={20} color="#007AFF" />
+                  </TouchableOpacity>
+                )}
+                {library && (
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => setPickerIndex(exerciseIndex)}
+                    disabled={disabled}
+                  >
+                    <Ionicons name="book-outline" size={20} color="#007AFF" />
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => moveExercise(exerciseIndex, -1)}
+                  disabled={disabled || exerciseIndex === 0}
+                >
+                  <Ionicons name="chevron-up" size={20} color={exerciseIndex === 0 ? '#ccc' : '#007AFF'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => moveExercise(exerciseIndex, 1)}
+                  disabled={disabled || exerciseIndex === exercises.length - 1}
+                >
+                  <Ionicons
+                    name="chevron-down"
+                    size={20}
+                    color={exerciseIndex === exercises.length - 1 ? '#ccc' : '#007AFF'}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => removeExercise(exerciseIndex)}
+                  disabled={disabled}
+                >
+                  <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+
+              {library && renderMuscles(exercise)}
+              {renderSuggestion(exercise, exerciseIndex)}
+              {renderPlates(exercise, exerciseIndex)}
+
+              {/* Sets Table */}
+              {exercise.sets.length > 0 && (
+                <View style={styles.setRow}>
+                  <Text style={[styles.setHeaderText, styles.setNumberColumn]}>Set</Text>
+                  <Text style={styles.setHeaderText}>Reps</Text>
+                  <Text style={styles.setHeaderText}>Weight</Text>
+                  <Text style={styles.setHeaderText}>RPE</Text>
+                  <View style={styles.removeSetColumn} />
+                </View>
+              )}
+              {exercise.sets.map((set, setIndex) => (
+                <View key={setIndex} style={styles.setRow}>
+                  <Text style={[styles.setNumber, styles.setNumberColumn]}>{setIndex + 1}</Text>
+                  <TextInput
+                    style={styles.setInput}
+                    placeholder="0"
+                    value={set.reps}
+                    onChangeText={(text) => updateSet(exerciseIndex, setIndex, 'reps', text)}
+                    keyboardType="numeric"
+                    editable={!disabled}
+                  />
+                  <TextInput
+                    style={styles.setInput}
+                    placeholder={weightUnit}
+                    value={set.weight}
+                    onChangeText={(text) => updateSet(exerciseIndex, setIndex, 'weight', text)}
+                    keyboardType="numeric"
+                    editable={!disabled}
+                  />
+                  <TextInput
+                    style={styles.setInput}
+                    placeholder="-"
+                    value={set.rpe}
+                    onChangeText={(text) => updateSet(exerciseIndex, setIndex, 'rpe', text)}
+                    keyboardType="numeric"
+                    editable={!disabled}
+                  />
+                  <TouchableOpacity
+                    style={styles.removeSetColumn}
+                    onPress={() => removeSet(exerciseIndex, setIndex)}
+                    disabled={disabled}
+                  >
+                    <Text style={styles.removeSetText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <TouchableOpacity
+                style={styles.addSetButton}
+                onPress={() => addSet(exerciseIndex)}
+                disabled={disabled}
+              >
+                <Text style={styles.addSetButtonText}>+ Add Set</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+
+      <View style={styles.addExerciseRow}>
+        {library && (
+          <TouchableOpacity
+            style={styles.addExerciseButton}
+            onPress={() => setPickerIndex(exercises.length)}
+            disabled={disabled}
+          >
+            <Text style={styles.addExerciseButtonText}>+ From Library</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.addExerciseButton} onPress={addExercise} disabled={disabled}>
+          <Text style={styles.addExerciseButtonText}>+ Add Exercise</Text>
+        </TouchableOpacity>
+      </View>
+
+      {library && (
+        <ExercisePickerModal
+          visible={pickerIndex !== null}
+          library={library}
+          userId={userId}
+          onClose={() => setPickerIndex(null)}
+          onSelect={handlePickExercise}
+          onLibraryChange={() => onLibraryChange?.()}
+        />
+      )}
+
+      {canGroup && (
+        <IntervalTimerModal
+          visible={!!timerBlock}
+          block={timerBlock}
+          exerciseNames={exercises.filter((exercise) => exercise.blockId === timerBlockId).map((exercise) => exercise.name.trim())}
+          onClose={() => setTimerBlockId(null)}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  exerciseCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  exerciseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  exerciseNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+    marginRight: 8,
+  },
+  nameInput: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 2,
+  },
+  setRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+    gap: 6,
+  },
+  setHeaderText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+    textAlign: 'center',
+  },
+  setNumberColumn: {
+    flex: 0,
+    width: 32,
+  },
+  setNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textAlign: 'center',
+  },
+  setInput: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 6,
+    fontSize: 14,
+    textAlign: 'center',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  removeSetColumn: {
+    width: 24,
+    alignItems: 'center',
+  },
+  removeSetText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  addSetButton: {
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  addSetButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  musclesText: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 24,
+    marginBottom: 8,
+  },
+  platesToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  platesToggleText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  suggestionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E6F4FE',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  suggestionInfo: {
+    flex: 1,
+  },
+  suggestionPrevious: {
+    fontSize: 12,
+    color: '#666',
+  },
+  suggestionTarget: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  applyButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  exerciseCardInBlock: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#007AFF',
+  },
+  blockCard: {
+    backgroundColor: '#E6F4FE',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  blockTypeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 10,
+  },
+  blockTypeOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#fff',
+  },
+  blockTypeOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  blockTypeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  blockTypeTextSelected: {
+    color: '#fff',
+  },
+  blockFieldRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  blockField: {
+    flex: 1,
+  },
+  blockFieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 4,
+  },
+  blockInput: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 6,
+    fontSize: 14,
+    textAlign: 'center',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  blockFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  blockDescription: {
+    flex: 1,
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  addExerciseRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  addExerciseButton: {
+    flex: 1,
+    backgroundColor: 'transparent',
+    borderWidth: 2,
+    borderColor: '#007AFF',
+    borderStyle: 'dashed',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  addExerciseButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default ExerciseEditor;
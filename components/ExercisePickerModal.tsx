@@ -0,0 +1,430 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { createCustomExercise, deleteCustomExercise } from '../firestore';
+import { MUSCLE_GROUPS, EQUIPMENT_TYPES } from '../constants/exercises';
+import { searchExerciseLibrary } from '../utils/exerciseLibrary';
+
+interface ExercisePickerModalProps {
+  visible: boolean;
+  library: any[];
+  userId: string | undefined;
+  onClose: () => void;
+  onSelect: (exercise: any) => void;
+  onLibraryChange: () => void;
+}
+
+const ExercisePickerModal = ({
+  visible,
+  library,
+  userId,
+  onClose,
+  onSelect,
+  onLibraryChange,
+}: ExercisePickerModalProps) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [customName, setCustomName] = useState('');
+  const [primaryMuscles, setPrimaryMuscles] = useState<string[]>([]);
+  const [secondaryMuscles, setSecondaryMuscles] = useState<string[]>([]);
+  const [equipment, setEquipment] = useState('other');
+  const [saving, setSaving] = useState(false);
+
+  // Start fresh every time the picker opens
+  useEffect(() => {
+    if (visible) {
+      setSearchQuery('');
+      setIsCreating(false);
+    }
+  }, [visible]);
+
+  const results = searchExerciseLibrary(library, searchQuery);
+
+  const toggleMuscle = (muscle: string, selected: string[], setSelected: (muscles: string[]) => void) => {
+    setSelected(selected.includes(muscle) ? selected.filter((m) => m !== muscle) : [...selected, muscle]);
+  };
+
+  const startCreating = () => {
+    setCustomName(searchQuery.trim());
+    setPrimaryMuscles([]);
+    setSecondaryMuscles([]);
+    setEquipment('other');
+    setIsCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (!userId) return;
+
+    if (!customName.trim()) {
+      Alert.alert('Name Required', 'Please enter an exercise name');
+      return;
+    }
+    if (primaryMuscles.length === 0) {
+      Alert.alert('Muscle Group Required', 'Select at least one primary muscle group');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const exerciseRef = await createCustomExercise(
+        userId,
+        customName,
+        primaryMuscles,
+        secondaryMuscles,
+        equipment
+      );
+      onLibraryChange();
+      onSelect({
+        id: exerciseRef.id,
+        name: customName.trim(),
+        primaryMuscles,
+        secondaryMuscles,
+        equipment,
+        isCustom: true,
+      });
+    } catch (error) {
+      console.error('Error creating custom exercise:', error);
+      Alert.alert('Error', 'Failed to create exercise. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (exercise: any) => {
+    Alert.alert(
+      'Delete Exercise',
+      `Remove "${exercise.name}" from your library? Logged workouts are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCustomExercise(exercise.id);
+              onLibraryChange();
+            } catch (error) {
+              console.error('Error deleting custom exercise:', error);
+              Alert.alert('Error', 'Failed to delete exercise.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderMuscleChips = (selected: string[], setSelected: (muscles: string[]) => void) => (
+    <View style={styles.chipsRow}>
+      {MUSCLE_GROUPS.map((muscle) => (
+        <TouchableOpacity
+          key={muscle}
+          style={[styles.chip, selected.includes(muscle) && styles.chipSelected]}
+          onPress={() => toggleMuscle(muscle, selected, setSelected)}
+        >
+          <Text style={[styles.chipText, selected.includes(muscle) && styles.chipTextSelected]}>
+            {muscle}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isCreating ? 'New Exercise' : 'Exercise Library'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          {isCreating ? (
+            <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g., Cable Kickback"
+                value={customName}
+                onChangeText={setCustomName}
+                autoFocus
+              />
+
+              <Text style={styles.label}>Primary Muscles</Text>
+              {renderMuscleChips(primaryMuscles, setPrimaryMuscles)}
+
+              <Text style={styles.label}>Secondary Muscles</Text>
+              {renderMuscleChips(secondaryMuscles, setSecondaryMuscles)}
+
+              <Text style={styles.label}>Equipment</Text>
+              <View style={styles.chipsRow}>
+                {EQUIPMENT_TYPES.map((type) => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.chip, equipment === type && styles.chipSelected]}
+                    onPress={() => setEquipment(type)}
+                  >
+                    <Text style={[styles.chipText, equipment === type && styles.chipTextSelected]}>
+                      {type}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, saving && styles.disabledButton]}
+                onPress={handleCreate}
+                disabled={saving}
+              >
+                {saving ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Add to Library</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => setIsCreating(false)}>
+                <Text style={styles.secondaryButtonText}>Back to Library</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          ) : (
+            <>
+              <View style={styles.searchContainer}>
+                <Ionicons name="search" size={20} color="#999" />
+                <TextInput
+                  style={styles.searchInput}
+                  placeholder="Search exercises or muscles"
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  autoCorrect={false}
+                />
+              </View>
+
+              <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+                <TouchableOpacity style={styles.createRow} onPress={startCreating}>
+                  <Ionicons name="add-circle-outline" size={22} color="#007AFF" />
+                  <Text style={styles.createRowText}>
+                    {searchQuery.trim() ? `Create "${searchQuery.trim()}"` : 'Create Custom Exercise'}
+                  </Text>
+                </TouchableOpacity>
+
+                {results.length === 0 ? (
+                  <Text style={styles.emptyText}>No exercises match your search.</Text>
+                ) : (
+                  results.map((exercise) => (
+                    <TouchableOpacity
+                      key={exercise.id}
+                      style={styles.exerciseRow}
+                      onPress={() => onSelect(exercise)}
+                    >
+                      <View style={styles.exerciseInfo}>
+                        <Text style={styles.exerciseName}>{exercise.name}</Text>
+                        <Text style={styles.exerciseMuscles}>
+                          {exercise.primaryMuscles.join(', ')}
+                          {exercise.secondaryMuscles?.length ? ` · ${exercise.secondaryMuscles.join(', ')}` : ''}
+                        </Text>
+                      </View>
+                      {exercise.isCustom && (
+                        <>
+                          <Text style={styles.customBadge}>Custom</Text>
+                          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(exercise)}>
+                            <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                          </TouchableOpacity>
+                        </>
+                      )}
+                    </TouchableOpacity>
+                  ))
+                )}
+              </ScrollView>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '85%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    fontSize: 16,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  createRowText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+  exerciseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  exerciseInfo: {
+    flex: 1,
+  },
+  exerciseName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  exerciseMuscles: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  customBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#34C759',
+    marginLeft: 8,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 8,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ExercisePickerModal;
@@ -0,0 +1,548 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { createCustomFood, deleteCustomFood } from '../firestore';
+import { searchFoods, scaleFoodServing, describeFoodPortion } from '../utils/foodDatabase';
+
+export interface FoodPortion {
+  description: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+interface FoodSearchModalProps {
+  visible: boolean;
+  foods: any[];
+  userId: string | undefined;
+  onClose: () => void;
+  onSelect: (portion: FoodPortion) => void;
+  onFoodsChange: () => void;
+}
+
+const FoodSearchModal = ({ visible, foods, userId, onClose, onSelect, onFoodsChange }: FoodSearchModalProps) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedFood, setSelectedFood] = useState<any>(null);
+  const [servingIndex, setServingIndex] = useState(0);
+  const [quantity, setQuantity] = useState('1');
+  const [isCreating, setIsCreating] = useState(false);
+  const [customName, setCustomName] = useState('');
+  const [servingLabel, setServingLabel] = useState('');
+  const [customCalories, setCustomCalories] = useState('');
+  const [customProtein, setCustomProtein] = useState('');
+  const [customCarbs, setCustomCarbs] = useState('');
+  const [customFat, setCustomFat] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start fresh every time the search opens
+  useEffect(() => {
+    if (visible) {
+      setSearchQuery('');
+      setSelectedFood(null);
+      setIsCreating(false);
+    }
+  }, [visible]);
+
+  const results = searchFoods(foods, searchQuery);
+  const parsedQuantity = parseFloat(quantity);
+  const validQuantity = !isNaN(parsedQuantity) && parsedQuantity > 0;
+  const preview = selectedFood && validQuantity ? scaleFoodServing(selectedFood, servingIndex, parsedQuantity) : null;
+
+  const selectFood = (food: any) => {
+    setSelectedFood(food);
+    setServingIndex(0);
+    setQuantity('1');
+  };
+
+  const handleUseFood = () => {
+    if (!selectedFood || !preview) {
+      Alert.alert('Invalid Quantity', 'Please enter how many servings you had');
+      return;
+    }
+
+    onSelect({
+      description: describeFoodPortion(selectedFood, servingIndex, parsedQuantity),
+      ...preview,
+    });
+  };
+
+  const startCreating = () => {
+    setCustomName(searchQuery.trim());
+    setServingLabel('');
+    setCustomCalories('');
+    setCustomProtein('');
+    setCustomCarbs('');
+    setCustomFat('');
+    setIsCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (!userId) return;
+
+    if (!customName.trim()) {
+      Alert.alert('Name Required', 'Please enter a food name');
+      return;
+    }
+
+    const calories = parseFloat(customCalories);
+    if (isNaN(calories) || calories < 0) {
+      Alert.alert('Calories Required', 'Please enter the calories per serving');
+      return;
+    }
+
+    const macros = {
+      protein: parseFloat(customProtein) || 0,
+      carbs: parseFloat(customCarbs) || 0,
+      fat: parseFloat(customFat) || 0,
+    };
+    if (macros.protein < 0 || macros.carbs < 0 || macros.fat < 0) {
+      Alert.alert('Invalid Macros', 'Macros cannot be negative');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const label = servingLabel.trim() || '1 serving';
+      const foodRef = await createCustomFood(userId, customName, label, { calories, ...macros });
+      onFoodsChange();
+      setIsCreating(false);
+      selectFood({
+        id: foodRef.id,
+        name: customName.trim(),
+        servings: [{ label, scale: 1 }],
+        calories,
+        ...macros,
+        isCustom: true,
+      });
+    } catch (error) {
+      console.error('Error creating custom food:', error);
+      Alert.alert('Error', 'Failed to create food. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (food: any) => {
+    Alert.alert(
+      'Delete Food',
+      `Remove "${food.name}" from your foods? Logged meals are not affected.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteCustomFood(food.id);
+              onFoodsChange();
+            } catch (error) {
+              console.error('Error deleting custom food:', error);
+              Alert.alert('Error', 'Failed to delete food.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCreateForm = () => (
+    <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g., Homemade Granola"
+        value={customName}
+        onChangeText={setCustomName}
+        autoFocus
+      />
+
+      <Text style={styles.label}>Serving Size</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g., 1 cup"
+        value={servingLabel}
+        onChangeText={setServingLabel}
+      />
+
+      <Text style={styles.label}>Calories per Serving</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="0"
+        value={customCalories}
+        onChangeText={setCustomCalories}
+        keyboardType="numeric"
+      />
+
+      <View style={styles.macroRow}>
+        <View style={styles.macroField}>
+          <Text style={styles.label}>Protein (g)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="0"
+            value={customProtein}
+            onChangeText={setCustomProtein}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={styles.macroField}>
+          <Text style={styles.label}>Carbs (g)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="0"
+            value={customCarbs}
+            onChangeText={setCustomCarbs}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={styles.macroField}>
+          <Text style={styles.label}>Fat (g)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="0"
+            value={customFat}
+            onChangeText={setCustomFat}
+            keyboardType="numeric"
+          />
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, saving && styles.disabledButton]}
+        onPress={handleCreate}
+        disabled={saving}
+      >
+        {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Save Food</Text>}
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => setIsCreating(false)}>
+        <Text style={styles.secondaryButtonText}>Back to Search</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderPortionForm = () => (
+    <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+      <Text style={styles.foodTitle}>{selectedFood.name}</Text>
+
+      <Text style={styles.label}>Serving Size</Text>
+      <View style={styles.chipsRow}>
+        {selectedFood.servings.map((serving: any, index: number) => (
+          <TouchableOpacity
+            key={serving.label}
+            style={[styles.chip, servingIndex === index && styles.chipSelected]}
+            onPress={() => setServingIndex(index)}
+          >
+            <Text style={[styles.chipText, servingIndex === index && styles.chipTextSelected]}>
+              {serving.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Number of Servings</Text>
+      <TextInput
+        style={styles.input}
+        value={quantity}
+        onChangeText={setQuantity}
+        keyboardType="decimal-pad"
+      />
+
+      {preview && (
+        <View style={styles.previewCard}>
+          <Text style={styles.previewCalories}>{preview.calories} cal</Text>
+          <Text style={styles.previewMacros}>
+            P: {preview.protein}g · C: {preview.carbs}g · F: {preview.fat}g
+          </Text>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.primaryButton} onPress={handleUseFood}>
+        <Text style={styles.primaryButtonText}>Use This Food</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => setSelectedFood(null)}>
+        <Text style={styles.secondaryButtonText}>Back to Search</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderSearch = () => (
+    <>
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={20} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search foods"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCorrect={false}
+        />
+      </View>
+
+      <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+        <TouchableOpacity style={styles.createRow} onPress={startCreating}>
+          <Ionicons name="add-circle-outline" size={22} color="#007AFF" />
+          <Text style={styles.createRowText}>
+            {searchQuery.trim() ? `Create "${searchQuery.trim()}"` : 'Create Custom Food'}
+          </Text>
+        </TouchableOpacity>
+
+        {results.length === 0 ? (
+          <Text style={styles.emptyText}>No foods match your search.</Text>
+        ) : (
+          results.map((food) => (
+            <TouchableOpacity key={food.id} style={styles.foodRow} onPress={() => selectFood(food)}>
+              <View style={styles.foodInfo}>
+                <Text style={styles.foodName}>{food.name}</Text>
+                <Text style={styles.foodDetails}>
+                  {food.calories} cal · {food.servings[0]?.label}
+                </Text>
+              </View>
+              {food.isCustom && (
+                <>
+                  <Text style={styles.customBadge}>Custom</Text>
+                  <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(food)}>
+                    <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                  </TouchableOpacity>
+                </>
+              )}
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </>
+  );
+
+  const title = isCreating ? 'New Food' : selectedFood ? 'Add Food' : 'Food Search';
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{title}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          {isCreating ? renderCreateForm() : selectedFood ? renderPortionForm() : renderSearch()}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '85%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    fontSize: 16,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  createRowText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+  foodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  foodInfo: {
+    flex: 1,
+  },
+  foodName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  foodDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  customBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#34C759',
+    marginLeft: 8,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  foodTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 8,
+  },
+  macroRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  macroField: {
+    flex: 1,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  previewCard: {
+    backgroundColor: '#E6F4FE',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  previewCalories: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  previewMacros: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default FoodSearchModal;
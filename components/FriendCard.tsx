@@ -8,6 +8,13 @@ interface FriendCardProps {
   workedOutToday: boolean;
   totalCalories: number;
   muscleGroups: string[];
+  sessionCount?: number;
+  prCount?: number;
+  cardioSummaries?: string[];
+  // Set when the friend shares goal status instead of their calorie total
+  calorieGoalHit?: boolean | null;
+  // Set when the friend shares their water, e.g. "1,250 / 2,500 ml"
+  waterSummary?: string | null;
 }
 
 const FriendCard = React.memo(({
@@ -16,8 +23,31 @@ const FriendCard = React.memo(({
   profilePicURL,
   workedOutToday,
   totalCalories,
-  muscleGroups
+  muscleGroups,
+  sessionCount = 0,
+  prCount = 0,
+  cardioSummaries = [],
+  calorieGoalHit = null,
+  waterSummary = null
 }: FriendCardProps) => {
+  const renderCalories = () => {
+    if (calorieGoalHit !== null) {
+      return (
+        <Text style={[styles.caloriesText, calorieGoalHit && styles.goalHitText]}>
+          {calorieGoalHit ? '🎯 Hit calorie goal' : 'Calorie goal not hit yet'}
+        </Text>
+      );
+    }
+    if (totalCalories > 0) {
+      return (
+        <Text style={styles.caloriesText}>
+          {totalCalories.toLocaleString()} cal
+        </Text>
+      );
+    }
+    return null;
+  };
+
   return (
     <View style={[
       styles.card,
@@ -44,6 +74,13 @@ const FriendCard = React.memo(({
           {friendCode && (
             <Text style={styles.friendCodeText}>#{friendCode}</Text>
           )}
+          {prCount > 0 && (
+            <View style={styles.prBadge}>
+              <Text style={styles.prBadgeText}>
+                🏆 {prCount} PR{prCount > 1 ? 's' : ''}
+              </Text>
+            </View>
+          )}
         </View>
 
         {workedOutToday ? (
@@ -53,20 +90,24 @@ const FriendCard = React.memo(({
                 {muscleGroups.join(', ')}
               </Text>
             )}
-            {totalCalories > 0 && (
-              <Text style={styles.caloriesText}>
-                {totalCalories.toLocaleString()} cal
+            {cardioSummaries.length > 0 && (
+              <Text style={styles.cardioText}>
+                🏃 {cardioSummaries.join(' · ')}
               </Text>
             )}
+            {sessionCount > 1 && (
+              <Text style={styles.sessionsText}>
+                {sessionCount} sessions today
+              </Text>
+            )}
+            {renderCalories()}
+            {waterSummary && <Text style={styles.waterText}>💧 {waterSummary}</Text>}
           </>
         ) : (
           <>
             <Text style={styles.inactiveText}>No workout today</Text>
-            {totalCalories > 0 && (
-              <Text style={styles.caloriesText}>
-                {totalCalories.toLocaleString()} cal
-              </Text>
-            )}
+            {renderCalories()}
+            {waterSummary && <Text style={styles.waterText}>💧 {waterSummary}</Text>}
           </>
         )}
       </View>
@@ -83,10 +124,15 @@ const FriendCard = React.memo(({
   return (
     prevProps.workedOutToday === nextProps.workedOutToday &&
     prevProps.muscleGroups.join() === nextProps.muscleGroups.join() &&
+    prevProps.sessionCount === nextProps.sessionCount &&
+    prevProps.prCount === nextProps.prCount &&
+    (prevProps.cardioSummaries || []).join() === (nextProps.cardioSummaries || []).join() &&
     prevProps.name === nextProps.name &&
     prevProps.friendCode === nextProps.friendCode &&
     prevProps.profilePicURL === nextProps.profilePicURL &&
-    prevProps.totalCalories === nextProps.totalCalories
+    prevProps.totalCalories === nextProps.totalCalories &&
+    prevProps.calorieGoalHit === nextProps.calorieGoalHit &&
+    prevProps.waterSummary === nextProps.waterSummary
   );
 });
 
@@ -151,16 +197,47 @@ const styles = StyleSheet.create({
     color: '#999',
     marginLeft: 4,
   },
+  prBadge: {
+    backgroundColor: '#FFF4D6',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  prBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B07D00',
+  },
   muscleGroupsText: {
     fontSize: 16,
     fontWeight: '500',
     color: '#34C759',
   },
+  cardioText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  sessionsText: {
+    fontSize: 14,
+    color: '#34C759',
+    marginTop: 2,
+  },
   caloriesText: {
     fontSize: 14,
     color: '#666',
     marginTop: 2,
   },
+  waterText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  goalHitText: {
+    color: '#34C759',
+    fontWeight: '600',
+  },
   inactiveText: {
     fontSize: 14,
     color: '#999',
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { buildIntervalSchedule, getIntervalPosition, describeBlock } from '../utils/workoutBlocks';
+import { formatTimer } from '../utils/workoutSession';
+
+interface IntervalTimerModalProps {
+  visible: boolean;
+  block: any;
+  exerciseNames: string[];
+  onClose: () => void;
+}
+
+const PHASE_LABELS: Record<string, string> = {
+  ready: 'Get Ready',
+  work: 'Work',
+  rest: 'Rest',
+};
+
+const PHASE_COLORS: Record<string, string> = {
+  ready: '#007AFF',
+  work: '#34C759',
+  rest: '#FF9500',
+};
+
+const IntervalTimerModal = ({ visible, block, exerciseNames, onClose }: IntervalTimerModalProps) => {
+  // Elapsed time is derived from timestamps so it stays accurate between ticks
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [pausedElapsed, setPausedElapsed] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  // Start from the top every time the timer opens
+  useEffect(() => {
+    if (visible) {
+      setStartedAt(Date.now());
+      setPausedElapsed(0);
+      setNow(Date.now());
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible || startedAt === null) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [visible, startedAt]);
+
+  const schedule = block ? buildIntervalSchedule(block, exerciseNames) : [];
+  const elapsedSeconds = (pausedElapsed + (startedAt !== null ? now - startedAt : 0)) / 1000;
+  const position = getIntervalPosition(schedule, elapsedSeconds);
+  const phase = schedule[position.phaseIndex];
+
+  // Buzz at every phase change so the screen doesn't need watching
+  useEffect(() => {
+    if (!visible || position.phaseIndex === 0) return;
+
+    if (position.done) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } else {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    }
+  }, [visible, position.phaseIndex, position.done]);
+
+  // Stop ticking once the last phase is over
+  useEffect(() => {
+    if (position.done && startedAt !== null) {
+      setPausedElapsed((elapsed) => elapsed + Date.now() - startedAt);
+      setStartedAt(null);
+    }
+  }, [position.done, startedAt]);
+
+  const handlePauseResume = () => {
+    if (startedAt !== null) {
+      setPausedElapsed(pausedElapsed + Date.now() - startedAt);
+      setStartedAt(null);
+    } else {
+      setStartedAt(Date.now());
+      setNow(Date.now());
+    }
+  };
+
+  const handleRestart = () => {
+    setPausedElapsed(0);
+    setStartedAt(Date.now());
+    setNow(Date.now());
+  };
+
+  if (!block || !phase) return null;
+
+  const phaseColor = position.done ? '#34C759' : PHASE_COLORS[phase.kind];
+  const isPaused = startedAt === null && !position.done;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Interval Timer</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.modalBody}>
+            <Text style={styles.blockText}>{describeBlock(block)}</Text>
+
+            <View style={[styles.phaseCard, { backgroundColor: phaseColor }]}>
+              <Text style={styles.phaseLabel}>
+                {position.done ? 'Done!' : PHASE_LABELS[phase.kind]}
+              </Text>
+              <Text style={styles.phaseTime}>{formatTimer(position.remaining)}</Text>
+              {!position.done && (
+                <Text style={styles.phaseExercise}>
+                  {phase.kind === 'work' ? phase.exercise : `Next: ${phase.exercise}`}
+                </Text>
+              )}
+            </View>
+
+            <Text style={styles.roundText}>
+              Round {phase.round} of {block.rounds}
+            </Text>
+
+            <View style={styles.controls}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleRestart}>
+                <Ionicons name="refresh" size={22} color="#007AFF" />
+                <Text style={styles.secondaryButtonText}>Restart</Text>
+              </TouchableOpacity>
+              {!position.done && (
+                <TouchableOpacity style={styles.primaryButton} onPress={handlePauseResume}>
+                  <Ionicons name={isPaused ? 'play' : 'pause'} size={22} color="#fff" />
+                  <Text style={styles.primaryButtonText}>{isPaused ? 'Resume' : 'Pause'}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    padding: 20,
+    alignItems: 'center',
+  },
+  blockText: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 20,
+  },
+  phaseCard: {
+    width: '100%',
+    borderRadius: 24,
+    paddingVertical: 32,
+    alignItems: 'center',
+  },
+  phaseLabel: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  phaseTime: {
+    fontSize: 72,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginVertical: 8,
+  },
+  phaseExercise: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  roundText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 20,
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 32,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
+
+export default IntervalTimerModal;
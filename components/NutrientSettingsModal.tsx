@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { EXTENDED_NUTRIENTS, MICRONUTRIENTS, resolveNutrientSettings } from '../utils/micronutrients';
+
+interface NutrientSettingsModalProps {
+  visible: boolean;
+  settings: any;
+  onClose: () => void;
+  onSave: (settings: any) => void;
+}
+
+const NutrientSettingsModal = ({ visible, settings, onClose, onSave }: NutrientSettingsModalProps) => {
+  const [tracked, setTracked] = useState<string[]>([]);
+  const [goalInputs, setGoalInputs] = useState<Record<string, string>>({});
+
+  // Show the saved settings every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      const resolved = resolveNutrientSettings(settings);
+      setTracked(resolved.tracked);
+      setGoalInputs(
+        Object.fromEntries(Object.entries(resolved.goals).map(([key, goal]) => [key, goal ? String(goal) : '']))
+      );
+    }
+  }, [visible, settings]);
+
+  const toggleTracked = (key: string, value: boolean) => {
+    setTracked((prev) => (value ? [...prev, key] : prev.filter((trackedKey) => trackedKey !== key)));
+  };
+
+  const handleSave = () => {
+    const goals: Record<string, number | null> = {};
+    for (const nutrient of [...EXTENDED_NUTRIENTS, ...MICRONUTRIENTS]) {
+      const text = (goalInputs[nutrient.key] || '').trim();
+      if (!text) {
+        goals[nutrient.key] = null;
+        continue;
+      }
+
+      const value = parseFloat(text);
+      if (isNaN(value) || value <= 0) {
+        Alert.alert('Invalid Goal', `Please enter a ${nutrient.label.toLowerCase()} goal greater than 0, or leave it blank`);
+        return;
+      }
+      goals[nutrient.key] = value;
+    }
+
+    onSave({ tracked, goals });
+  };
+
+  const renderGoalInput = (nutrient: any) => (
+    <View style={styles.goalInputRow}>
+      <TextInput
+        style={[styles.input, styles.goalInput]}
+        placeholder={nutrient.goalType === 'limit' ? 'Limit' : 'Target'}
+        value={goalInputs[nutrient.key] || ''}
+        onChangeText={(text) => setGoalInputs((prev) => ({ ...prev, [nutrient.key]: text }))}
+        keyboardType="numeric"
+      />
+      <Text style={styles.goalUnit}>{nutrient.unit}</Text>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Nutrients</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            <Text style={styles.modalSubtext}>
+              Set a daily target to reach or a limit to stay under. Leave blank to just track totals.
+            </Text>
+
+            <Text style={styles.sectionLabel}>Always Tracked</Text>
+            {EXTENDED_NUTRIENTS.map((nutrient) => (
+              <View key={nutrient.key} style={styles.nutrientRow}>
+                <View style={styles.nutrientInfo}>
+                  <Text style={styles.nutrientLabel}>{nutrient.label}</Text>
+                  <Text style={styles.nutrientHint}>{nutrient.goalType === 'limit' ? 'Daily limit' : 'Daily target'}</Text>
+                </View>
+                {renderGoalInput(nutrient)}
+              </View>
+            ))}
+
+            <Text style={styles.sectionLabel}>Vitamins & Minerals</Text>
+            {MICRONUTRIENTS.map((nutrient) => {
+              const isTracked = tracked.includes(nutrient.key);
+              return (
+                <View key={nutrient.key} style={styles.nutrientRow}>
+                  <Switch value={isTracked} onValueChange={(value) => toggleTracked(nutrient.key, value)} />
+                  <View style={[styles.nutrientInfo, styles.switchInfo]}>
+                    <Text style={styles.nutrientLabel}>{nutrient.label}</Text>
+                  </View>
+                  {isTracked && renderGoalInput(nutrient)}
+                </View>
+              );
+            })}
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '85%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  modalSubtext: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  nutrientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 52,
+    marginBottom: 8,
+  },
+  nutrientInfo: {
+    flex: 1,
+  },
+  switchInfo: {
+    marginLeft: 12,
+  },
+  nutrientLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  nutrientHint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  goalInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  goalInput: {
+    width: 90,
+    textAlign: 'center',
+  },
+  goalUnit: {
+    width: 36,
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default NutrientSettingsModal;
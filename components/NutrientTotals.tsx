@@ -0,0 +1,78 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { getNutrientStatus } from '../utils/micronutrients';
+
+interface NutrientTotalsProps {
+  nutrients: any[];
+  totals: Record<string, number>;
+  goals: Record<string, number | null>;
+}
+
+const NutrientTotals = ({ nutrients, totals, goals }: NutrientTotalsProps) => {
+  // Only show nutrients that were logged today or have a goal to work toward
+  const rows = nutrients
+    .map((nutrient) => ({
+      ...nutrient,
+      total: totals[nutrient.key] || 0,
+      goal: goals[nutrient.key],
+      progress: getNutrientStatus(nutrient, totals[nutrient.key] || 0, goals[nutrient.key]),
+    }))
+    .filter((row) => row.total > 0 || row.goal);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {rows.map(({ key, label, unit, goalType, total, goal, progress }) => (
+        <View key={key} style={styles.row}>
+          <Text style={styles.rowLabel}>{label}</Text>
+          <Text
+            style={[
+              styles.rowValue,
+              progress?.status === 'over' && styles.overText,
+              progress?.status === 'met' && styles.metText,
+            ]}
+          >
+            {total.toLocaleString()}
+            {goal ? ` / ${goal.toLocaleString()}` : ''} {unit}
+            {goal ? (goalType === 'limit' ? ' limit' : ' target') : ''}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  rowValue: {
+    fontSize: 14,
+    color: '#666',
+  },
+  overText: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  metText: {
+    color: '#34C759',
+    fontWeight: '600',
+  },
+});
+
+export default NutrientTotals;
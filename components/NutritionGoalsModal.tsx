@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NUTRITION_GOAL_FIELDS, resolveNutritionGoals } from '../utils/nutritionGoals';
+
+interface NutritionGoalsModalProps {
+  visible: boolean;
+  goals: any;
+  onClose: () => void;
+  onSave: (goals: any) => void;
+}
+
+const NutritionGoalsModal = ({ visible, goals, onClose, onSave }: NutritionGoalsModalProps) => {
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [shareGoalStatus, setShareGoalStatus] = useState(false);
+
+  // Show the saved goals every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      const resolved: Record<string, any> = resolveNutritionGoals(goals);
+      setInputs(
+        Object.fromEntries(
+          NUTRITION_GOAL_FIELDS.map((field) => [field.key, resolved[field.key] ? String(resolved[field.key]) : ''])
+        )
+      );
+      setShareGoalStatus(resolved.shareGoalStatus);
+    }
+  }, [visible, goals]);
+
+  const handleSave = () => {
+    const parsed: Record<string, number | null> = {};
+    for (const field of NUTRITION_GOAL_FIELDS) {
+      const text = (inputs[field.key] || '').trim();
+      if (!text) {
+        parsed[field.key] = null;
+        continue;
+      }
+
+      const value = parseFloat(text);
+      if (isNaN(value) || value <= 0) {
+        Alert.alert('Invalid Goal', `Please enter a ${field.label.toLowerCase()} goal greater than 0, or leave it blank`);
+        return;
+      }
+      parsed[field.key] = field.key === 'calories' ? Math.round(value) : value;
+    }
+
+    if (shareGoalStatus && !parsed.calories) {
+      Alert.alert('Calorie Goal Required', 'Set a calorie goal to share your goal status with friends');
+      return;
+    }
+
+    // A calculated goal keeps its explanation until the calorie target is changed by hand
+    const resolved = resolveNutritionGoals(goals);
+    const calorieGoalNote = parsed.calories === resolved.calories ? resolved.calorieGoalNote : null;
+
+    onSave({ ...parsed, shareGoalStatus, calorieGoalNote });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Daily Goals</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            <Text style={styles.modalSubtext}>Leave a goal blank to stop tracking it</Text>
+
+            {NUTRITION_GOAL_FIELDS.map((field) => (
+              <View key={field.key} style={styles.goalRow}>
+                <Text style={styles.goalLabel}>{field.label}</Text>
+                <TextInput
+                  style={[styles.input, styles.goalInput]}
+                  placeholder={field.unit}
+                  value={inputs[field.key] || ''}
+                  onChangeText={(text) => setInputs((prev) => ({ ...prev, [field.key]: text }))}
+                  keyboardType="numeric"
+                />
+                <Text style={styles.goalUnit}>{field.unit}</Text>
+              </View>
+            ))}
+
+            {/* Friend Visibility */}
+            <View style={styles.shareRow}>
+              <View style={styles.shareInfo}>
+                <Text style={styles.goalLabel}>Share goal status</Text>
+                <Text style={styles.shareHint}>
+                  Friends see whether you hit your calorie goal instead of your total
+                </Text>
+              </View>
+              <Switch value={shareGoalStatus} onValueChange={setShareGoalStatus} />
+            </View>
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  modalSubtext: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  goalLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  goalInput: {
+    width: 100,
+    textAlign: 'center',
+  },
+  goalUnit: {
+    width: 32,
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 16,
+    marginTop: 4,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  shareInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  shareHint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default NutritionGoalsModal;
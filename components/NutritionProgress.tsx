@@ -0,0 +1,94 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { NUTRITION_GOAL_FIELDS, getGoalProgress } from '../utils/nutritionGoals';
+
+interface NutritionProgressProps {
+  totals: Record<string, number>;
+  goals: Record<string, any>;
+}
+
+const NutritionProgress = ({ totals, goals }: NutritionProgressProps) => {
+  const rows = NUTRITION_GOAL_FIELDS.map((field) => ({
+    ...field,
+    progress: getGoalProgress(totals[field.key] || 0, goals[field.key]),
+  })).filter((row) => row.progress);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {rows.map(({ key, label, unit, progress }) => (
+        <View key={key} style={styles.row}>
+          <View style={styles.rowHeader}>
+            <Text style={styles.rowLabel}>{label}</Text>
+            <Text style={[styles.rowRemaining, progress.over > 0 && styles.overText]}>
+              {progress.over > 0
+                ? `${progress.over.toLocaleString()} ${unit} over`
+                : `${progress.remaining.toLocaleString()} ${unit} left`}
+            </Text>
+          </View>
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.fill,
+                { width: `${Math.round(progress.fraction * 100)}%` },
+                progress.over > 0 && styles.fillOver,
+              ]}
+            />
+          </View>
+          <Text style={styles.rowDetail}>
+            {progress.consumed.toLocaleString()} / {progress.goal.toLocaleString()} {unit}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+    gap: 12,
+  },
+  row: {
+    gap: 4,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  rowRemaining: {
+    fontSize: 14,
+    color: '#34C759',
+    fontWeight: '600',
+  },
+  overText: {
+    color: '#FF3B30',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#34C759',
+  },
+  fillOver: {
+    backgroundColor: '#FF3B30',
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: '#999',
+  },
+});
+
+export default NutritionProgress;
@@ -0,0 +1,134 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { formatPlates, generateWarmupSets, planLoading } from '../utils/plateCalculator';
+import { convertWeight, toWeightInput } from '../utils/stats';
+import type { SetInput } from './ExerciseEditor';
+
+interface PlateCalculatorPanelProps {
+  sets: SetInput[];
+  plateSettings: any;
+  // Unit the set weights are entered in
+  weightUnit: string;
+  onAddWarmups: (warmups: SetInput[]) => void;
+  disabled?: boolean;
+}
+
+const PlateCalculatorPanel = ({
+  sets,
+  plateSettings,
+  weightUnit,
+  onAddWarmups,
+  disabled = false,
+}: PlateCalculatorPanelProps) => {
+  // The heaviest set entered is taken as the working weight
+  const heaviestSet = Math.max(0, ...sets.map((set) => parseFloat(set.weight) || 0));
+  const workingWeight = convertWeight(heaviestSet, weightUnit, 'lbs');
+  if (workingWeight <= 0) {
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.hintText}>Enter a working weight to see warm-ups and plates</Text>
+      </View>
+    );
+  }
+
+  const working = planLoading(workingWeight, plateSettings);
+  const warmups = generateWarmupSets(workingWeight, plateSettings);
+
+  const handleAddWarmups = () => {
+    onAddWarmups(
+      warmups.map((warmup) => ({
+        reps: String(warmup.reps),
+        ...toWeightInput(warmup.weight, weightUnit),
+        rpe: '',
+      }))
+    );
+  };
+
+  return (
+    <View style={styles.panel}>
+      {warmups.map((warmup, index) => (
+        <View key={index} style={styles.row}>
+          <Text style={styles.rowLabel}>
+            {warmup.loading.totalWeight} {warmup.loading.unit} × {warmup.reps}
+          </Text>
+          <Text style={styles.rowPlates}>{formatPlates(warmup.loading.perSide)}</Text>
+        </View>
+      ))}
+
+      <View style={[styles.row, styles.workingRow]}>
+        <Text style={[styles.rowLabel, styles.workingLabel]}>
+          {working.totalWeight} {working.unit} working
+        </Text>
+        <Text style={[styles.rowPlates, styles.workingLabel]}>{formatPlates(working.perSide)}</Text>
+      </View>
+      {working.outOfPlates && (
+        <Text style={styles.warningText}>
+          {working.remainder} {working.unit} short of {working.target} {working.unit} with your plates
+        </Text>
+      )}
+      <Text style={styles.hintText}>Plates per side</Text>
+
+      {warmups.length > 0 && (
+        <TouchableOpacity style={styles.addButton} onPress={handleAddWarmups} disabled={disabled}>
+          <Text style={styles.addButtonText}>+ Add Warm-up Sets</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  workingRow: {
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    marginTop: 4,
+    paddingTop: 8,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#333',
+  },
+  rowPlates: {
+    fontSize: 14,
+    color: '#666',
+  },
+  workingLabel: {
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  addButton: {
+    paddingVertical: 8,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  addButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default PlateCalculatorPanel;
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DEFAULT_PLATE_SETTINGS, resolvePlateSettings } from '../utils/plateCalculator';
+import { WEIGHT_UNITS } from '../utils/stats';
+
+interface PlateSettingsModalProps {
+  visible: boolean;
+  settings: any;
+  onClose: () => void;
+  onSave: (settings: any) => void;
+}
+
+interface PlateInput {
+  weight: number;
+  pairs: number;
+}
+
+const MAX_PAIRS = 10;
+
+const PlateSettingsModal = ({ visible, settings, onClose, onSave }: PlateSettingsModalProps) => {
+  const [unit, setUnit] = useState('lbs');
+  const [barWeight, setBarWeight] = useState('');
+  const [plates, setPlates] = useState<PlateInput[]>([]);
+
+  // Show the saved settings every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      const resolved = resolvePlateSettings(settings);
+      setUnit(resolved.unit);
+      setBarWeight(String(resolved.barWeight));
+      setPlates(resolved.plates);
+    }
+  }, [visible, settings]);
+
+  // Switching units starts from that unit's standard bar and plates
+  const selectUnit = (selected: string) => {
+    if (selected === unit) return;
+
+    const defaults = DEFAULT_PLATE_SETTINGS[selected as 'lbs' | 'kg'];
+    setUnit(selected);
+    setBarWeight(String(defaults.barWeight));
+    setPlates(defaults.plates);
+  };
+
+  const adjustPairs = (weight: number, change: number) => {
+    setPlates((prev) =>
+      prev.map((plate) =>
+        plate.weight === weight
+          ? { ...plate, pairs: Math.min(MAX_PAIRS, Math.max(0, plate.pairs + change)) }
+          : plate
+      )
+    );
+  };
+
+  const handleSave = () => {
+    const parsedBarWeight = parseFloat(barWeight);
+    if (isNaN(parsedBarWeight) || parsedBarWeight < 0) {
+      Alert.alert('Invalid Bar Weight', 'Please enter the weight of your bar');
+      return;
+    }
+    if (!plates.some((plate) => plate.pairs > 0)) {
+      Alert.alert('No Plates', 'Add at least one pair of plates');
+      return;
+    }
+
+    onSave({ unit, barWeight: parsedBarWeight, plates });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Bar & Plates</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            <Text style={styles.modalSubtext}>
+              Used to work out warm-up sets and which plates to load for barbell lifts
+            </Text>
+
+            {/* Plate Units */}
+            <Text style={styles.label}>Plate Units</Text>
+            <View style={styles.unitToggle}>
+              {WEIGHT_UNITS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.unitOption, unit === option && styles.unitOptionSelected]}
+                  onPress={() => selectUnit(option)}
+                >
+                  <Text style={[styles.unitOptionText, unit === option && styles.unitOptionTextSelected]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Bar Weight */}
+            <Text style={styles.label}>Bar Weight ({unit})</Text>
+            <TextInput
+              style={styles.input}
+              value={barWeight}
+              onChangeText={setBarWeight}
+              keyboardType="numeric"
+            />
+
+            {/* Plate Inventory */}
+            <Text style={styles.label}>Pairs of Plates</Text>
+            {plates.map((plate) => (
+              <View key={plate.weight} style={styles.plateRow}>
+                <Text style={styles.plateLabel}>
+                  {plate.weight} {unit}
+                </Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => adjustPairs(plate.weight, -1)}
+                  disabled={plate.pairs === 0}
+                >
+                  <Ionicons name="remove" size={20} color={plate.pairs === 0 ? '#ccc' : '#007AFF'} />
+                </TouchableOpacity>
+                <Text style={styles.pairsText}>{plate.pairs}</Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => adjustPairs(plate.weight, 1)}
+                  disabled={plate.pairs === MAX_PAIRS}
+                >
+                  <Ionicons name="add" size={20} color={plate.pairs === MAX_PAIRS ? '#ccc' : '#007AFF'} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  modalSubtext: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  unitToggle: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    overflow: 'hidden',
+  },
+  unitOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+  },
+  unitOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  unitOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  unitOptionTextSelected: {
+    color: '#fff',
+  },
+  plateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  plateLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#000',
+  },
+  stepperButton: {
+    padding: 6,
+  },
+  pairsText: {
+    width: 32,
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default PlateSettingsModal;
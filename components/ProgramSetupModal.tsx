@@ -0,0 +1,307 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PROGRAM_TEMPLATES } from '../constants/programs';
+import { EXERCISE_CATALOG } from '../constants/exercises';
+import { convertWeight } from '../utils/stats';
+
+interface ProgramSetupModalProps {
+  visible: boolean;
+  // Estimated one-rep maxes keyed by exercise ID, used to pre-fill the form
+  estimatedMaxes: Record<string, number>;
+  weightUnit: string;
+  onClose: () => void;
+  onStart: (templateId: string, trainingDays: number[], oneRepMaxes: Record<string, number>) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Sensible spreads for each frequency, starting the week on Monday
+const DEFAULT_TRAINING_DAYS: Record<number, number[]> = {
+  3: [1, 3, 5],
+  4: [1, 2, 4, 5],
+  6: [1, 2, 3, 4, 5, 6],
+};
+
+const getLiftName = (exerciseId: string) =>
+  EXERCISE_CATALOG.find((exercise) => exercise.id === exerciseId)?.name || exerciseId;
+
+const ProgramSetupModal = ({ visible, estimatedMaxes, weightUnit, onClose, onStart }: ProgramSetupModalProps) => {
+  const [templateId, setTemplateId] = useState(PROGRAM_TEMPLATES[0].id);
+  const [trainingDays, setTrainingDays] = useState<number[]>([]);
+  const [maxInputs, setMaxInputs] = useState<Record<string, string>>({});
+
+  const template = PROGRAM_TEMPLATES.find((t) => t.id === templateId) || PROGRAM_TEMPLATES[0];
+
+  // Reset to the first program each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setTemplateId(PROGRAM_TEMPLATES[0].id);
+      setTrainingDays(DEFAULT_TRAINING_DAYS[PROGRAM_TEMPLATES[0].daysPerWeek] || []);
+      setMaxInputs(
+        Object.fromEntries(
+          Object.entries(estimatedMaxes).map(([exerciseId, max]) => [exerciseId, String(Math.round(convertWeight(max, 'lbs', weightUnit)))])
+        )
+      );
+    }
+  }, [visible, estimatedMaxes, weightUnit]);
+
+  const selectTemplate = (id: string) => {
+    const selected = PROGRAM_TEMPLATES.find((t) => t.id === id);
+    if (!selected) return;
+
+    setTemplateId(id);
+    setTrainingDays(DEFAULT_TRAINING_DAYS[selected.daysPerWeek] || []);
+  };
+
+  const toggleDay = (day: number) => {
+    setTrainingDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]));
+  };
+
+  const handleStart = () => {
+    if (trainingDays.length !== template.daysPerWeek) {
+      Alert.alert('Training Days', `${template.name} needs ${template.daysPerWeek} training days a week`);
+      return;
+    }
+
+    const oneRepMaxes: Record<string, number> = {};
+    for (const lift of template.lifts) {
+      const max = parseFloat(maxInputs[lift] || '');
+      if (isNaN(max) || max <= 0) {
+        Alert.alert('One-Rep Max Required', `Please enter your ${getLiftName(lift)} one-rep max`);
+        return;
+      }
+      oneRepMaxes[lift] = convertWeight(max, weightUnit, 'lbs');
+    }
+
+    onStart(template.id, trainingDays, oneRepMaxes);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Start a Program</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            {/* Program Options */}
+            {PROGRAM_TEMPLATES.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.programOption, templateId === option.id && styles.programOptionSelected]}
+                onPress={() => selectTemplate(option.id)}
+              >
+                <View style={styles.programInfo}>
+                  <Text style={[styles.programLabel, templateId === option.id && styles.programLabelSelected]}>
+                    {option.name}
+                  </Text>
+                  <Text style={styles.programDescription}>{option.description}</Text>
+                  <Text style={styles.programDescription}>
+                    {option.weeks.length} weeks · {option.daysPerWeek} days a week
+                  </Text>
+                </View>
+                {templateId === option.id && <Ionicons name="checkmark-circle" size={24} color="#007AFF" />}
+              </TouchableOpacity>
+            ))}
+
+            {/* Training Days */}
+            <Text style={styles.label}>Training Days ({trainingDays.length}/{template.daysPerWeek})</Text>
+            <View style={styles.dayRow}>
+              {WEEKDAYS.map((label, day) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.dayOption, trainingDays.includes(day) && styles.dayOptionSelected]}
+                  onPress={() => toggleDay(day)}
+                >
+                  <Text style={[styles.dayText, trainingDays.includes(day) && styles.dayTextSelected]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* One-Rep Maxes */}
+            <Text style={styles.label}>One-Rep Maxes ({weightUnit})</Text>
+            <Text style={styles.modalSubtext}>
+              {template.trainingMaxPercent < 100
+                ? `Loads are worked out from a training max of ${template.trainingMaxPercent}% of these`
+                : 'Loads are worked out from these'}
+            </Text>
+            {template.lifts.map((lift) => (
+              <View key={lift} style={styles.maxRow}>
+                <Text style={styles.maxLabel}>{getLiftName(lift)}</Text>
+                <TextInput
+                  style={[styles.input, styles.maxInput]}
+                  placeholder={weightUnit}
+                  value={maxInputs[lift] || ''}
+                  onChangeText={(text) => setMaxInputs((prev) => ({ ...prev, [lift]: text }))}
+                  keyboardType="numeric"
+                />
+              </View>
+            ))}
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleStart}>
+              <Text style={styles.saveButtonText}>Start Program</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  modalSubtext: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  programOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  programOptionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#f0f7ff',
+  },
+  programInfo: {
+    flex: 1,
+  },
+  programLabel: {
+    fontSize: 16,
+    color: '#000',
+  },
+  programLabelSelected: {
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  programDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  dayOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#fff',
+  },
+  dayOptionSelected: {
+    backgroundColor: '#007AFF',
+  },
+  dayText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  dayTextSelected: {
+    color: '#fff',
+  },
+  maxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  maxLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#000',
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  maxInput: {
+    width: 100,
+    textAlign: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ProgramSetupModal;
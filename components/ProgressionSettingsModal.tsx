@@ -0,0 +1,281 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PROGRESSION_RULES, resolveProgressionSettings } from '../utils/progression';
+import { convertWeight } from '../utils/stats';
+
+interface ProgressionSettingsModalProps {
+  visible: boolean;
+  settings: any;
+  weightUnit: string;
+  onClose: () => void;
+  onSave: (settings: any) => void;
+}
+
+const ProgressionSettingsModal = ({
+  visible,
+  settings,
+  weightUnit,
+  onClose,
+  onSave,
+}: ProgressionSettingsModalProps) => {
+  const [rule, setRule] = useState('linear');
+  const [increment, setIncrement] = useState('');
+  const [repRangeMin, setRepRangeMin] = useState('');
+  const [repRangeMax, setRepRangeMax] = useState('');
+  const [percentage, setPercentage] = useState('');
+
+  // Show the saved settings every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      const resolved = resolveProgressionSettings(settings);
+      setRule(resolved.rule);
+      setIncrement(String(convertWeight(resolved.increment, resolved.incrementUnit, weightUnit)));
+      setRepRangeMin(String(resolved.repRangeMin));
+      setRepRangeMax(String(resolved.repRangeMax));
+      setPercentage(String(resolved.percentage));
+    }
+  }, [visible, settings, weightUnit]);
+
+  const handleSave = () => {
+    const parsedIncrement = parseFloat(increment);
+    const parsedMin = parseInt(repRangeMin);
+    const parsedMax = parseInt(repRangeMax);
+    const parsedPercentage = parseFloat(percentage);
+
+    if (isNaN(parsedIncrement) || parsedIncrement <= 0) {
+      Alert.alert('Invalid Increment', 'Please enter a weight increment greater than 0');
+      return;
+    }
+    if (rule === 'double' && (isNaN(parsedMin) || isNaN(parsedMax) || parsedMin <= 0 || parsedMin >= parsedMax)) {
+      Alert.alert('Invalid Rep Range', 'The bottom of the rep range must be lower than the top');
+      return;
+    }
+    if (rule === 'percentage' && (isNaN(parsedPercentage) || parsedPercentage <= 0 || parsedPercentage > 20)) {
+      Alert.alert('Invalid Percentage', 'Please enter a percentage between 0 and 20');
+      return;
+    }
+
+    // Unused fields keep their previous values so switching rules back is painless
+    const resolved = resolveProgressionSettings(settings);
+    // An untouched increment keeps its saved value and unit rather than a rounded conversion
+    const incrementUnchanged = increment === String(convertWeight(resolved.increment, resolved.incrementUnit, weightUnit));
+    onSave({
+      rule,
+      increment: incrementUnchanged ? resolved.increment : parsedIncrement,
+      incrementUnit: incrementUnchanged ? resolved.incrementUnit : weightUnit,
+      repRangeMin: rule === 'double' ? parsedMin : resolved.repRangeMin,
+      repRangeMax: rule === 'double' ? parsedMax : resolved.repRangeMax,
+      percentage: rule === 'percentage' ? parsedPercentage : resolved.percentage,
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Progression</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            <Text style={styles.modalSubtext}>
+              Choose how today&apos;s targets are suggested from your previous sessions
+            </Text>
+
+            {/* Rule Options */}
+            {PROGRESSION_RULES.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.ruleOption, rule === option.id && styles.ruleOptionSelected]}
+                onPress={() => setRule(option.id)}
+              >
+                <View style={styles.ruleInfo}>
+                  <Text style={[styles.ruleLabel, rule === option.id && styles.ruleLabelSelected]}>
+                    {option.label}
+                  </Text>
+                  <Text style={styles.ruleDescription}>{option.description}</Text>
+                </View>
+                {rule === option.id && <Ionicons name="checkmark-circle" size={24} color="#007AFF" />}
+              </TouchableOpacity>
+            ))}
+
+            {/* Rule Settings */}
+            <Text style={styles.label}>Weight Increment ({weightUnit})</Text>
+            <TextInput
+              style={styles.input}
+              value={increment}
+              onChangeText={setIncrement}
+              keyboardType="numeric"
+            />
+
+            {rule === 'double' && (
+              <>
+                <Text style={styles.label}>Rep Range</Text>
+                <View style={styles.rangeRow}>
+                  <TextInput
+                    style={[styles.input, styles.rangeInput]}
+                    value={repRangeMin}
+                    onChangeText={setRepRangeMin}
+                    keyboardType="numeric"
+                  />
+                  <Text style={styles.rangeSeparator}>to</Text>
+                  <TextInput
+                    style={[styles.input, styles.rangeInput]}
+                    value={repRangeMax}
+                    onChangeText={setRepRangeMax}
+                    keyboardType="numeric"
+                  />
+                </View>
+              </>
+            )}
+
+            {rule === 'percentage' && (
+              <>
+                <Text style={styles.label}>Increase per Session (%)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={percentage}
+                  onChangeText={setPercentage}
+                  keyboardType="numeric"
+                />
+              </>
+            )}
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  modalSubtext: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 20,
+  },
+  ruleOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  ruleOptionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#f0f7ff',
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleLabel: {
+    fontSize: 16,
+    color: '#000',
+  },
+  ruleLabelSelected: {
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  ruleDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rangeInput: {
+    flex: 1,
+  },
+  rangeSeparator: {
+    fontSize: 16,
+    color: '#666',
+    marginHorizontal: 12,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ProgressionSettingsModal;
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { QUICK_PICK_MULTIPLIERS, formatMultiplier, scaleQuickPick } from '../utils/quickPicks';
+
+interface QuickPicksProps {
+  favorites: any[];
+  recent: any[];
+  frequent: any[];
+  disabled: boolean;
+  onPick: (pick: any, multiplier: number) => void;
+  onToggleFavorite: (pick: any) => void;
+}
+
+const TABS = [
+  { id: 'favorites', label: 'Favorites' },
+  { id: 'recent', label: 'Recent' },
+  { id: 'frequent', label: 'Frequent' },
+];
+
+const QuickPicks = ({ favorites, recent, frequent, disabled, onPick, onToggleFavorite }: QuickPicksProps) => {
+  const [tab, setTab] = useState(() => (favorites.length > 0 ? 'favorites' : 'recent'));
+  const [multiplier, setMultiplier] = useState(1);
+
+  if (favorites.length === 0 && recent.length === 0) return null;
+
+  const picks = tab === 'favorites' ? favorites : tab === 'recent' ? recent : frequent;
+  const favoriteKeys = new Set(favorites.map((favorite) => favorite.key));
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Quick Add Again</Text>
+      <View style={styles.tabs}>
+        {TABS.map(({ id, label }) => (
+          <TouchableOpacity
+            key={id}
+            style={[styles.tab, tab === id && styles.tabSelected]}
+            onPress={() => setTab(id)}
+          >
+            <Text style={[styles.tabText, tab === id && styles.tabTextSelected]}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.multipliers}>
+        {QUICK_PICK_MULTIPLIERS.map((value) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.multiplierChip, multiplier === value && styles.multiplierChipSelected]}
+            onPress={() => setMultiplier(value)}
+          >
+            <Text style={[styles.multiplierText, multiplier === value && styles.multiplierTextSelected]}>
+              {formatMultiplier(value)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {picks.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {tab === 'favorites'
+            ? 'Star an entry or a recent food to keep it here'
+            : tab === 'recent'
+              ? 'Foods you log will show up here'
+              : 'Foods you log more than once will show up here'}
+        </Text>
+      ) : (
+        picks.map((pick) => {
+          const { amount } = scaleQuickPick(pick, multiplier);
+          const isFavorite = favoriteKeys.has(pick.key);
+          return (
+            <View key={pick.key} style={styles.pickRow}>
+              <TouchableOpacity
+                style={styles.pickInfo}
+                onPress={() => onPick(pick, multiplier)}
+                disabled={disabled}
+              >
+                <Text style={styles.pickName} numberOfLines={1}>{pick.description}</Text>
+                <Text style={styles.pickDetails}>
+                  {amount} cal{pick.count > 1 ? ` · logged ${pick.count}×` : ''}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => onToggleFavorite(pick)} disabled={disabled}>
+                <Ionicons name={isFavorite ? 'star' : 'star-outline'} size={20} color="#FF9500" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => onPick(pick, multiplier)} disabled={disabled}>
+                <Ionicons name="add-circle" size={26} color="#007AFF" />
+              </TouchableOpacity>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 8,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  tabSelected: {
+    backgroundColor: '#fff',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  tabTextSelected: {
+    color: '#007AFF',
+  },
+  multipliers: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  multiplierChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#fff',
+  },
+  multiplierChipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  multiplierText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  multiplierTextSelected: {
+    color: '#fff',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    fontStyle: 'italic',
+    paddingVertical: 8,
+  },
+  pickRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    marginBottom: 6,
+  },
+  pickInfo: {
+    flex: 1,
+  },
+  pickName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  pickDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 4,
+    marginLeft: 6,
+  },
+});
+
+export default QuickPicks;
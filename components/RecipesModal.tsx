@@ -0,0 +1,464 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { createRecipe, updateRecipe, deleteRecipe } from '../firestore';
+import { getRecipeServingNutrition, getRecipeTotals, validateRecipe } from '../utils/recipes';
+import FoodSearchModal, { FoodPortion } from './FoodSearchModal';
+
+interface RecipesModalProps {
+  visible: boolean;
+  recipes: any[];
+  foods: any[];
+  userId: string | undefined;
+  logging: boolean;
+  onClose: () => void;
+  onLog: (recipe: any, servingsEaten: number) => void;
+  onRecipesChange: () => void;
+  onFoodsChange: () => void;
+}
+
+const describeNutrition = (nutrition: { calories: number; protein: number; carbs: number; fat: number }) =>
+  `${nutrition.calories} cal · P: ${nutrition.protein}g · C: ${nutrition.carbs}g · F: ${nutrition.fat}g`;
+
+const RecipesModal = ({
+  visible,
+  recipes,
+  foods,
+  userId,
+  logging,
+  onClose,
+  onLog,
+  onRecipesChange,
+  onFoodsChange,
+}: RecipesModalProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingRecipeId, setEditingRecipeId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [servings, setServings] = useState('');
+  const [ingredients, setIngredients] = useState<FoodPortion[]>([]);
+  const [showIngredientSearch, setShowIngredientSearch] = useState(false);
+  const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
+  const [servingsEaten, setServingsEaten] = useState('1');
+  const [saving, setSaving] = useState(false);
+
+  // Start on the recipe list every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setIsEditing(false);
+      setSelectedRecipeId(null);
+    }
+  }, [visible]);
+
+  const parsedServings = parseFloat(servings);
+  const perServing = getRecipeServingNutrition(ingredients, parsedServings > 0 ? parsedServings : 1);
+
+  const startEditing = (recipe: any | null) => {
+    setEditingRecipeId(recipe?.id || null);
+    setName(recipe?.name || '');
+    setServings(recipe ? String(recipe.servings) : '4');
+    setIngredients(recipe?.ingredients || []);
+    setIsEditing(true);
+  };
+
+  const handleAddIngredient = (portion: FoodPortion) => {
+    setIngredients((prev) => [...prev, portion]);
+    setShowIngredientSearch(false);
+  };
+
+  const handleSave = async () => {
+    if (!userId) return;
+
+    const error = validateRecipe(name, ingredients, parsedServings);
+    if (error) {
+      Alert.alert('Incomplete Recipe', error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingRecipeId) {
+        await updateRecipe(editingRecipeId, { name, ingredients, servings: parsedServings });
+      } else {
+        await createRecipe(userId, name, ingredients, parsedServings);
+      }
+      onRecipesChange();
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      Alert.alert('Error', 'Failed to save recipe. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (recipe: any) => {
+    Alert.alert('Delete Recipe', `Delete "${recipe.name}"? Logged meals are not affected.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteRecipe(recipe.id);
+            onRecipesChange();
+          } catch (error) {
+            console.error('Error deleting recipe:', error);
+            Alert.alert('Error', 'Failed to delete recipe.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleLog = (recipe: any) => {
+    const eaten = parseFloat(servingsEaten);
+    if (isNaN(eaten) || eaten <= 0) {
+      Alert.alert('Invalid Servings', 'Please enter how many servings you had');
+      return;
+    }
+    onLog(recipe, eaten);
+  };
+
+  const selectRecipe = (recipeId: string) => {
+    setSelectedRecipeId(selectedRecipeId === recipeId ? null : recipeId);
+    setServingsEaten('1');
+  };
+
+  const renderEditor = () => (
+    <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+      <Text style={styles.label}>Name</Text>
+      <TextInput style={styles.input} placeholder="e.g., Turkey Chili" value={name} onChangeText={setName} />
+
+      <Text style={styles.label}>Servings Made</Text>
+      <TextInput style={styles.input} value={servings} onChangeText={setServings} keyboardType="decimal-pad" />
+
+      <Text style={styles.label}>Ingredients</Text>
+      {ingredients.length === 0 ? (
+        <Text style={styles.hintText}>Add the foods that go into this recipe</Text>
+      ) : (
+        ingredients.map((ingredient, index) => (
+          <View key={index} style={styles.ingredientRow}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.ingredientName}>{ingredient.description}</Text>
+              <Text style={styles.rowDetails}>{describeNutrition(ingredient)}</Text>
+            </View>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => setIngredients((prev) => prev.filter((_, i) => i !== index))}
+            >
+              <Ionicons name="close-circle-outline" size={22} color="#FF3B30" />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+      <TouchableOpacity style={styles.createRow} onPress={() => setShowIngredientSearch(true)}>
+        <Ionicons name="add-circle-outline" size={22} color="#007AFF" />
+        <Text style={styles.createRowText}>Add Ingredient</Text>
+      </TouchableOpacity>
+
+      {ingredients.length > 0 && (
+        <View style={styles.previewCard}>
+          <Text style={styles.previewCalories}>{perServing.calories} cal per serving</Text>
+          <Text style={styles.previewMacros}>
+            P: {perServing.protein}g · C: {perServing.carbs}g · F: {perServing.fat}g
+          </Text>
+          <Text style={styles.previewTotal}>Whole recipe: {getRecipeTotals(ingredients).calories} cal</Text>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, saving && styles.disabledButton]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Save Recipe</Text>}
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => setIsEditing(false)}>
+        <Text style={styles.secondaryButtonText}>Back to Recipes</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderList = () => (
+    <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+      <TouchableOpacity style={styles.createRow} onPress={() => startEditing(null)}>
+        <Ionicons name="add-circle-outline" size={22} color="#007AFF" />
+        <Text style={styles.createRowText}>New Recipe</Text>
+      </TouchableOpacity>
+
+      {recipes.length === 0 ? (
+        <Text style={styles.emptyText}>No recipes yet. Build one from the foods you cook with.</Text>
+      ) : (
+        recipes.map((recipe) => (
+          <View key={recipe.id} style={styles.recipeCard}>
+            <TouchableOpacity style={styles.recipeRow} onPress={() => selectRecipe(recipe.id)}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.recipeName}>{recipe.name}</Text>
+                <Text style={styles.rowDetails}>
+                  {describeNutrition(getRecipeServingNutrition(recipe.ingredients || [], recipe.servings))} per serving
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.iconButton} onPress={() => startEditing(recipe)}>
+                <Ionicons name="create-outline" size={20} color="#007AFF" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(recipe)}>
+                <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+              </TouchableOpacity>
+            </TouchableOpacity>
+
+            {selectedRecipeId === recipe.id && (
+              <View style={styles.logRow}>
+                <TextInput
+                  style={[styles.input, styles.servingsInput]}
+                  value={servingsEaten}
+                  onChangeText={setServingsEaten}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.servingsLabel}>servings</Text>
+                <TouchableOpacity
+                  style={[styles.logButton, logging && styles.disabledButton]}
+                  onPress={() => handleLog(recipe)}
+                  disabled={logging}
+                >
+                  {logging ? <ActivityIndicator color="#fff" /> : <Text style={styles.logButtonText}>Log</Text>}
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEditing ? (editingRecipeId ? 'Edit Recipe' : 'New Recipe') : 'Recipes'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          {isEditing ? renderEditor() : renderList()}
+        </View>
+      </View>
+
+      <FoodSearchModal
+        visible={showIngredientSearch}
+        foods={foods}
+        userId={userId}
+        onClose={() => setShowIngredientSearch(false)}
+        onSelect={handleAddIngredient}
+        onFoodsChange={onFoodsChange}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '85%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginBottom: 8,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  createRowText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  ingredientName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  recipeCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  recipeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  recipeName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  rowDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingBottom: 14,
+  },
+  servingsInput: {
+    width: 70,
+    textAlign: 'center',
+    marginBottom: 0,
+  },
+  servingsLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  logButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  logButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  previewCard: {
+    backgroundColor: '#E6F4FE',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  previewCalories: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  previewMacros: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  previewTotal: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default RecipesModal;
@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { WATER_UNITS, convertFromMl, convertToMl, resolveWaterSettings } from '../utils/water';
+
+interface WaterSettingsModalProps {
+  visible: boolean;
+  settings: any;
+  onClose: () => void;
+  onSave: (settings: any) => void;
+}
+
+const WaterSettingsModal = ({ visible, settings, onClose, onSave }: WaterSettingsModalProps) => {
+  const [unit, setUnit] = useState('ml');
+  const [goal, setGoal] = useState('');
+  const [containerSizes, setContainerSizes] = useState<Record<string, string>>({});
+  const [shareWithFriends, setShareWithFriends] = useState(false);
+
+  const resolved = resolveWaterSettings(settings);
+
+  // Show the saved settings every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      const current = resolveWaterSettings(settings);
+      setUnit(current.unit);
+      setGoal(String(convertFromMl(current.goalMl, current.unit)));
+      setContainerSizes(
+        Object.fromEntries(current.containers.map((container) => [container.id, String(convertFromMl(container.ml, current.unit))]))
+      );
+      setShareWithFriends(current.shareWithFriends);
+    }
+  }, [visible, settings]);
+
+  // Switching units converts what's been typed so far
+  const changeUnit = (nextUnit: string) => {
+    if (nextUnit === unit) return;
+
+    const convert = (text: string) => {
+      const value = parseFloat(text);
+      return isNaN(value) ? text : String(convertFromMl(convertToMl(value, unit), nextUnit));
+    };
+    setGoal(convert(goal));
+    setContainerSizes((prev) => Object.fromEntries(Object.entries(prev).map(([id, text]) => [id, convert(text)])));
+    setUnit(nextUnit);
+  };
+
+  const handleSave = () => {
+    const goalValue = parseFloat(goal);
+    if (isNaN(goalValue) || goalValue <= 0) {
+      Alert.alert('Invalid Goal', 'Please enter a daily water goal greater than 0');
+      return;
+    }
+
+    const containers = [];
+    for (const container of resolved.containers) {
+      const size = parseFloat(containerSizes[container.id] || '');
+      if (isNaN(size) || size <= 0) {
+        Alert.alert('Invalid Size', `Please enter a ${container.label.toLowerCase()} size greater than 0`);
+        return;
+      }
+      containers.push({ id: container.id, label: container.label, ml: convertToMl(size, unit) });
+    }
+
+    onSave({ unit, goalMl: convertToMl(goalValue, unit), containers, shareWithFriends });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Water Settings</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            {/* Units */}
+            <Text style={styles.sectionLabel}>Units</Text>
+            <View style={styles.unitRow}>
+              {WATER_UNITS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.unitChip, unit === option && styles.unitChipSelected]}
+                  onPress={() => changeUnit(option)}
+                >
+                  <Text style={[styles.unitChipText, unit === option && styles.unitChipTextSelected]}>{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>Daily Goal</Text>
+              <TextInput
+                style={[styles.input, styles.settingInput]}
+                value={goal}
+                onChangeText={setGoal}
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.settingUnit}>{unit}</Text>
+            </View>
+
+            {/* Quick Add Sizes */}
+            <Text style={styles.sectionLabel}>Quick Add Sizes</Text>
+            {resolved.containers.map((container) => (
+              <View key={container.id} style={styles.settingRow}>
+                <Text style={styles.settingLabel}>{container.label}</Text>
+                <TextInput
+                  style={[styles.input, styles.settingInput]}
+                  value={containerSizes[container.id] || ''}
+                  onChangeText={(text) => setContainerSizes((prev) => ({ ...prev, [container.id]: text }))}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.settingUnit}>{unit}</Text>
+              </View>
+            ))}
+
+            {/* Friend Visibility */}
+            <View style={styles.shareRow}>
+              <View style={styles.shareInfo}>
+                <Text style={styles.settingLabel}>Show water to friends</Text>
+                <Text style={styles.shareHint}>Friends see today&apos;s water next to your calories</Text>
+              </View>
+              <Switch value={shareWithFriends} onValueChange={setShareWithFriends} />
+            </View>
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  unitRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  unitChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    backgroundColor: '#fff',
+  },
+  unitChipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  unitChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  unitChipTextSelected: {
+    color: '#fff',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  settingLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  settingInput: {
+    width: 100,
+    textAlign: 'center',
+  },
+  settingUnit: {
+    width: 32,
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 16,
+    marginTop: 4,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  shareInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  shareHint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default WaterSettingsModal;
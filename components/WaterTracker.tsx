@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatWaterAmount, formatWaterProgress, resolveWaterSettings } from '../utils/water';
+
+interface WaterTrackerProps {
+  totalMl: number;
+  settings: any;
+  disabled: boolean;
+  onAdd: (ml: number) => void;
+  onOpenSettings: () => void;
+}
+
+const WaterTracker = ({ totalMl, settings, disabled, onAdd, onOpenSettings }: WaterTrackerProps) => {
+  const { unit, goalMl, containers } = resolveWaterSettings(settings);
+  const fraction = Math.min(1, totalMl / goalMl);
+  const goalReached = totalMl >= goalMl;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>💧 Water</Text>
+        <TouchableOpacity onPress={onOpenSettings} style={styles.settingsButton}>
+          <Ionicons name="settings-outline" size={20} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.total, goalReached && styles.totalReached]}>{formatWaterProgress(totalMl, settings)}</Text>
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${Math.round(fraction * 100)}%` }]} />
+      </View>
+
+      {containers.map((container) => (
+        <View key={container.id} style={styles.containerRow}>
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => onAdd(-Math.min(container.ml, totalMl))}
+            disabled={disabled || totalMl <= 0}
+          >
+            <Ionicons name="remove" size={20} color={totalMl > 0 ? '#007AFF' : '#ccc'} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addButton} onPress={() => onAdd(container.ml)} disabled={disabled}>
+            <Text style={styles.addButtonText}>
+              + {container.label} ({formatWaterAmount(container.ml, unit)})
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000',
+  },
+  settingsButton: {
+    padding: 4,
+  },
+  total: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginTop: 8,
+  },
+  totalReached: {
+    color: '#34C759',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E6F4FE',
+    overflow: 'hidden',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: '#007AFF',
+  },
+  containerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  removeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#f5f5f5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButton: {
+    flex: 1,
+    backgroundColor: '#E6F4FE',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default WaterTracker;
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  getUserWorkoutTemplates,
+  updateWorkoutTemplate,
+  deleteWorkoutTemplate,
+  duplicateWorkoutTemplate,
+  reorderWorkoutTemplates,
+} from '../firestore';
+
+interface WorkoutTemplatesModalProps {
+  visible: boolean;
+  userId: string | undefined;
+  onClose: () => void;
+  onSelect: (template: any) => void;
+}
+
+const WorkoutTemplatesModal = ({ visible, userId, onClose, onSelect }: WorkoutTemplatesModalProps) => {
+  const [templates, setTemplates] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const loadTemplates = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const templateData = await getUserWorkoutTemplates(userId);
+      setTemplates(templateData);
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  // Reload templates every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      loadTemplates();
+    }
+  }, [visible, loadTemplates]);
+
+  const handleMove = async (index: number, direction: number) => {
+    const target = index + direction;
+    if (target < 0 || target >= templates.length) return;
+
+    const reordered = [...templates];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setTemplates(reordered);
+
+    try {
+      await reorderWorkoutTemplates(reordered.map((template) => template.id));
+    } catch (error) {
+      console.error('Error reordering templates:', error);
+      Alert.alert('Error', 'Failed to reorder templates.');
+      loadTemplates();
+    }
+  };
+
+  const handleDuplicate = async (templateId: string) => {
+    try {
+      await duplicateWorkoutTemplate(templateId);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error duplicating template:', error);
+      Alert.alert('Error', 'Failed to duplicate template.');
+    }
+  };
+
+  const handleDelete = (template: any) => {
+    Alert.alert(
+      'Delete Template',
+      `Are you sure you want to delete "${template.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteWorkoutTemplate(template.id);
+              const remaining = templates.filter((t) => t.id !== template.id);
+              setTemplates(remaining);
+              // Close the gap left in the stored order
+              await reorderWorkoutTemplates(remaining.map((t) => t.id));
+            } catch (error) {
+              console.error('Error deleting template:', error);
+              Alert.alert('Error', 'Failed to delete template.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRename = async (templateId: string) => {
+    if (!renameValue.trim()) {
+      Alert.alert('Name Required', 'Please enter a template name');
+      return;
+    }
+
+    try {
+      await updateWorkoutTemplate(templateId, { name: renameValue.trim() });
+      setTemplates((prev) =>
+        prev.map((t) => (t.id === templateId ? { ...t, name: renameValue.trim() } : t))
+      );
+      setRenamingId(null);
+    } catch (error) {
+      console.error('Error renaming template:', error);
+      Alert.alert('Error', 'Failed to rename template.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          {/* Modal Header */}
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Start from Template</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={28} color="#000" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} contentContainerStyle={styles.modalBodyContent}>
+            {loading ? (
+              <ActivityIndicator size="large" color="#007AFF" style={styles.loader} />
+            ) : templates.length === 0 ? (
+              <Text style={styles.emptyText}>
+                No templates yet. Log a workout and tap &quot;Save as Template&quot; to create one.
+              </Text>
+            ) : (
+              templates.map((template, index) => (
+                <View key={template.id} style={styles.templateRow}>
+                  {renamingId === template.id ? (
+                    <View style={styles.renameRow}>
+                      <TextInput
+                        style={styles.renameInput}
+                        value={renameValue}
+                        onChangeText={setRenameValue}
+                        autoFocus
+                      />
+                      <TouchableOpacity style={styles.iconButton} onPress={() => handleRename(template.id)}>
+                        <Ionicons name="checkmark" size={22} color="#34C759" />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.iconButton} onPress={() => setRenamingId(null)}>
+                        <Ionicons name="close" size={22} color="#666" />
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <TouchableOpacity style={styles.templateInfo} onPress={() => onSelect(template)}>
+                      <Text style={styles.templateName}>{template.name}</Text>
+                      <Text style={styles.templateDetails}>
+                        {template.muscleGroup ? `${template.muscleGroup} · ` : ''}
+                        {(template.exercises || []).length} exercises
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {/* Template Actions */}
+                  <View style={styles.actionsRow}>
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                    >
+                      <Ionicons name="chevron-up" size={20} color={index === 0 ? '#ccc' : '#007AFF'} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => handleMove(index, 1)}
+                      disabled={index === templates.length - 1}
+                    >
+                      <Ionicons
+                        name="chevron-down"
+                        size={20}
+                        color={index === templates.length - 1 ? '#ccc' : '#007AFF'}
+                      />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => {
+                        setRenamingId(template.id);
+                        setRenameValue(template.name);
+                      }}
+                    >
+                      <Ionicons name="pencil-outline" size={20} color="#007AFF" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleDuplicate(template.id)}>
+                      <Ionicons name="copy-outline" size={20} color="#007AFF" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(template)}>
+                      <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    height: '80%',
+    flexDirection: 'column',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#000',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalBody: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  modalBodyContent: {
+    paddingBottom: 40,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  templateRow: {
+    padding: 16,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  templateInfo: {
+    marginBottom: 8,
+  },
+  templateName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  templateDetails: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  renameInput: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+});
+
+export default WorkoutTemplatesModal;
@@ -0,0 +1,86 @@
+/**
+ * Built-in exercise catalog and muscle groups
+ */
+
+// Muscle groups exercises can target
+export const MUSCLE_GROUPS = [
+  'Chest',
+  'Back',
+  'Shoulders',
+  'Biceps',
+  'Triceps',
+  'Forearms',
+  'Core',
+  'Glutes',
+  'Quads',
+  'Hamstrings',
+  'Calves',
+  'Full Body',
+  'Cardio',
+  'Sport',
+];
+
+// Equipment types, used to decide which tools (e.g. plate calculator) apply
+export const EQUIPMENT_TYPES = ['barbell', 'dumbbell', 'machine', 'cable', 'bodyweight', 'kettlebell', 'other'];
+
+// Built-in exercises with primary and secondary muscle groups
+export const EXERCISE_CATALOG = [
+  // Chest
+  { id: 'bench-press', name: 'Bench Press', primaryMuscles: ['Chest'], secondaryMuscles: ['Triceps', 'Shoulders'], equipment: 'barbell' },
+  { id: 'incline-bench-press', name: 'Incline Bench Press', primaryMuscles: ['Chest'], secondaryMuscles: ['Shoulders', 'Triceps'], equipment: 'barbell' },
+  { id: 'dumbbell-bench-press', name: 'Dumbbell Bench Press', primaryMuscles: ['Chest'], secondaryMuscles: ['Triceps', 'Shoulders'], equipment: 'dumbbell' },
+  { id: 'chest-fly', name: 'Chest Fly', primaryMuscles: ['Chest'], secondaryMuscles: ['Shoulders'], equipment: 'cable' },
+  { id: 'push-up', name: 'Push-Up', primaryMuscles: ['Chest'], secondaryMuscles: ['Triceps', 'Shoulders', 'Core'], equipment: 'bodyweight' },
+  { id: 'dip', name: 'Dip', primaryMuscles: ['Chest', 'Triceps'], secondaryMuscles: ['Shoulders'], equipment: 'bodyweight' },
+
+  // Back
+  { id: 'deadlift', name: 'Deadlift', primaryMuscles: ['Back', 'Hamstrings', 'Glutes'], secondaryMuscles: ['Forearms', 'Core', 'Quads'], equipment: 'barbell' },
+  { id: 'barbell-row', name: 'Barbell Row', primaryMuscles: ['Back'], secondaryMuscles: ['Biceps', 'Forearms'], equipment: 'barbell' },
+  { id: 'dumbbell-row', name: 'Dumbbell Row', primaryMuscles: ['Back'], secondaryMuscles: ['Biceps'], equipment: 'dumbbell' },
+  { id: 'pull-up', name: 'Pull-Up', primaryMuscles: ['Back'], secondaryMuscles: ['Biceps', 'Forearms'], equipment: 'bodyweight' },
+  { id: 'lat-pulldown', name: 'Lat Pulldown', primaryMuscles: ['Back'], secondaryMuscles: ['Biceps'], equipment: 'cable' },
+  { id: 'seated-cable-row', name: 'Seated Cable Row', primaryMuscles: ['Back'], secondaryMuscles: ['Biceps'], equipment: 'cable' },
+
+  // Shoulders
+  { id: 'overhead-press', name: 'Overhead Press', primaryMuscles: ['Shoulders'], secondaryMuscles: ['Triceps', 'Core'], equipment: 'barbell' },
+  { id: 'dumbbell-shoulder-press', name: 'Dumbbell Shoulder Press', primaryMuscles: ['Shoulders'], secondaryMuscles: ['Triceps'], equipment: 'dumbbell' },
+  { id: 'lateral-raise', name: 'Lateral Raise', primaryMuscles: ['Shoulders'], secondaryMuscles: [], equipment: 'dumbbell' },
+  { id: 'face-pull', name: 'Face Pull', primaryMuscles: ['Shoulders'], secondaryMuscles: ['Back'], equipment: 'cable' },
+
+  // Arms
+  { id: 'barbell-curl', name: 'Barbell Curl', primaryMuscles: ['Biceps'], secondaryMuscles: ['Forearms'], equipment: 'barbell' },
+  { id: 'dumbbell-curl', name: 'Dumbbell Curl', primaryMuscles: ['Biceps'], secondaryMuscles: ['Forearms'], equipment: 'dumbbell' },
+  { id: 'hammer-curl', name: 'Hammer Curl', primaryMuscles: ['Biceps', 'Forearms'], secondaryMuscles: [], equipment: 'dumbbell' },
+  { id: 'triceps-pushdown', name: 'Triceps Pushdown', primaryMuscles: ['Triceps'], secondaryMuscles: [], equipment: 'cable' },
+  { id: 'skull-crusher', name: 'Skull Crusher', primaryMuscles: ['Triceps'], secondaryMuscles: [], equipment: 'barbell' },
+  { id: 'close-grip-bench-press', name: 'Close-Grip Bench Press', primaryMuscles: ['Triceps'], secondaryMuscles: ['Chest', 'Shoulders'], equipment: 'barbell' },
+  { id: 'wrist-curl', name: 'Wrist Curl', primaryMuscles: ['Forearms'], secondaryMuscles: [], equipment: 'dumbbell' },
+  { id: 'farmers-carry', name: "Farmer's Carry", primaryMuscles: ['Forearms'], secondaryMuscles: ['Core', 'Back'], equipment: 'dumbbell' },
+
+  // Legs
+  { id: 'squat', name: 'Squat', primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings', 'Core'], equipment: 'barbell' },
+  { id: 'front-squat', name: 'Front Squat', primaryMuscles: ['Quads'], secondaryMuscles: ['Glutes', 'Core'], equipment: 'barbell' },
+  { id: 'leg-press', name: 'Leg Press', primaryMuscles: ['Quads'], secondaryMuscles: ['Glutes'], equipment: 'machine' },
+  { id: 'lunge', name: 'Lunge', primaryMuscles: ['Quads', 'Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'dumbbell' },
+  { id: 'romanian-deadlift', name: 'Romanian Deadlift', primaryMuscles: ['Hamstrings'], secondaryMuscles: ['Glutes', 'Back'], equipment: 'barbell' },
+  { id: 'leg-curl', name: 'Leg Curl', primaryMuscles: ['Hamstrings'], secondaryMuscles: [], equipment: 'machine' },
+  { id: 'leg-extension', name: 'Leg Extension', primaryMuscles: ['Quads'], secondaryMuscles: [], equipment: 'machine' },
+  { id: 'hip-thrust', name: 'Hip Thrust', primaryMuscles: ['Glutes'], secondaryMuscles: ['Hamstrings'], equipment: 'barbell' },
+  { id: 'calf-raise', name: 'Calf Raise', primaryMuscles: ['Calves'], secondaryMuscles: [], equipment: 'machine' },
+
+  // Core
+  { id: 'plank', name: 'Plank', primaryMuscles: ['Core'], secondaryMuscles: ['Shoulders'], equipment: 'bodyweight' },
+  { id: 'hanging-leg-raise', name: 'Hanging Leg Raise', primaryMuscles: ['Core'], secondaryMuscles: ['Forearms'], equipment: 'bodyweight' },
+  { id: 'cable-crunch', name: 'Cable Crunch', primaryMuscles: ['Core'], secondaryMuscles: [], equipment: 'cable' },
+  { id: 'russian-twist', name: 'Russian Twist', primaryMuscles: ['Core'], secondaryMuscles: [], equipment: 'bodyweight' },
+
+  // Full body and conditioning
+  { id: 'power-clean', name: 'Power Clean', primaryMuscles: ['Full Body'], secondaryMuscles: ['Back', 'Quads', 'Shoulders'], equipment: 'barbell' },
+  { id: 'kettlebell-swing', name: 'Kettlebell Swing', primaryMuscles: ['Glutes', 'Hamstrings'], secondaryMuscles: ['Core', 'Back'], equipment: 'kettlebell' },
+  { id: 'burpee', name: 'Burpee', primaryMuscles: ['Full Body'], secondaryMuscles: ['Cardio'], equipment: 'bodyweight' },
+  { id: 'running', name: 'Running', primaryMuscles: ['Cardio'], secondaryMuscles: ['Quads', 'Calves'], equipment: 'other' },
+  { id: 'cycling', name: 'Cycling', primaryMuscles: ['Cardio'], secondaryMuscles: ['Quads'], equipment: 'other' },
+  { id: 'rowing', name: 'Rowing', primaryMuscles: ['Cardio'], secondaryMuscles: ['Back'], equipment: 'machine' },
+  { id: 'basketball', name: 'Basketball', primaryMuscles: ['Sport'], secondaryMuscles: ['Cardio'], equipment: 'other' },
+  { id: 'soccer', name: 'Soccer', primaryMuscles: ['Sport'], secondaryMuscles: ['Cardio'], equipment: 'other' },
+];
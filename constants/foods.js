@@ -0,0 +1,66 @@
+/**
+ * Built-in food catalog
+ * Calories and macros (grams) are for each food's first serving; other serving
+ * sizes give their size relative to it with scale
+ */
+
+export const FOOD_CATALOG = [
+  // Protein
+  { id: 'chicken-breast', name: 'Chicken Breast (cooked)', servings: [{ label: '100 g', scale: 1 }, { label: '1 breast (170 g)', scale: 1.7 }, { label: '1 oz', scale: 0.28 }], calories: 165, protein: 31, carbs: 0, fat: 3.6 },
+  { id: 'chicken-thigh', name: 'Chicken Thigh (cooked)', servings: [{ label: '100 g', scale: 1 }, { label: '1 thigh (115 g)', scale: 1.15 }], calories: 209, protein: 26, carbs: 0, fat: 10.9 },
+  { id: 'ground-beef-90', name: 'Ground Beef 90% Lean (cooked)', servings: [{ label: '100 g', scale: 1 }, { label: '4 oz', scale: 1.13 }], calories: 217, protein: 26, carbs: 0, fat: 11.7 },
+  { id: 'steak-sirloin', name: 'Sirloin Steak (cooked)', servings: [{ label: '100 g', scale: 1 }, { label: '6 oz', scale: 1.7 }], calories: 206, protein: 29, carbs: 0, fat: 9 },
+  { id: 'turkey-breast', name: 'Turkey Breast (deli)', servings: [{ label: '2 oz', scale: 1 }, { label: '1 slice (28 g)', scale: 0.5 }], calories: 60, protein: 12, carbs: 1, fat: 0.5 },
+  { id: 'salmon', name: 'Salmon (cooked)', servings: [{ label: '100 g', scale: 1 }, { label: '1 fillet (150 g)', scale: 1.5 }], calories: 206, protein: 22, carbs: 0, fat: 12.4 },
+  { id: 'tuna-canned', name: 'Tuna (canned in water)', servings: [{ label: '1 can (142 g)', scale: 1 }, { label: '100 g', scale: 0.7 }], calories: 179, protein: 39, carbs: 0, fat: 1.3 },
+  { id: 'shrimp', name: 'Shrimp (cooked)', servings: [{ label: '100 g', scale: 1 }, { label: '3 oz', scale: 0.85 }], calories: 99, protein: 24, carbs: 0.2, fat: 0.3 },
+  { id: 'egg', name: 'Egg', servings: [{ label: '1 large', scale: 1 }, { label: '100 g', scale: 2 }], calories: 72, protein: 6.3, carbs: 0.4, fat: 4.8 },
+  { id: 'egg-white', name: 'Egg Whites', servings: [{ label: '1 large white', scale: 1 }, { label: '1 cup', scale: 7.3 }], calories: 17, protein: 3.6, carbs: 0.2, fat: 0.1 },
+  { id: 'tofu-firm', name: 'Tofu (firm)', servings: [{ label: '100 g', scale: 1 }, { label: '1/2 cup', scale: 1.26 }], calories: 144, protein: 17, carbs: 2.8, fat: 8.7 },
+  { id: 'whey-protein', name: 'Whey Protein Powder', servings: [{ label: '1 scoop (30 g)', scale: 1 }], calories: 120, protein: 24, carbs: 3, fat: 1.5 },
+
+  // Dairy
+  { id: 'milk-2', name: 'Milk (2%)', servings: [{ label: '1 cup', scale: 1 }, { label: '100 ml', scale: 0.41 }], calories: 122, protein: 8, carbs: 12, fat: 4.8 },
+  { id: 'milk-skim', name: 'Milk (skim)', servings: [{ label: '1 cup', scale: 1 }, { label: '100 ml', scale: 0.41 }], calories: 83, protein: 8.3, carbs: 12, fat: 0.2 },
+  { id: 'greek-yogurt', name: 'Greek Yogurt (plain, nonfat)', servings: [{ label: '170 g container', scale: 1 }, { label: '1 cup', scale: 1.35 }], calories: 100, protein: 17, carbs: 6, fat: 0.7 },
+  { id: 'cottage-cheese', name: 'Cottage Cheese (2%)', servings: [{ label: '1/2 cup', scale: 1 }, { label: '1 cup', scale: 2 }], calories: 92, protein: 12, carbs: 5, fat: 2.5 },
+  { id: 'cheddar-cheese', name: 'Cheddar Cheese', servings: [{ label: '1 oz', scale: 1 }, { label: '1 slice (21 g)', scale: 0.75 }], calories: 114, protein: 7, carbs: 0.4, fat: 9.4 },
+
+  // Grains and starches
+  { id: 'white-rice', name: 'White Rice (cooked)', servings: [{ label: '1 cup', scale: 1 }, { label: '100 g', scale: 0.63 }], calories: 205, protein: 4.3, carbs: 45, fat: 0.4 },
+  { id: 'brown-rice', name: 'Brown Rice (cooked)', servings: [{ label: '1 cup', scale: 1 }, { label: '100 g', scale: 0.51 }], calories: 218, protein: 4.5, carbs: 46, fat: 1.6 },
+  { id: 'oats', name: 'Oats (dry)', servings: [{ label: '1/2 cup', scale: 1 }, { label: '100 g', scale: 2.5 }], calories: 150, protein: 5, carbs: 27, fat: 2.5 },
+  { id: 'pasta', name: 'Pasta (cooked)', servings: [{ label: '1 cup', scale: 1 }, { label: '100 g', scale: 0.71 }], calories: 221, protein: 8.1, carbs: 43, fat: 1.3 },
+  { id: 'bread-whole-wheat', name: 'Whole Wheat Bread', servings: [{ label: '1 slice', scale: 1 }], calories: 81, protein: 4, carbs: 14, fat: 1.1 },
+  { id: 'bagel', name: 'Bagel (plain)', servings: [{ label: '1 bagel', scale: 1 }], calories: 277, protein: 11, carbs: 55, fat: 1.4 },
+  { id: 'tortilla-flour', name: 'Flour Tortilla', servings: [{ label: '1 medium (45 g)', scale: 1 }], calories: 140, protein: 3.7, carbs: 23, fat: 3.6 },
+  { id: 'potato', name: 'Potato (baked)', servings: [{ label: '1 medium', scale: 1 }, { label: '100 g', scale: 0.54 }], calories: 161, protein: 4.3, carbs: 37, fat: 0.2 },
+  { id: 'sweet-potato', name: 'Sweet Potato (baked)', servings: [{ label: '1 medium', scale: 1 }, { label: '100 g', scale: 0.88 }], calories: 103, protein: 2.3, carbs: 24, fat: 0.2 },
+  { id: 'quinoa', name: 'Quinoa (cooked)', servings: [{ label: '1 cup', scale: 1 }, { label: '100 g', scale: 0.54 }], calories: 222, protein: 8.1, carbs: 39, fat: 3.6 },
+
+  // Fruit
+  { id: 'banana', name: 'Banana', servings: [{ label: '1 medium', scale: 1 }, { label: '100 g', scale: 0.85 }], calories: 105, protein: 1.3, carbs: 27, fat: 0.4 },
+  { id: 'apple', name: 'Apple', servings: [{ label: '1 medium', scale: 1 }, { label: '100 g', scale: 0.55 }], calories: 95, protein: 0.5, carbs: 25, fat: 0.3 },
+  { id: 'orange', name: 'Orange', servings: [{ label: '1 medium', scale: 1 }], calories: 62, protein: 1.2, carbs: 15, fat: 0.2 },
+  { id: 'blueberries', name: 'Blueberries', servings: [{ label: '1 cup', scale: 1 }, { label: '100 g', scale: 0.68 }], calories: 84, protein: 1.1, carbs: 21, fat: 0.5 },
+  { id: 'strawberries', name: 'Strawberries', servings: [{ label: '1 cup', scale: 1 }, { label: '100 g', scale: 0.66 }], calories: 49, protein: 1, carbs: 12, fat: 0.5 },
+
+  // Vegetables
+  { id: 'broccoli', name: 'Broccoli', servings: [{ label: '1 cup', scale: 1 }, { label: '100 g', scale: 1.1 }], calories: 31, protein: 2.5, carbs: 6, fat: 0.3 },
+  { id: 'spinach', name: 'Spinach (raw)', servings: [{ label: '1 cup', scale: 1 }, { label: '100 g', scale: 3.3 }], calories: 7, protein: 0.9, carbs: 1.1, fat: 0.1 },
+  { id: 'carrot', name: 'Carrot', servings: [{ label: '1 medium', scale: 1 }, { label: '100 g', scale: 1.64 }], calories: 25, protein: 0.6, carbs: 6, fat: 0.1 },
+  { id: 'avocado', name: 'Avocado', servings: [{ label: '1/2 avocado', scale: 1 }, { label: '100 g', scale: 1.48 }], calories: 114, protein: 1.3, carbs: 6, fat: 10.5 },
+
+  // Fats, nuts and snacks
+  { id: 'peanut-butter', name: 'Peanut Butter', servings: [{ label: '2 tbsp', scale: 1 }, { label: '1 tbsp', scale: 0.5 }], calories: 190, protein: 7, carbs: 7, fat: 16 },
+  { id: 'almonds', name: 'Almonds', servings: [{ label: '1 oz (23 nuts)', scale: 1 }, { label: '100 g', scale: 3.53 }], calories: 164, protein: 6, carbs: 6.1, fat: 14.2 },
+  { id: 'olive-oil', name: 'Olive Oil', servings: [{ label: '1 tbsp', scale: 1 }, { label: '1 tsp', scale: 0.33 }], calories: 119, protein: 0, carbs: 0, fat: 13.5 },
+  { id: 'butter', name: 'Butter', servings: [{ label: '1 tbsp', scale: 1 }], calories: 102, protein: 0.1, carbs: 0, fat: 11.5 },
+  { id: 'protein-bar', name: 'Protein Bar', servings: [{ label: '1 bar', scale: 1 }], calories: 200, protein: 20, carbs: 22, fat: 7 },
+  { id: 'dark-chocolate', name: 'Dark Chocolate (70%)', servings: [{ label: '1 oz', scale: 1 }], calories: 170, protein: 2.2, carbs: 13, fat: 12 },
+
+  // Drinks
+  { id: 'orange-juice', name: 'Orange Juice', servings: [{ label: '1 cup', scale: 1 }], calories: 112, protein: 1.7, carbs: 26, fat: 0.5 },
+  { id: 'cola', name: 'Cola', servings: [{ label: '1 can (355 ml)', scale: 1 }], calories: 140, protein: 0, carbs: 39, fat: 0 },
+  { id: 'beer', name: 'Beer (regular)', servings: [{ label: '1 can (355 ml)', scale: 1 }], calories: 153, protein: 1.6, carbs: 13, fat: 0 },
+];
@@ -0,0 +1,137 @@
+/**
+ * Built-in multi-week training programs
+ * Each program lists its weeks, each week its training days in order. Sets with a
+ * percent are loaded from the lift's training max; sets without one are picked by feel
+ */
+
+const sets = (count, reps, percent = null) =>
+  Array.from({ length: count }, () => ({ reps, percent }));
+
+// Last set is "as many reps as possible"
+const withAmrap = (setList) =>
+  setList.map((set, index) => (index === setList.length - 1 ? { ...set, amrap: true } : set));
+
+// 5/3/1 main-lift waves: 5s, 3s, 5/3/1 and a deload
+const WENDLER_WAVES = [
+  [[65, 5], [75, 5], [85, 5]],
+  [[70, 3], [80, 3], [90, 3]],
+  [[75, 5], [85, 3], [95, 1]],
+  [[40, 5], [50, 5], [60, 5]],
+];
+
+const wendlerSets = (weekIndex) => {
+  const wave = WENDLER_WAVES[weekIndex].map(([percent, reps]) => ({ reps, percent }));
+  // No AMRAP set on the deload week
+  return weekIndex === 3 ? wave : withAmrap(wave);
+};
+
+const WENDLER_DAYS = [
+  { name: 'Press', lift: 'overhead-press', accessories: ['pull-up', 'dip'] },
+  { name: 'Deadlift', lift: 'deadlift', accessories: ['hanging-leg-raise', 'lunge'] },
+  { name: 'Bench', lift: 'bench-press', accessories: ['dumbbell-row', 'push-up'] },
+  { name: 'Squat', lift: 'squat', accessories: ['leg-curl', 'hanging-leg-raise'] },
+];
+
+const buildWendlerWeeks = () =>
+  WENDLER_WAVES.map((_, weekIndex) =>
+    WENDLER_DAYS.map(day => ({
+      name: day.name,
+      exercises: [
+        { exerciseId: day.lift, sets: wendlerSets(weekIndex) },
+        ...day.accessories.map(exerciseId => ({ exerciseId, sets: sets(5, 10) })),
+      ],
+    }))
+  );
+
+// Push/pull/legs twice a week, adding 2.5% to the main lifts each week
+const PPL_WEEKS = 4;
+
+const buildPplWeek = (weekIndex) => {
+  const main = 70 + weekIndex * 2.5;
+  const push = {
+    name: 'Push',
+    exercises: [
+      { exerciseId: 'bench-press', sets: sets(4, 6, main) },
+      { exerciseId: 'overhead-press', sets: sets(3, 8, main - 10) },
+      { exerciseId: 'incline-bench-press', sets: sets(3, 10) },
+      { exerciseId: 'lateral-raise', sets: sets(3, 15) },
+      { exerciseId: 'triceps-pushdown', sets: sets(3, 12) },
+    ],
+  };
+  const pull = {
+    name: 'Pull',
+    exercises: [
+      { exerciseId: 'deadlift', sets: sets(3, 5, main + 5) },
+      { exerciseId: 'barbell-row', sets: sets(3, 8, main - 5) },
+      { exerciseId: 'pull-up', sets: sets(3, 8) },
+      { exerciseId: 'face-pull', sets: sets(3, 15) },
+      { exerciseId: 'barbell-curl', sets: sets(3, 12) },
+    ],
+  };
+  const legs = {
+    name: 'Legs',
+    exercises: [
+      { exerciseId: 'squat', sets: sets(4, 6, main) },
+      // Romanian deadlifts are loaded off the deadlift training max
+      { exerciseId: 'romanian-deadlift', lift: 'deadlift', sets: sets(3, 10, main - 20) },
+      { exerciseId: 'leg-press', sets: sets(3, 12) },
+      { exerciseId: 'leg-curl', sets: sets(3, 12) },
+      { exerciseId: 'calf-raise', sets: sets(4, 15) },
+    ],
+  };
+  return [push, pull, legs, push, pull, legs];
+};
+
+// GZCLP rotates four workouts over three days a week: T1 heavy triples,
+// T2 volume tens and T3 accessories, adding 2.5% to T1 and T2 each week
+const GZCLP_WEEKS = 6;
+
+const GZCLP_ROTATION = [
+  { name: 'A1', t1: 'squat', t2: 'bench-press', t3: 'lat-pulldown' },
+  { name: 'B1', t1: 'overhead-press', t2: 'deadlift', t3: 'dumbbell-row' },
+  { name: 'A2', t1: 'bench-press', t2: 'squat', t3: 'lat-pulldown' },
+  { name: 'B2', t1: 'deadlift', t2: 'overhead-press', t3: 'dumbbell-row' },
+];
+
+const buildGzclpWeek = (weekIndex) =>
+  [0, 1, 2].map(dayIndex => {
+    const workout = GZCLP_ROTATION[(weekIndex * 3 + dayIndex) % GZCLP_ROTATION.length];
+    return {
+      name: workout.name,
+      exercises: [
+        { exerciseId: workout.t1, sets: withAmrap(sets(5, 3, 85 + weekIndex * 2.5)) },
+        { exerciseId: workout.t2, sets: sets(3, 10, 65 + weekIndex * 2.5) },
+        { exerciseId: workout.t3, sets: withAmrap(sets(3, 15)) },
+      ],
+    };
+  });
+
+export const PROGRAM_TEMPLATES = [
+  {
+    id: '531',
+    name: '5/3/1',
+    description: 'Four-week waves on the squat, bench, deadlift and press, with a deload week',
+    daysPerWeek: 4,
+    trainingMaxPercent: 90,
+    lifts: ['squat', 'bench-press', 'deadlift', 'overhead-press'],
+    weeks: buildWendlerWeeks(),
+  },
+  {
+    id: 'ppl',
+    name: 'Push Pull Legs',
+    description: 'Six days a week, each muscle group twice, with weekly load increases',
+    daysPerWeek: 6,
+    trainingMaxPercent: 100,
+    lifts: ['bench-press', 'overhead-press', 'deadlift', 'barbell-row', 'squat'],
+    weeks: Array.from({ length: PPL_WEEKS }, (_, weekIndex) => buildPplWeek(weekIndex)),
+  },
+  {
+    id: 'gzclp',
+    name: 'GZCLP',
+    description: 'Three days a week of heavy triples, volume sets and accessories',
+    daysPerWeek: 3,
+    trainingMaxPercent: 90,
+    lifts: ['squat', 'bench-press', 'deadlift', 'overhead-press'],
+    weeks: Array.from({ length: GZCLP_WEEKS }, (_, weekIndex) => buildGzclpWeek(weekIndex)),
+  },
+];
@@ -4,18 +4,28 @@ import {
   arrayUnion,
   collection,
   deleteDoc,
+  deleteField,
   doc,
   getDoc,
   getDocs,
+  increment,
   onSnapshot,
   orderBy,
   query,
   setDoc,
   Timestamp,
   updateDoc,
-  where
+  where,
+  writeBatch
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { computePersonalRecords, detectRecordsByWorkout } from './utils/personalRecords';
+import { DEFAULT_WEIGHT_UNIT, parseLegacyStat } from './utils/stats';
+import { getDailyTotals } from './utils/calorieHistory';
+import { toDateKey } from './utils/dates';
+import { sanitizeNutrients } from './utils/micronutrients';
+import { getBlockType } from './utils/workoutBlocks';
+import { findMatchingPlannedSession, getProgramTemplate, scheduleProgram } from './utils/programs';
 
 // ==================== USERS COLLECTION ====================
 
@@ -263,22 +273,104 @@ export const getUserFriends = async (userId) => {
 
 // ==================== WORKOUTS COLLECTION ====================
 
+/**
+ * Normalize an ordered list of exercises for storage
+ * Drops exercises without a name and sets without valid reps
+ * @param {Array} exercises - Array of { name, sets: [{ reps, weight, rpe }] }
+ * @returns {Array} Sanitized exercises array
+ */
+const sanitizeExercises = (exercises) => {
+  if (!Array.isArray(exercises)) {
+    return [];
+  }
+
+  return exercises
+    .filter(exercise => exercise && exercise.name && exercise.name.trim())
+    .map(exercise => ({
+      name: exercise.name.trim(),
+      // Links the entry to the exercise library; free-text exercises have none
+      ...(exercise.exerciseId ? { exerciseId: exercise.exerciseId } : {}),
+      // Consecutive exercises sharing a blockId form a superset, circuit or interval block
+      ...(exercise.blockId ? { blockId: exercise.blockId } : {}),
+      sets: (exercise.sets || [])
+        .filter(set => set && Number.isFinite(set.reps) && set.reps > 0)
+        .map(set => {
+          const setData = {
+            reps: set.reps,
+            weight: Number.isFinite(set.weight) && set.weight >= 0 ? set.weight : 0
+          };
+
+          // RPE is optional, only store it when it is on the 1-10 scale
+          if (set.rpe != null && set.rpe >= 1 && set.rpe <= 10) {
+            setData.rpe = set.rpe;
+          }
+
+          return setData;
+        })
+    }));
+};
+
+/**
+ * Normalize exercise block settings for storage
+ * Drops blocks of unknown type or that no exercise belongs to
+ * @param {Array} blocks - Array of { id, type, rounds, workSeconds, restSeconds }
+ * @param {Array} exercises - Sanitized exercises the blocks group
+ * @returns {Array} Sanitized blocks array
+ */
+const sanitizeBlocks = (blocks, exercises) => {
+  if (!Array.isArray(blocks)) {
+    return [];
+  }
+
+  const usedIds = new Set(exercises.map(exercise => exercise.blockId).filter(Boolean));
+  const seconds = (value) => (Number.isFinite(value) && value >= 0 ? Math.round(value) : 0);
+
+  return blocks
+    .filter(block => block && usedIds.has(block.id) && getBlockType(block.type))
+    .map(block => ({
+      id: block.id,
+      type: block.type,
+      rounds: Number.isFinite(block.rounds) && block.rounds >= 1 ? Math.round(block.rounds) : 1,
+      workSeconds: seconds(block.workSeconds),
+      restSeconds: seconds(block.restSeconds)
+    }));
+};
+
+/**
+ * Build the muscle group fields stored on a workout
+ * muscleGroups is the source of truth; muscleGroup keeps a display string for older readers
+ * @param {string|Array<string>} muscleGroups - Muscle group or groups worked
+ * @returns {Object} { muscleGroup, muscleGroups }
+ */
+const buildMuscleGroupFields = (muscleGroups) => {
+  const groups = (Array.isArray(muscleGroups) ? muscleGroups : [muscleGroups]).filter(Boolean);
+  return {
+    muscleGroup: groups.join(', '),
+    muscleGroups: groups
+  };
+};
+
 /**
  * Create a new workout
  * @param {string} userId - User ID
  * @param {Date} date - Workout date
  * @param {number} caloriesConsumed - Calories consumed
- * @param {string} muscleGroup - Muscle group worked
+ * @param {string|Array<string>} muscleGroups - Muscle group or groups worked
  * @param {boolean} completed - Whether workout is completed
+ * @param {Array} exercises - Ordered exercises with sets (optional)
+ * @param {Array} blocks - Superset/circuit/interval settings for grouped exercises (optional)
  * @returns {Promise} Workout document reference
  */
-export const createWorkout = async (userId, date, caloriesConsumed, muscleGroup, completed = false) => {
+export const createWorkout = async (userId, date, caloriesConsumed, muscleGroups, completed = false, exercises = [], blocks = []) => {
   try {
+    const sanitizedExercises = sanitizeExercises(exercises);
     const workoutRef = await addDoc(collection(db, 'workouts'), {
       userID: userId,
       date: Timestamp.fromDate(date),
       caloriesConsumed,
-      muscleGroup,
+      ...buildMuscleGroupFields(muscleGroups),
+      exercises: sanitizedExercises,
+      blocks: sanitizeBlocks(blocks, sanitizedExercises),
       completed,
       createdAt: Timestamp.now()
     });
@@ -288,6 +380,87 @@ export const createWorkout = async (userId, date, caloriesConsumed, muscleGroup,
   }
 };
 
+/**
+ * Save a finished live session as a completed workout
+ * @param {string} userId - User ID
+ * @param {string|Array<string>} muscleGroups - Muscle group or groups worked
+ * @param {Array} exercises - Exercises with the sets completed during the session
+ * @param {Date} startedAt - When the session started
+ * @param {Date} endedAt - When the session finished
+ * @param {Array} blocks - Block settings for grouped exercises (optional)
+ * @returns {Promise} Workout document reference
+ */
+export const createWorkoutFromSession = async (userId, muscleGroups, exercises, startedAt, endedAt, blocks = []) => {
+  try {
+    // Session timestamps feed the duration stat automatically
+    const durationMinutes = Math.max(1, Math.round((endedAt.getTime() - startedAt.getTime()) / 60000));
+    const sanitizedExercises = sanitizeExercises(exercises);
+
+    const workoutRef = await addDoc(collection(db, 'workouts'), {
+      userID: userId,
+      date: Timestamp.fromDate(startedAt),
+      caloriesConsumed: 0,
+      ...buildMuscleGroupFields(muscleGroups),
+      exercises: sanitizedExercises,
+      blocks: sanitizeBlocks(blocks, sanitizedExercises),
+      startedAt: Timestamp.fromDate(startedAt),
+      endedAt: Timestamp.fromDate(endedAt),
+      stats: { duration: { value: durationMinutes, unit: 'min' } },
+      completed: true,
+      createdAt: Timestamp.now()
+    });
+    return workoutRef;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Normalize a cardio entry for storage
+ * @param {Object} cardio - { activity, distanceKm, durationMinutes, avgHeartRate, maxHeartRate, elevationGainMeters }
+ * @returns {Object} Sanitized cardio object
+ */
+const sanitizeCardio = (cardio) => {
+  const positiveOrNull = (value) => (Number.isFinite(value) && value > 0 ? value : null);
+
+  return {
+    activity: cardio.activity,
+    distanceKm: positiveOrNull(cardio.distanceKm) || 0,
+    durationMinutes: positiveOrNull(cardio.durationMinutes) || 0,
+    avgHeartRate: positiveOrNull(cardio.avgHeartRate),
+    maxHeartRate: positiveOrNull(cardio.maxHeartRate),
+    elevationGainMeters: positiveOrNull(cardio.elevationGainMeters)
+  };
+};
+
+/**
+ * Create a cardio entry (run, bike, row, swim)
+ * Stored as a completed workout with type 'cardio' so it shows in the daily feed
+ * @param {string} userId - User ID
+ * @param {Date} date - Entry date
+ * @param {Object} cardio - Cardio details (see sanitizeCardio)
+ * @returns {Promise} Workout document reference
+ */
+export const createCardioWorkout = async (userId, date, cardio) => {
+  try {
+    const workoutRef = await addDoc(collection(db, 'workouts'), {
+      userID: userId,
+      date: Timestamp.fromDate(date),
+      caloriesConsumed: 0,
+      ...buildMuscleGroupFields(['Cardio']),
+      exercises: [],
+      type: 'cardio',
+      cardio: sanitizeCardio(cardio),
+      stats: { cardio: { value: cardio.durationMinutes, unit: 'min' } },
+      completed: true,
+      createdAt: Timestamp.now()
+    });
+    return workoutRef;
+  } catch (error) {
+    throw error;
+  }
+};
+
 /**
  * Get all workouts for a user
  * @param {string} userId - User ID
@@ -311,13 +484,14 @@ export const getUserWorkouts = async (userId) => {
 };
 
 /**
- * Get today's workout for a user
+ * Get all workouts a user logged on a given day
  * @param {string} userId - User ID
- * @returns {Promise} Today's workout object or null
+ * @param {Date} date - Any time on the day to fetch
+ * @returns {Promise} Array of workout objects, most recent first
  */
-export const getTodaysWorkout = async (userId) => {
+export const getWorkoutsForDate = async (userId, date) => {
   try {
-    const { startOfDay, endOfDay } = getTodayDateRange();
+    const { startOfDay, endOfDay } = getDateRange(date);
 
     // Simplified query to avoid composite index requirement
     const q = query(
@@ -327,12 +501,9 @@ export const getTodaysWorkout = async (userId) => {
     );
 
     const querySnapshot = await getDocs(q);
-    if (querySnapshot.empty) {
-      return null;
-    }
 
-    // Filter for today and get most recent
-    const todaysWorkouts = querySnapshot.docs
+    // Filter for the day and sort most recent first
+    return querySnapshot.docs
       .map(doc => ({
         id: doc.id,
         ...doc.data()
@@ -343,7 +514,32 @@ export const getTodaysWorkout = async (userId) => {
         return workoutDate <= endDate;
       })
       .sort((a, b) => b.date.toMillis() - a.date.toMillis());
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get all of today's workouts for a user
+ * @param {string} userId - User ID
+ * @returns {Promise} Array of today's workout objects, most recent first
+ */
+export const getTodaysWorkouts = async (userId) => {
+  try {
+    return await getWorkoutsForDate(userId, new Date());
+  } catch (error) {
+    throw error;
+  }
+};
 
+/**
+ * Get today's most recent workout for a user
+ * @param {string} userId - User ID
+ * @returns {Promise} Today's workout object or null
+ */
+export const getTodaysWorkout = async (userId) => {
+  try {
+    const todaysWorkouts = await getTodaysWorkouts(userId);
     return todaysWorkouts.length > 0 ? todaysWorkouts[0] : null;
   } catch (error) {
     throw error;
@@ -381,7 +577,21 @@ export const getCompletedWorkouts = async (userId) => {
  */
 export const updateWorkout = async (workoutId, updates) => {
   try {
-    await updateDoc(doc(db, 'workouts', workoutId), updates);
+    const workoutUpdates = { ...updates };
+    if (workoutUpdates.exercises) {
+      workoutUpdates.exercises = sanitizeExercises(workoutUpdates.exercises);
+      if (workoutUpdates.blocks) {
+        workoutUpdates.blocks = sanitizeBlocks(workoutUpdates.blocks, workoutUpdates.exercises);
+      }
+    }
+    if (workoutUpdates.muscleGroups) {
+      Object.assign(workoutUpdates, buildMuscleGroupFields(workoutUpdates.muscleGroups));
+    }
+    if (workoutUpdates.cardio) {
+      workoutUpdates.cardio = sanitizeCardio(workoutUpdates.cardio);
+    }
+
+    await updateDoc(doc(db, 'workouts', workoutId), workoutUpdates);
   } catch (error) {
     throw error;
   }
@@ -415,167 +625,1153 @@ export const deleteWorkout = async (workoutId) => {
   }
 };
 
-// ==================== CALORIE ENTRIES COLLECTION ====================
+// Firestore rejects batches of more than 500 writes
+const MAX_BATCH_WRITES = 500;
+
+// Add writes to as many batches as the write limit needs, committing each in turn
+const commitInBatches = async (writes, addWrite) => {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach(write => addWrite(batch, write));
+    await batch.commit();
+  }
+};
+
+const commitUpdatesInBatches = (updates) =>
+  commitInBatches(updates, (batch, { ref, data }) => batch.update(ref, data));
 
 /**
- * Create a calorie entry
+ * Convert a user's stats saved as raw strings into typed { value, unit } stats
+ * Values that can't be parsed (e.g. "sixty") are moved to legacyStats rather than lost.
+ * Already migrated workouts are skipped, so a run that fails part way can be retried
  * @param {string} userId - User ID
- * @param {Date} date - Entry date
- * @param {number} amount - Calories consumed
- * @param {string} description - Meal description (optional)
- * @param {object} macros - Optional macros object with protein, carbs, fat in grams
- * @returns {Promise} Document reference
+ * @returns {Promise} Number of workouts migrated
  */
-export const createCalorieEntry = async (userId, date, amount, description = '', macros = null) => {
+export const migrateLegacyStats = async (userId) => {
   try {
-    // Normalize date to start of day
-    const entryDate = new Date(date);
-    entryDate.setHours(0, 0, 0, 0);
+    const workouts = await getUserWorkouts(userId);
+    const updates = [];
+
+    workouts.forEach(workout => {
+      const entries = Object.entries(workout.stats || {});
+      if (!entries.some(([, value]) => typeof value === 'string')) return;
+
+      const stats = {};
+      const legacyStats = { ...(workout.legacyStats || {}) };
+      entries.forEach(([statId, value]) => {
+        if (typeof value !== 'string') {
+          stats[statId] = value;
+          return;
+        }
 
-    const entryData = {
-      userID: userId,
-      date: Timestamp.fromDate(entryDate),
-      amount,
-      description,
-      createdAt: Timestamp.now()
-    };
+        const parsed = parseLegacyStat(statId, value);
+        if (parsed) {
+          stats[statId] = parsed;
+        } else {
+          legacyStats[statId] = value;
+        }
+      });
 
-    // Only add macro fields if they exist and are valid numbers
-    if (macros) {
-      if (macros.protein != null && macros.protein >= 0) {
-        entryData.protein = macros.protein;
-      }
-      if (macros.carbs != null && macros.carbs >= 0) {
-        entryData.carbs = macros.carbs;
-      }
-      if (macros.fat != null && macros.fat >= 0) {
-        entryData.fat = macros.fat;
-      }
+      updates.push({ ref: doc(db, 'workouts', workout.id), data: { stats, legacyStats } });
+    });
+
+    await commitUpdatesInBatches(updates);
+
+    // Flag the user once every workout is saved so the migration only runs once
+    await updateDoc(doc(db, 'users', userId), { statsVersion: 2 });
+    return updates.length;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== PERSONAL RECORDS COLLECTION ====================
+
+/**
+ * Get a user's personal record table
+ * @param {string} userId - User ID
+ * @returns {Promise} Map of exercise key to record, empty if none yet
+ */
+export const getPersonalRecords = async (userId) => {
+  try {
+    const recordsDoc = await getDoc(doc(db, 'personalRecords', userId));
+    if (recordsDoc.exists()) {
+      return recordsDoc.data().records || {};
     }
+    return {};
+  } catch (error) {
+    throw error;
+  }
+};
 
-    const entryRef = await addDoc(collection(db, 'calorieEntries'), entryData);
-    return entryRef;
+const PR_FIELDS = ['exercise', 'type', 'weight', 'reps', 'value'];
+
+const samePersonalRecords = (a, b) =>
+  a.length === b.length && a.every((pr, index) => PR_FIELDS.every(field => pr[field] === b[index][field]));
+
+// Store the PR table and re-flag every workout whose PRs changed, so adding, editing or
+// deleting an earlier workout also corrects the flags on the workouts after it
+const syncPersonalRecords = async (userId, workouts) => {
+  const prsByWorkout = detectRecordsByWorkout(workouts);
+  const updates = workouts
+    .filter(workout => !samePersonalRecords(workout.prs || [], prsByWorkout[workout.id]))
+    .map(workout => ({ ref: doc(db, 'workouts', workout.id), data: { prs: prsByWorkout[workout.id] } }));
+  await commitUpdatesInBatches(updates);
+
+  const records = computePersonalRecords(workouts);
+  await setDoc(doc(db, 'personalRecords', userId), {
+    userID: userId,
+    records,
+    updatedAt: Timestamp.now()
+  });
+
+  return { records, prsByWorkout };
+};
+
+/**
+ * Recompute and store a user's PR table and workout PR flags from their full workout history
+ * @param {string} userId - User ID
+ * @returns {Promise} Updated records map
+ */
+export const rebuildPersonalRecords = async (userId) => {
+  try {
+    const workouts = await getUserWorkouts(userId);
+    const { records } = await syncPersonalRecords(userId, workouts);
+    return records;
   } catch (error) {
     throw error;
   }
 };
 
 /**
- * Get today's calorie entries for a user
+ * Detect PRs set by a saved workout, flag them on the workout and refresh the PR table
+ * Workouts logged after a backdated or edited one are re-flagged against the new history
  * @param {string} userId - User ID
- * @returns {Promise} Array of calorie entry objects
+ * @param {string} workoutId - Workout document ID that was just saved
+ * @returns {Promise} Array of new PRs for the workout
  */
-export const getTodaysCalorieEntries = async (userId) => {
+export const recordWorkoutPersonalRecords = async (userId, workoutId) => {
   try {
-    const { startOfDay, endOfDay } = getTodayDateRange();
+    const workouts = await getUserWorkouts(userId);
+    if (!workouts.some(w => w.id === workoutId)) {
+      return [];
+    }
+
+    const { prsByWorkout } = await syncPersonalRecords(userId, workouts);
+    return prsByWorkout[workoutId];
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== WORKOUT TEMPLATES COLLECTION ====================
+
+/**
+ * Create a reusable workout template
+ * @param {string} userId - User ID
+ * @param {string} name - Template name (e.g., "Push Day")
+ * @param {string|Array<string>} muscleGroups - Muscle group or groups the template targets
+ * @param {Array} exercises - Ordered exercises with sets
+ * @param {Array} blocks - Block settings for grouped exercises
+ * @returns {Promise} Template document reference
+ */
+export const createWorkoutTemplate = async (userId, name, muscleGroups, exercises = [], blocks = []) => {
+  try {
+    // New templates go to the end of the user's list
+    const existingTemplates = await getUserWorkoutTemplates(userId);
+
+    const sanitizedExercises = sanitizeExercises(exercises);
+    const templateRef = await addDoc(collection(db, 'workoutTemplates'), {
+      userID: userId,
+      name: name.trim(),
+      ...buildMuscleGroupFields(muscleGroups),
+      exercises: sanitizedExercises,
+      blocks: sanitizeBlocks(blocks, sanitizedExercises),
+      order: existingTemplates.length,
+      createdAt: Timestamp.now()
+    });
+    return templateRef;
+  } catch (error) {
+    throw error;
+  }
+};
 
+/**
+ * Get all workout templates for a user, in display order
+ * @param {string} userId - User ID
+ * @returns {Promise} Array of template objects
+ */
+export const getUserWorkoutTemplates = async (userId) => {
+  try {
+    // Sorted client-side to avoid composite index requirement
     const q = query(
-      collection(db, 'calorieEntries'),
-      where('userID', '==', userId),
-      where('date', '>=', startOfDay)
+      collection(db, 'workoutTemplates'),
+      where('userID', '==', userId)
     );
-
     const querySnapshot = await getDocs(q);
-
     return querySnapshot.docs
       .map(doc => ({
         id: doc.id,
         ...doc.data()
       }))
-      .filter(entry => {
-        const entryDate = entry.date.toDate();
-        return entryDate <= endOfDay.toDate();
-      })
-      .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
   } catch (error) {
     throw error;
   }
 };
 
 /**
- * Delete a calorie entry
- * @param {string} entryId - Entry document ID
+ * Update a workout template
+ * @param {string} templateId - Template document ID
+ * @param {object} updates - Fields to update
  * @returns {Promise} void
  */
-export const deleteCalorieEntry = async (entryId) => {
+export const updateWorkoutTemplate = async (templateId, updates) => {
   try {
-    await deleteDoc(doc(db, 'calorieEntries', entryId));
+    const templateUpdates = { ...updates };
+    if (templateUpdates.exercises) {
+      templateUpdates.exercises = sanitizeExercises(templateUpdates.exercises);
+      if (templateUpdates.blocks) {
+        templateUpdates.blocks = sanitizeBlocks(templateUpdates.blocks, templateUpdates.exercises);
+      }
+    }
+    if (templateUpdates.muscleGroups) {
+      Object.assign(templateUpdates, buildMuscleGroupFields(templateUpdates.muscleGroups));
+    }
+
+    await updateDoc(doc(db, 'workoutTemplates', templateId), templateUpdates);
   } catch (error) {
     throw error;
   }
 };
 
 /**
- * Get daily calories for multiple users (for feed)
- * @param {Array<string>} userIds - Array of user IDs
- * @returns {Promise} Object mapping userID to total calories
+ * Delete a workout template
+ * @param {string} templateId - Template document ID
+ * @returns {Promise} void
  */
-export const getDailyCaloriesForUsers = async (userIds) => {
-  if (!userIds || userIds.length === 0) {
-    return {};
+export const deleteWorkoutTemplate = async (templateId) => {
+  try {
+    await deleteDoc(doc(db, 'workoutTemplates', templateId));
+  } catch (error) {
+    throw error;
   }
+};
 
+/**
+ * Duplicate a workout template, placing the copy at the end of the list
+ * @param {string} templateId - Template document ID to copy
+ * @returns {Promise} New template document reference
+ */
+export const duplicateWorkoutTemplate = async (templateId) => {
   try {
-    const { startOfDay, endOfDay } = getTodayDateRange();
-
-    // Batch by 30 (Firestore 'in' limit)
-    const batchSize = 30;
-    const allEntries = [];
-
-    for (let i = 0; i < userIds.length; i += batchSize) {
-      const batch = userIds.slice(i, i + batchSize);
-
-      const q = query(
-        collection(db, 'calorieEntries'),
-        where('userID', 'in', batch),
-        where('date', '>=', startOfDay)
-      );
-
-      const querySnapshot = await getDocs(q);
-      const entries = querySnapshot.docs
-        .map(doc => doc.data())
-        .filter(entry => entry.date.toDate() <= endOfDay.toDate());
-
-      allEntries.push(...entries);
+    const templateDoc = await getDoc(doc(db, 'workoutTemplates', templateId));
+    if (!templateDoc.exists()) {
+      throw new Error('Template not found');
     }
 
-    // Aggregate by user
-    const caloriesByUser = {};
-    allEntries.forEach(entry => {
-      if (!caloriesByUser[entry.userID]) {
-        caloriesByUser[entry.userID] = 0;
-      }
-      caloriesByUser[entry.userID] += entry.amount || 0;
-    });
-
-    return caloriesByUser;
+    const template = templateDoc.data();
+    return await createWorkoutTemplate(
+      template.userID,
+      `${template.name} (Copy)`,
+      template.muscleGroups || template.muscleGroup,
+      template.exercises,
+      template.blocks || []
+    );
   } catch (error) {
     throw error;
   }
 };
 
-
-// ==================== REAL-TIME LISTENERS ====================
-
 /**
- * Get start and end timestamps for today (local timezone)
- * @returns {Object} { startOfDay: Timestamp, endOfDay: Timestamp }
+ * Persist a new display order for a user's templates
+ * @param {Array<string>} templateIds - Template IDs in their new order
+ * @returns {Promise} void
  */
-export const getTodayDateRange = () => {
-  const startOfDay = new Date();
-  startOfDay.setHours(0, 0, 0, 0);
+export const reorderWorkoutTemplates = async (templateIds) => {
+  try {
+    const batch = writeBatch(db);
+    templateIds.forEach((templateId, index) => {
+      batch.update(doc(db, 'workoutTemplates', templateId), { order: index });
+    });
+    await batch.commit();
+  } catch (error) {
+    throw error;
+  }
+};
 
-  const endOfDay = new Date();
-  endOfDay.setHours(23, 59, 59, 999);
+// ==================== CUSTOM EXERCISES COLLECTION ====================
 
-  return {
-    startOfDay: Timestamp.fromDate(startOfDay),
+/**
+ * Add a user-defined exercise to the user's library
+ * @param {string} userId - User ID
+ * @param {string} name - Exercise name
+ * @param {Array<string>} primaryMuscles - Muscle groups the exercise mainly targets
+ * @param {Array<string>} secondaryMuscles - Muscle groups it also works
+ * @param {string} equipment - Equipment type (e.g., "barbell")
+ * @returns {Promise} Custom exercise document reference
+ */
+export const createCustomExercise = async (userId, name, primaryMuscles, secondaryMuscles = [], equipment = 'other') => {
+  try {
+    const exerciseRef = await addDoc(collection(db, 'customExercises'), {
+      userID: userId,
+      name: name.trim(),
+      primaryMuscles,
+      secondaryMuscles: secondaryMuscles.filter(muscle => !primaryMuscles.includes(muscle)),
+      equipment,
+      createdAt: Timestamp.now()
+    });
+    return exerciseRef;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get a user's custom exercises, sorted by name
+ * @param {string} userId - User ID
+ * @returns {Promise} Array of custom exercise objects
+ */
+export const getCustomExercises = async (userId) => {
+  try {
+    const q = query(
+      collection(db, 'customExercises'),
+      where('userID', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Delete a custom exercise
+ * Logged workouts keep the exercise name, so history is unaffected
+ * @param {string} exerciseId - Custom exercise document ID
+ * @returns {Promise} void
+ */
+export const deleteCustomExercise = async (exerciseId) => {
+  try {
+    await deleteDoc(doc(db, 'customExercises', exerciseId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== PROGRAMS COLLECTION ====================
+
+/**
+ * Start a training program, ending any program already in progress
+ * @param {string} userId - User ID
+ * @param {string} templateId - Program template ID (e.g., "531")
+ * @param {Date} startDate - First day the program can start
+ * @param {Array<number>} trainingDays - Weekdays to train on (0 = Sunday)
+ * @param {Object} oneRepMaxes - One-rep max in lbs keyed by lift exercise ID
+ * @param {string} [weightUnit] - Unit planned loads are rounded in
+ * @returns {Promise} Program document reference
+ */
+export const createProgram = async (userId, templateId, startDate, trainingDays, oneRepMaxes, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  try {
+    const template = getProgramTemplate(templateId);
+    if (!template) {
+      throw new Error('Program not found');
+    }
+
+    const activeProgram = await getActiveProgram(userId);
+    if (activeProgram) {
+      await endProgram(activeProgram.id);
+    }
+
+    const programRef = await addDoc(collection(db, 'programs'), {
+      userID: userId,
+      templateId,
+      name: template.name,
+      startDate: Timestamp.fromDate(startDate),
+      trainingDays: [...trainingDays].sort((a, b) => a - b),
+      oneRepMaxes,
+      weightUnit,
+      sessions: scheduleProgram(template, startDate, trainingDays, oneRepMaxes, weightUnit),
+      completedSessions: {},
+      active: true,
+      createdAt: Timestamp.now()
+    });
+    return programRef;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get the user's program in progress
+ * @param {string} userId - User ID
+ * @returns {Promise} Program object or null
+ */
+export const getActiveProgram = async (userId) => {
+  try {
+    // Filtered client-side to avoid composite index requirement
+    const q = query(
+      collection(db, 'programs'),
+      where('userID', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    const programDoc = querySnapshot.docs.find(doc => doc.data().active);
+    if (!programDoc) {
+      return null;
+    }
+
+    return {
+      id: programDoc.id,
+      ...programDoc.data()
+    };
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * End a program; its planned sessions stop showing on the calendar
+ * @param {string} programId - Program document ID
+ * @returns {Promise} void
+ */
+export const endProgram = async (programId) => {
+  try {
+    await updateDoc(doc(db, 'programs', programId), {
+      active: false,
+      endedAt: Timestamp.now()
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Mark the planned session a saved workout fulfils as done
+ * @param {string} userId - User ID
+ * @param {string} workoutId - Workout document ID that was just saved
+ * @returns {Promise} The planned session that was completed, or null
+ */
+export const completePlannedSession = async (userId, workoutId) => {
+  try {
+    const program = await getActiveProgram(userId);
+    if (!program) {
+      return null;
+    }
+
+    // A workout only ever fulfils one session
+    const alreadyCompleted = Object.entries(program.completedSessions || {})
+      .find(([, completedWorkoutId]) => completedWorkoutId === workoutId);
+    if (alreadyCompleted) {
+      return program.sessions.find(session => session.id === alreadyCompleted[0]) || null;
+    }
+
+    const workoutDoc = await getDoc(doc(db, 'workouts', workoutId));
+    if (!workoutDoc.exists()) {
+      return null;
+    }
+
+    const session = findMatchingPlannedSession(program, workoutDoc.data());
+    if (!session) {
+      return null;
+    }
+
+    await updateDoc(doc(db, 'programs', program.id), {
+      [`completedSessions.${session.id}`]: workoutId
+    });
+    return session;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== CALORIE ENTRIES COLLECTION ====================
+
+const MACRO_FIELDS = ['protein', 'carbs', 'fat'];
+
+// Keep only macros that are valid gram amounts
+const buildMacroFields = (macros) => {
+  /** @type {Object<string, number>} */
+  const fields = {};
+  if (macros) {
+    MACRO_FIELDS.forEach(key => {
+      if (macros[key] != null && macros[key] >= 0) {
+        fields[key] = macros[key];
+      }
+    });
+  }
+  return fields;
+};
+
+/**
+ * Create a calorie entry
+ * @param {string} userId - User ID
+ * @param {Date} date - Entry date
+ * @param {number} amount - Calories consumed
+ * @param {string} description - Meal description (optional)
+ * @param {object|null} macros - Optional macros object with protein, carbs, fat in grams
+ * @param {{ meal?: string, mealName?: string, recipeId?: string, recipeServings?: number, quantity?: number, nutrients?: object }} options - Meal slot ID (e.g., "breakfast"), the meal's name when the slot is "custom", the recipe and servings the entry was logged from, the portion multiplier for entries re-logged from a quick pick, and extended nutrients (fiber, sodium, vitamins...) keyed by nutrient
+ * @returns {Promise} Document reference
+ */
+export const createCalorieEntry = async (userId, date, amount, description = '', macros = null, options = {}) => {
+  try {
+    // Normalize date to start of day
+    const entryDate = new Date(date);
+    entryDate.setHours(0, 0, 0, 0);
+
+    const entryData = {
+      userID: userId,
+      date: Timestamp.fromDate(entryDate),
+      amount,
+      description,
+      createdAt: Timestamp.now(),
+      // Only add macro fields if they exist and are valid numbers
+      ...buildMacroFields(macros)
+    };
+
+    if (options.meal) {
+      entryData.meal = options.meal;
+      if (options.meal === 'custom' && options.mealName?.trim()) {
+        entryData.mealName = options.mealName.trim();
+      }
+    }
+
+    // Entries logged from a recipe link back to it
+    if (options.recipeId) {
+      entryData.recipeId = options.recipeId;
+      entryData.recipeServings = options.recipeServings || 1;
+    }
+
+    // Quick picks record their multiplier so the single portion can be recovered later
+    if (options.quantity && options.quantity !== 1) {
+      entryData.quantity = options.quantity;
+    }
+
+    const nutrients = sanitizeNutrients(options.nutrients);
+    if (Object.keys(nutrients).length > 0) {
+      entryData.nutrients = nutrients;
+    }
+
+    const entryRef = await addDoc(collection(db, 'calorieEntries'), entryData);
+    return entryRef;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get a user's calorie entries for a given day
+ * @param {string} userId - User ID
+ * @param {Date} date - Any time on the day to fetch
+ * @returns {Promise} Array of calorie entry objects
+ */
+export const getCalorieEntriesForDate = async (userId, date) => {
+  try {
+    const { startOfDay, endOfDay } = getDateRange(date);
+
+    const q = query(
+      collection(db, 'calorieEntries'),
+      where('userID', '==', userId),
+      where('date', '>=', startOfDay)
+    );
+
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }))
+      .filter(entry => {
+        const entryDate = entry.date.toDate();
+        return entryDate <= endOfDay.toDate();
+      })
+      .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get a user's calorie entries between two days, inclusive
+ * @param {string} userId - User ID
+ * @param {Date} startDate - Any time on the first day
+ * @param {Date} endDate - Any time on the last day
+ * @returns {Promise} Array of calorie entry objects, oldest first
+ */
+export const getCalorieEntriesInRange = async (userId, startDate, endDate) => {
+  try {
+    const { startOfDay } = getDateRange(startDate);
+    const { endOfDay } = getDateRange(endDate);
+
+    const q = query(
+      collection(db, 'calorieEntries'),
+      where('userID', '==', userId),
+      where('date', '>=', startOfDay)
+    );
+
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }))
+      .filter(entry => entry.date.toDate() <= endOfDay.toDate())
+      .sort((a, b) => a.date.toMillis() - b.date.toMillis() || a.createdAt.toMillis() - b.createdAt.toMillis());
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get a user's calorie history between two days, with totals for every day in the range
+ * @param {string} userId - User ID
+ * @param {Date} startDate - Any time on the first day
+ * @param {Date} endDate - Any time on the last day
+ * @returns {Promise} { entries, days } with entries oldest first and one daily total per day, newest first
+ */
+export const getCalorieHistory = async (userId, startDate, endDate) => {
+  try {
+    const entries = await getCalorieEntriesInRange(userId, startDate, endDate);
+    return {
+      entries,
+      days: getDailyTotals(entries, startDate, endDate)
+    };
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get today's calorie entries for a user
+ * @param {string} userId - User ID
+ * @returns {Promise} Array of calorie entry objects
+ */
+export const getTodaysCalorieEntries = async (userId) => {
+  try {
+    return await getCalorieEntriesForDate(userId, new Date());
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Delete a calorie entry
+ * @param {string} entryId - Entry document ID
+ * @returns {Promise} void
+ */
+export const deleteCalorieEntry = async (entryId) => {
+  try {
+    await deleteDoc(doc(db, 'calorieEntries', entryId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Update a calorie entry's amount, description, macros or extended nutrients
+ * Macros and nutrients are validated the same way as on creation; any left out of a
+ * provided macros or nutrients object is removed from the entry
+ * @param {string} entryId - Calorie entry document ID
+ * @param {{ amount?: number, description?: string, macros?: object|null, nutrients?: object|null }} updates - Fields to update
+ * @returns {Promise} void
+ */
+export const updateCalorieEntry = async (entryId, updates) => {
+  try {
+    /** @type {Object<string, *>} */
+    const updateData = { updatedAt: Timestamp.now() };
+
+    if (updates.amount !== undefined) {
+      updateData.amount = updates.amount;
+    }
+    if (updates.description !== undefined) {
+      updateData.description = updates.description;
+    }
+    if (updates.macros !== undefined) {
+      const macroFields = buildMacroFields(updates.macros);
+      MACRO_FIELDS.forEach(key => {
+        updateData[key] = key in macroFields ? macroFields[key] : deleteField();
+      });
+    }
+    if (updates.nutrients !== undefined) {
+      const nutrients = sanitizeNutrients(updates.nutrients);
+      updateData.nutrients = Object.keys(nutrients).length > 0 ? nutrients : deleteField();
+    }
+
+    await updateDoc(doc(db, 'calorieEntries', entryId), updateData);
+  } catch (error) {
+    throw error;
+  }
+};
+
+// Entry content carried over to a copy; bookkeeping such as updatedAt starts fresh
+const COPIED_ENTRY_FIELDS = [
+  'amount', 'description', ...MACRO_FIELDS, 'meal', 'mealName', 'recipeId', 'recipeServings', 'quantity', 'nutrients'
+];
+
+/**
+ * Copy calorie entries onto another day using batched writes
+ * Copies keep their meal slot, macros and recipe link, and point back to the entry they came from
+ * @param {string} userId - User ID
+ * @param {Array} entries - Calorie entries to copy
+ * @param {Date} targetDate - Day to copy the entries to
+ * @returns {Promise<number>} Number of entries copied
+ */
+export const copyCalorieEntries = async (userId, entries, targetDate) => {
+  try {
+    if (entries.length === 0) return 0;
+
+    const entryDate = new Date(targetDate);
+    entryDate.setHours(0, 0, 0, 0);
+    const now = Timestamp.now();
+
+    const copies = entries.map(entry => {
+      const data = {
+        userID: userId,
+        date: Timestamp.fromDate(entryDate),
+        createdAt: now,
+        copiedFrom: entry.id
+      };
+      COPIED_ENTRY_FIELDS.forEach(field => {
+        if (entry[field] !== undefined) data[field] = entry[field];
+      });
+      return { ref: doc(collection(db, 'calorieEntries')), data };
+    });
+    await commitInBatches(copies, (batch, { ref, data }) => batch.set(ref, data));
+
+    return entries.length;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get daily calories for multiple users (for feed)
+ * @param {Array<string>} userIds - Array of user IDs
+ * @returns {Promise} Object mapping userID to total calories
+ */
+export const getDailyCaloriesForUsers = async (userIds) => {
+  if (!userIds || userIds.length === 0) {
+    return {};
+  }
+
+  try {
+    const { startOfDay, endOfDay } = getTodayDateRange();
+
+    // Batch by 30 (Firestore 'in' limit)
+    const batchSize = 30;
+    const allEntries = [];
+
+    for (let i = 0; i < userIds.length; i += batchSize) {
+      const batch = userIds.slice(i, i + batchSize);
+
+      const q = query(
+        collection(db, 'calorieEntries'),
+        where('userID', 'in', batch),
+        where('date', '>=', startOfDay)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const entries = querySnapshot.docs
+        .map(doc => doc.data())
+        .filter(entry => entry.date.toDate() <= endOfDay.toDate());
+
+      allEntries.push(...entries);
+    }
+
+    // Aggregate by user
+    const caloriesByUser = {};
+    allEntries.forEach(entry => {
+      if (!caloriesByUser[entry.userID]) {
+        caloriesByUser[entry.userID] = 0;
+      }
+      caloriesByUser[entry.userID] += entry.amount || 0;
+    });
+
+    return caloriesByUser;
+  } catch (error) {
+    throw error;
+  }
+};
+
+
+// ==================== WATER LOGS COLLECTION ====================
+
+// One water log per user per day
+const getWaterLogId = (userId, date) => `${userId}_${toDateKey(date)}`;
+
+/**
+ * Get how much water a user drank on a given day
+ * @param {string} userId - User ID
+ * @param {Date} date - Any time on the day
+ * @returns {Promise<number>} Total in millilitres
+ */
+export const getWaterTotal = async (userId, date) => {
+  try {
+    const waterDoc = await getDoc(doc(db, 'waterLogs', getWaterLogId(userId, date)));
+    return waterDoc.exists() ? Math.max(0, waterDoc.data().totalMl || 0) : 0;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Add water to a day's log, creating the log if needed
+ * @param {string} userId - User ID
+ * @param {Date} date - Any time on the day
+ * @param {number} ml - Millilitres to add (negative to take some back off)
+ * @returns {Promise} void
+ */
+export const addWater = async (userId, date, ml) => {
+  try {
+    const logDate = new Date(date);
+    logDate.setHours(0, 0, 0, 0);
+
+    await setDoc(doc(db, 'waterLogs', getWaterLogId(userId, logDate)), {
+      userID: userId,
+      date: Timestamp.fromDate(logDate),
+      dateKey: toDateKey(logDate),
+      totalMl: increment(ml),
+      updatedAt: Timestamp.now()
+    }, { merge: true });
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get today's water for multiple users (for feed)
+ * @param {Array<string>} userIds - Array of user IDs
+ * @returns {Promise} Object mapping userID to millilitres
+ */
+export const getDailyWaterForUsers = async (userIds) => {
+  if (!userIds || userIds.length === 0) {
+    return {};
+  }
+
+  try {
+    const todayKey = toDateKey(new Date());
+
+    // Batch by 30 (Firestore 'in' limit)
+    const batchSize = 30;
+    /** @type {Object<string, number>} */
+    const waterByUser = {};
+
+    for (let i = 0; i < userIds.length; i += batchSize) {
+      const batch = userIds.slice(i, i + batchSize);
+
+      const q = query(
+        collection(db, 'waterLogs'),
+        where('userID', 'in', batch),
+        where('dateKey', '==', todayKey)
+      );
+
+      const querySnapshot = await getDocs(q);
+      querySnapshot.docs.forEach(waterDoc => {
+        const log = waterDoc.data();
+        waterByUser[log.userID] = Math.max(0, log.totalMl || 0);
+      });
+    }
+
+    return waterByUser;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== CUSTOM FOODS COLLECTION ====================
+
+/**
+ * Add a user-defined food to the user's food database
+ * @param {string} userId - User ID
+ * @param {string} name - Food name
+ * @param {string} servingLabel - Serving size the nutrition is for (e.g., "1 bar")
+ * @param {{ calories: number, protein?: number, carbs?: number, fat?: number }} nutrition - Calories and macros (grams) per serving
+ * @returns {Promise} Custom food document reference
+ */
+export const createCustomFood = async (userId, name, servingLabel, nutrition) => {
+  try {
+    const foodRef = await addDoc(collection(db, 'customFoods'), {
+      userID: userId,
+      name: name.trim(),
+      servings: [{ label: servingLabel.trim() || '1 serving', scale: 1 }],
+      calories: nutrition.calories,
+      protein: nutrition.protein || 0,
+      carbs: nutrition.carbs || 0,
+      fat: nutrition.fat || 0,
+      createdAt: Timestamp.now()
+    });
+    return foodRef;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get a user's custom foods, sorted by name
+ * @param {string} userId - User ID
+ * @returns {Promise} Array of custom food objects
+ */
+export const getCustomFoods = async (userId) => {
+  try {
+    const q = query(
+      collection(db, 'customFoods'),
+      where('userID', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Delete a custom food
+ * Logged calorie entries keep their amounts, so history is unaffected
+ * @param {string} foodId - Custom food document ID
+ * @returns {Promise} void
+ */
+export const deleteCustomFood = async (foodId) => {
+  try {
+    await deleteDoc(doc(db, 'customFoods', foodId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== RECIPES COLLECTION ====================
+
+// Keep only the fields a recipe ingredient needs
+const sanitizeIngredients = (ingredients) =>
+  ingredients.map(ingredient => ({
+    description: ingredient.description,
+    calories: ingredient.calories || 0,
+    protein: ingredient.protein || 0,
+    carbs: ingredient.carbs || 0,
+    fat: ingredient.fat || 0
+  }));
+
+/**
+ * Create a recipe
+ * @param {string} userId - User ID
+ * @param {string} name - Recipe name
+ * @param {Array} ingredients - Ingredients as { description, calories, protein, carbs, fat } for the amount used
+ * @param {number} servings - Servings the recipe makes
+ * @returns {Promise} Recipe document reference
+ */
+export const createRecipe = async (userId, name, ingredients, servings) => {
+  try {
+    const recipeRef = await addDoc(collection(db, 'recipes'), {
+      userID: userId,
+      name: name.trim(),
+      ingredients: sanitizeIngredients(ingredients),
+      servings,
+      createdAt: Timestamp.now()
+    });
+    return recipeRef;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get a user's recipes, sorted by name
+ * @param {string} userId - User ID
+ * @returns {Promise} Array of recipe objects
+ */
+export const getUserRecipes = async (userId) => {
+  try {
+    const q = query(
+      collection(db, 'recipes'),
+      where('userID', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Update a recipe
+ * @param {string} recipeId - Recipe document ID
+ * @param {object} updates - Fields to update (name, ingredients, servings)
+ * @returns {Promise} void
+ */
+export const updateRecipe = async (recipeId, updates) => {
+  try {
+    const recipeUpdates = { ...updates };
+    if (recipeUpdates.name) {
+      recipeUpdates.name = recipeUpdates.name.trim();
+    }
+    if (recipeUpdates.ingredients) {
+      recipeUpdates.ingredients = sanitizeIngredients(recipeUpdates.ingredients);
+    }
+
+    await updateDoc(doc(db, 'recipes', recipeId), recipeUpdates);
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Delete a recipe
+ * Logged calorie entries keep their amounts, so history is unaffected
+ * @param {string} recipeId - Recipe document ID
+ * @returns {Promise} void
+ */
+export const deleteRecipe = async (recipeId) => {
+  try {
+    await deleteDoc(doc(db, 'recipes', recipeId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== FAVORITE FOODS COLLECTION ====================
+
+/**
+ * Star a food for one-tap re-logging
+ * @param {string} userId - User ID
+ * @param {{ description: string, amount: number, protein?: number|null, carbs?: number|null, fat?: number|null, nutrients?: object }} food - A single portion of the food
+ * @returns {Promise} Favorite food document reference
+ */
+export const addFavoriteFood = async (userId, food) => {
+  try {
+    const favoriteRef = await addDoc(collection(db, 'favoriteFoods'), {
+      userID: userId,
+      description: food.description.trim(),
+      amount: food.amount,
+      protein: food.protein ?? null,
+      carbs: food.carbs ?? null,
+      fat: food.fat ?? null,
+      nutrients: sanitizeNutrients(food.nutrients),
+      createdAt: Timestamp.now()
+    });
+    return favoriteRef;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get a user's favorite foods, sorted by description
+ * @param {string} userId - User ID
+ * @returns {Promise} Array of favorite food objects
+ */
+export const getFavoriteFoods = async (userId) => {
+  try {
+    const q = query(
+      collection(db, 'favoriteFoods'),
+      where('userID', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }))
+      .sort((a, b) => a.description.localeCompare(b.description));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Unstar a favorite food
+ * @param {string} favoriteId - Favorite food document ID
+ * @returns {Promise} void
+ */
+export const deleteFavoriteFood = async (favoriteId) => {
+  try {
+    await deleteDoc(doc(db, 'favoriteFoods', favoriteId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== PRODUCT CACHE COLLECTION ====================
+
+/**
+ * Get a previously resolved barcode product
+ * Shared between users, since a barcode identifies the same product for everyone
+ * @param {string} gtin - 14-digit GTIN the product is cached under
+ * @returns {Promise} Product data or null
+ */
+export const getCachedProduct = async (gtin) => {
+  try {
+    const productDoc = await getDoc(doc(db, 'productCache', gtin));
+    if (productDoc.exists()) {
+      return productDoc.data();
+    }
+    return null;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Cache a resolved barcode product
+ * @param {string} gtin - 14-digit GTIN to cache the product under
+ * @param {object} product - Product in the food database shape
+ * @returns {Promise} void
+ */
+export const cacheProduct = async (gtin, product) => {
+  try {
+    await setDoc(doc(db, 'productCache', gtin), {
+      ...product,
+      cachedAt: Timestamp.now()
+    });
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ==================== REAL-TIME LISTENERS ====================
+
+/**
+ * Get start and end timestamps for the day containing a date (local timezone)
+ * @param {Date} date - Any time on the day
+ * @returns {Object} { startOfDay: Timestamp, endOfDay: Timestamp }
+ */
+export const getDateRange = (date) => {
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  return {
+    startOfDay: Timestamp.fromDate(startOfDay),
     endOfDay: Timestamp.fromDate(endOfDay)
   };
 };
 
+/**
+ * Get start and end timestamps for today (local timezone)
+ * @returns {Object} { startOfDay: Timestamp, endOfDay: Timestamp }
+ */
+export const getTodayDateRange = () => getDateRange(new Date());
+
 /**
  * Subscribe to real-time updates for today's workouts for multiple users
+ * Matches on the workout's own date rather than when it was logged, so
+ * backdated workouts never show up as today's activity
  * @param {Array<string>} userIds - Array of user IDs to monitor
  * @param {function} callback - Callback function receiving workouts array
  * @param {function} errorCallback - Callback for errors
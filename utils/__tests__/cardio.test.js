@@ -0,0 +1,35 @@
+import { computePace, formatDuration } from '../cardio';
+
+describe('computePace', () => {
+  it('formats pace per distance unit', () => {
+    expect(computePace('run', 5, 25)).toBe('5:00 /km');
+    expect(computePace('run', 5, 26.5)).toBe('5:18 /km');
+  });
+
+  it('carries seconds that round up to a full minute', () => {
+    expect(computePace('run', 5, 24.99)).toBe('5:00 /km');
+    expect(computePace('row', 2, 7.998)).toBe('2:00 /500m');
+    expect(computePace('swim', 1, 19.999)).toBe('2:00 /100m');
+  });
+
+  it('shows speed for bike rides', () => {
+    expect(computePace('bike', 30, 60)).toBe('30 km/h');
+  });
+
+  it('needs both distance and duration', () => {
+    expect(computePace('run', 0, 30)).toBeNull();
+    expect(computePace('run', 5, 0)).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes as m:ss or h:mm:ss', () => {
+    expect(formatDuration(45.5)).toBe('45:30');
+    expect(formatDuration(75)).toBe('1:15:00');
+  });
+
+  it('carries seconds that round up to a full minute or hour', () => {
+    expect(formatDuration(4.999)).toBe('5:00');
+    expect(formatDuration(59.999)).toBe('1:00:00');
+  });
+});
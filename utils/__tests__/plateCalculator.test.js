@@ -0,0 +1,174 @@
+import {
+  DEFAULT_PLATE_SETTINGS,
+  calculatePlates,
+  formatPlates,
+  planLoading,
+  generateWarmupSets,
+  getLoadStep,
+} from '../plateCalculator';
+
+const { lbs: LBS, kg: KG } = DEFAULT_PLATE_SETTINGS;
+
+describe('calculatePlates', () => {
+  it('loads the heaviest lbs plates first', () => {
+    expect(calculatePlates(225, LBS)).toEqual({
+      perSide: [{ weight: 45, count: 2 }],
+      totalWeight: 225,
+      remainder: 0,
+      outOfPlates: false,
+    });
+    expect(calculatePlates(182.5, LBS).perSide).toEqual([
+      { weight: 45, count: 1 },
+      { weight: 10, count: 2 },
+      { weight: 2.5, count: 1 },
+    ]);
+  });
+
+  it('loads kg plates, including fractional ones', () => {
+    expect(calculatePlates(100, KG)).toEqual({
+      perSide: [
+        { weight: 25, count: 1 },
+        { weight: 15, count: 1 },
+      ],
+      totalWeight: 100,
+      remainder: 0,
+      outOfPlates: false,
+    });
+    expect(calculatePlates(22.5, KG).perSide).toEqual([{ weight: 1.25, count: 1 }]);
+  });
+
+  it('returns an empty bar for a bar-only target', () => {
+    expect(calculatePlates(45, LBS)).toEqual({ perSide: [], totalWeight: 45, remainder: 0, outOfPlates: false });
+    expect(calculatePlates(20, KG)).toEqual({ perSide: [], totalWeight: 20, remainder: 0, outOfPlates: false });
+  });
+
+  it('returns an empty bar for targets below the bar weight', () => {
+    expect(calculatePlates(30, LBS)).toEqual({ perSide: [], totalWeight: 45, remainder: 0, outOfPlates: false });
+    expect(calculatePlates(0, KG)).toEqual({ perSide: [], totalWeight: 20, remainder: 0, outOfPlates: false });
+  });
+
+  it('reports a rounding remainder without flagging out of plates', () => {
+    const lbsResult = calculatePlates(226, LBS);
+    expect(lbsResult.totalWeight).toBe(225);
+    expect(lbsResult.remainder).toBe(1);
+    expect(lbsResult.outOfPlates).toBe(false);
+
+    const kgResult = calculatePlates(61.25, KG);
+    expect(kgResult.totalWeight).toBe(60);
+    expect(kgResult.remainder).toBe(1.25);
+    expect(kgResult.outOfPlates).toBe(false);
+  });
+
+  it('flags out of plates when the full inventory is used up', () => {
+    // 4 × 45 + 35 + 25 + 2 × 10 + 5 + 2.5 per side on a 45 lb bar
+    expect(calculatePlates(700, LBS)).toMatchObject({ totalWeight: 580, remainder: 120, outOfPlates: true });
+  });
+
+  it('respects a limited plate inventory', () => {
+    const limited = {
+      unit: 'lbs',
+      barWeight: 45,
+      plates: [
+        { weight: 45, pairs: 1 },
+        { weight: 25, pairs: 1 },
+        { weight: 10, pairs: 0 },
+      ],
+    };
+
+    expect(calculatePlates(185, limited)).toEqual({
+      perSide: [
+        { weight: 45, count: 1 },
+        { weight: 25, count: 1 },
+      ],
+      totalWeight: 185,
+      remainder: 0,
+      outOfPlates: false,
+    });
+    expect(calculatePlates(275, limited)).toMatchObject({ totalWeight: 185, remainder: 90, outOfPlates: true });
+  });
+});
+
+describe('formatPlates', () => {
+  it('describes an empty bar', () => {
+    expect(formatPlates([])).toBe('Empty bar');
+  });
+
+  it('joins plates heaviest first with counts for repeats', () => {
+    expect(formatPlates([{ weight: 45, count: 2 }, { weight: 10, count: 1 }])).toBe('2 × 45 + 10');
+    expect(formatPlates(calculatePlates(187.5, KG).perSide)).toBe('3 × 25 + 5 + 2.5 + 1.25');
+  });
+});
+
+describe('planLoading', () => {
+  it('defaults to the lbs inventory', () => {
+    expect(planLoading(225)).toEqual({
+      target: 225,
+      unit: 'lbs',
+      perSide: [{ weight: 45, count: 2 }],
+      totalWeight: 225,
+      remainder: 0,
+      outOfPlates: false,
+    });
+  });
+
+  it('converts the logged lbs weight for a kg inventory', () => {
+    const plan = planLoading(225, { unit: 'kg' });
+    expect(plan.unit).toBe('kg');
+    expect(plan.target).toBe(102.1);
+    expect(plan.perSide).toEqual([
+      { weight: 25, count: 1 },
+      { weight: 15, count: 1 },
+    ]);
+    expect(plan.totalWeight).toBe(100);
+    expect(plan.remainder).toBeCloseTo(2.1);
+    expect(plan.outOfPlates).toBe(false);
+  });
+
+  it('uses a custom bar weight', () => {
+    expect(planLoading(35, { unit: 'lbs', barWeight: 35 })).toMatchObject({ perSide: [], totalWeight: 35 });
+  });
+});
+
+describe('generateWarmupSets', () => {
+  it('builds up from the empty bar for a lbs working weight', () => {
+    const sets = generateWarmupSets(225);
+    expect(sets.map(set => [set.weight, set.reps])).toEqual([
+      [45, 10],
+      [90, 5],
+      [135, 3],
+      [180, 2],
+    ]);
+    expect(sets[1].loading.perSide).toEqual([
+      { weight: 10, count: 2 },
+      { weight: 2.5, count: 1 },
+    ]);
+  });
+
+  it('loads kg plates and returns weights in lbs', () => {
+    const sets = generateWarmupSets(220.5, { unit: 'kg' });
+    expect(sets.map(set => set.loading.totalWeight)).toEqual([20, 40, 60, 80]);
+    expect(sets.map(set => set.weight)).toEqual([44.1, 88.2, 132.3, 176.4]);
+    expect(sets.every(set => set.loading.unit === 'kg')).toBe(true);
+  });
+
+  it('skips warm-ups that repeat a lighter set', () => {
+    expect(generateWarmupSets(65).map(set => [set.weight, set.reps])).toEqual([
+      [45, 10],
+      [50, 2],
+    ]);
+  });
+
+  it('returns no warm-ups at or below the bar weight', () => {
+    expect(generateWarmupSets(45)).toEqual([]);
+    expect(generateWarmupSets(30)).toEqual([]);
+    expect(generateWarmupSets(44.1, { unit: 'kg' })).toEqual([]);
+  });
+});
+
+describe('getLoadStep', () => {
+  it('is a pair of the lightest standard plates', () => {
+    expect(getLoadStep('lbs')).toBe(5);
+    expect(getLoadStep('kg')).toBe(2.5);
+    expect(getLoadStep()).toBe(5);
+  });
+});
@@ -0,0 +1,15 @@
+import { calculateLoad } from '../programs';
+import { convertWeight } from '../stats';
+
+describe('calculateLoad', () => {
+  it('rounds lbs loads to 5 lbs', () => {
+    expect(calculateLoad(300, 90, 65)).toBe(175);
+    expect(calculateLoad(300, 100, 85, 'lbs')).toBe(255);
+  });
+
+  it('rounds kg loads to 2.5 kg and stores them in lbs', () => {
+    const load = calculateLoad(300, 90, 65, 'kg');
+    expect(convertWeight(load, 'lbs', 'kg')).toBe(80);
+    expect(load).toBe(176.4);
+  });
+});
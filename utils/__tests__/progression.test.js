@@ -0,0 +1,36 @@
+import { describeSuggestion, suggestNextTarget } from '../progression';
+import { convertWeight } from '../stats';
+
+// Last session with every set at the same weight, reps completed as planned
+const history = (weight, reps = 5) => [{ date: 1, workoutId: 'w1', sets: [{ weight, reps }, { weight, reps }] }];
+
+describe('suggestNextTarget', () => {
+  it('adds the lbs increment for lbs users', () => {
+    expect(suggestNextTarget(history(135), null)).toMatchObject({ weight: 140, reps: 5, change: 'weight' });
+  });
+
+  it('rounds kg suggestions to a loadable step', () => {
+    const linear = suggestNextTarget(history(225), null, 'kg');
+    expect(convertWeight(linear.weight, 'lbs', 'kg')).toBe(105);
+
+    const percentage = suggestNextTarget(history(220.5), { rule: 'percentage' }, 'kg');
+    expect(convertWeight(percentage.weight, 'lbs', 'kg')).toBe(102.5);
+  });
+
+  it('applies an increment entered in kg', () => {
+    const suggestion = suggestNextTarget(history(220.5), { increment: 5, incrementUnit: 'kg' }, 'kg');
+    expect(convertWeight(suggestion.weight, 'lbs', 'kg')).toBe(105);
+  });
+
+  it('repeats the weight after missed reps', () => {
+    const missed = [{ date: 1, workoutId: 'w1', sets: [{ weight: 135, reps: 5 }, { weight: 135, reps: 3 }] }];
+    expect(suggestNextTarget(missed, null)).toMatchObject({ weight: 135, change: 'repeat' });
+  });
+});
+
+describe('describeSuggestion', () => {
+  it('shows the target and jump in the user unit', () => {
+    expect(describeSuggestion(suggestNextTarget(history(135), null))).toBe('140 lbs × 5 (+5 lbs)');
+    expect(describeSuggestion(suggestNextTarget(history(220.5), null, 'kg'), 'kg')).toBe('102.5 kg × 5 (+2.5 kg)');
+  });
+});
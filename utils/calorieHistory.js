@@ -0,0 +1,83 @@
+import { addDays, toDateKey } from './dates';
+
+/**
+ * Calorie history over a week or month
+ * Every day in the range gets a row, so days with nothing logged show up as gaps
+ * rather than disappearing from the list and chart
+ */
+
+export const HISTORY_RANGES = [
+  { id: 'week', label: 'Week', days: 7 },
+  { id: 'month', label: 'Month', days: 30 },
+];
+
+const roundMacro = (value) => Math.round(value * 10) / 10;
+
+/**
+ * Look up a history range
+ * @param {string} rangeId - Range ID
+ * @returns {*} History range, defaulting to a week
+ */
+export const getHistoryRange = (rangeId) =>
+  HISTORY_RANGES.find(range => range.id === rangeId) || HISTORY_RANGES[0];
+
+/**
+ * Work out the first and last day of a range ending on a given day
+ * @param {string} rangeId - Range ID
+ * @param {Date} endDate - Last day of the range
+ * @returns {{ startDate: Date, endDate: Date }} Range bounds, inclusive
+ */
+export const getHistoryBounds = (rangeId, endDate) => ({
+  startDate: addDays(endDate, -(getHistoryRange(rangeId).days - 1)),
+  endDate,
+});
+
+/**
+ * Total calories and macros per day
+ * @param {Array} entries - Calorie entries in the range
+ * @param {Date} startDate - First day
+ * @param {Date} endDate - Last day
+ * @returns {Array<{ dateKey: string, date: Date, calories: number, protein: number, carbs: number, fat: number, entryCount: number }>} One row per day, newest first
+ */
+export const getDailyTotals = (entries, startDate, endDate) => {
+  /** @type {Object<string, *>} */
+  const byDay = {};
+  for (let date = new Date(startDate); toDateKey(date) <= toDateKey(endDate); date = addDays(date, 1)) {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    byDay[toDateKey(day)] = { dateKey: toDateKey(day), date: day, calories: 0, protein: 0, carbs: 0, fat: 0, entryCount: 0 };
+  }
+
+  entries.forEach(entry => {
+    const date = entry.date?.toDate ? entry.date.toDate() : new Date(entry.date);
+    const day = byDay[toDateKey(date)];
+    if (!day) return;
+
+    day.calories += entry.amount || 0;
+    day.protein += entry.protein || 0;
+    day.carbs += entry.carbs || 0;
+    day.fat += entry.fat || 0;
+    day.entryCount += 1;
+  });
+
+  return Object.values(byDay)
+    .map(day => ({ ...day, protein: roundMacro(day.protein), carbs: roundMacro(day.carbs), fat: roundMacro(day.fat) }))
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+};
+
+/**
+ * Summarize a range of daily totals
+ * Averages only count days with something logged
+ * @param {Array} days - Daily totals
+ * @returns {{ loggedDays: number, averageCalories: number, highestCalories: number }} Summary
+ */
+export const summarizeHistory = (days) => {
+  const logged = days.filter(day => day.entryCount > 0);
+  const total = logged.reduce((sum, day) => sum + day.calories, 0);
+
+  return {
+    loggedDays: logged.length,
+    averageCalories: logged.length > 0 ? Math.round(total / logged.length) : 0,
+    highestCalories: logged.reduce((max, day) => Math.max(max, day.calories), 0),
+  };
+};
@@ -0,0 +1,209 @@
+/**
+ * Cardio entries
+ * Cardio is logged as a workout with type 'cardio' and a cardio object holding
+ * distance in km, duration in minutes, heart rate and elevation gain in meters
+ */
+
+export const DISTANCE_UNITS = ['km', 'mi'];
+
+export const DEFAULT_DISTANCE_UNIT = 'km';
+
+const KM_PER_MILE = 1.609344;
+
+// Pace is shown per distance for run/row/swim, speed for bike
+export const CARDIO_ACTIVITIES = [
+  { id: 'run', label: 'Run', icon: 'walk-outline', display: 'pace' },
+  { id: 'bike', label: 'Bike', icon: 'bicycle-outline', display: 'speed' },
+  { id: 'row', label: 'Row', icon: 'boat-outline', display: 'split', splitMeters: 500 },
+  { id: 'swim', label: 'Swim', icon: 'water-outline', display: 'split', splitMeters: 100 },
+];
+
+/**
+ * Look up an activity definition
+ * @param {string} activityId - Activity ID
+ * @returns {*} Activity definition, or undefined
+ */
+export const getCardioActivity = (activityId) =>
+  CARDIO_ACTIVITIES.find(activity => activity.id === activityId);
+
+/**
+ * Check whether a workout is a cardio entry
+ * @param {Object} workout - Workout document data
+ * @returns {boolean} True for cardio entries
+ */
+export const isCardioWorkout = (workout) => workout.type === 'cardio' && !!workout.cardio;
+
+/**
+ * Convert a distance between km and miles
+ * @param {number} value - Distance to convert
+ * @param {string} fromUnit - 'km' or 'mi'
+ * @param {string} toUnit - 'km' or 'mi'
+ * @returns {number} Converted distance, rounded to two decimals
+ */
+export const convertDistance = (value, fromUnit, toUnit) => {
+  if (fromUnit === toUnit) return value;
+
+  const converted = fromUnit === 'mi' ? value * KM_PER_MILE : value / KM_PER_MILE;
+  return Math.round(converted * 100) / 100;
+};
+
+const formatClock = (totalSeconds) => {
+  // Round before splitting so 4:59.9 shows as 5:00 rather than 4:60
+  const rounded = Math.round(totalSeconds);
+  const minutes = Math.floor(rounded / 60);
+  const seconds = String(rounded % 60).padStart(2, '0');
+  return `${minutes}:${seconds}`;
+};
+
+/**
+ * Format a duration in minutes as h:mm:ss or m:ss
+ * @param {number} minutes - Duration in minutes
+ * @returns {string} Formatted duration
+ */
+export const formatDuration = (minutes) => {
+  const totalSeconds = Math.round(minutes * 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  if (hours === 0) {
+    return formatClock(totalSeconds);
+  }
+  const clock = formatClock(totalSeconds % 3600);
+  return `${hours}:${clock.padStart(5, '0')}`;
+};
+
+/**
+ * Compute the pace or speed for an entry, e.g. "5:10 /km", "28.4 km/h" or "2:05 /500m"
+ * @param {string} activityId - Activity ID
+ * @param {number} distanceKm - Distance in km
+ * @param {number} durationMinutes - Duration in minutes
+ * @param {string} [distanceUnit] - Preferred distance unit
+ * @returns {string|null} Formatted pace, or null without distance and duration
+ */
+export const computePace = (activityId, distanceKm, durationMinutes, distanceUnit = DEFAULT_DISTANCE_UNIT) => {
+  if (!distanceKm || !durationMinutes) return null;
+
+  const activity = getCardioActivity(activityId);
+  const distance = convertDistance(distanceKm, 'km', distanceUnit);
+
+  if (activity?.display === 'speed') {
+    const speed = Math.round((distance / (durationMinutes / 60)) * 10) / 10;
+    return `${speed} ${distanceUnit === 'mi' ? 'mph' : 'km/h'}`;
+  }
+  if (activity?.display === 'split') {
+    const splits = (distanceKm * 1000) / activity.splitMeters;
+    return `${formatClock((durationMinutes * 60) / splits)} /${activity.splitMeters}m`;
+  }
+  return `${formatClock((durationMinutes * 60) / distance)} /${distanceUnit}`;
+};
+
+/**
+ * Validate cardio form inputs and convert them into a stored cardio object
+ * @param {Object} inputs - { activity, distance, duration, avgHeartRate, maxHeartRate, elevation } as strings
+ * @param {string} [distanceUnit] - Unit the distance was entered in
+ * @returns {{ cardio: *, error: ?string }} Cardio object or a validation message
+ */
+export const parseCardioInputs = (inputs, distanceUnit = DEFAULT_DISTANCE_UNIT) => {
+  if (!getCardioActivity(inputs.activity)) {
+    return { cardio: null, error: 'Please choose an activity' };
+  }
+
+  const durationMinutes = parseFloat(inputs.duration);
+  if (isNaN(durationMinutes) || durationMinutes <= 0) {
+    return { cardio: null, error: 'Enter the duration in minutes' };
+  }
+
+  const distance = inputs.distance ? parseFloat(inputs.distance) : 0;
+  if (isNaN(distance) || distance < 0) {
+    return { cardio: null, error: 'Enter a valid distance' };
+  }
+
+  const avgHeartRate = inputs.avgHeartRate ? parseInt(inputs.avgHeartRate) : null;
+  const maxHeartRate = inputs.maxHeartRate ? parseInt(inputs.maxHeartRate) : null;
+  for (const heartRate of [avgHeartRate, maxHeartRate]) {
+    if (heartRate !== null && (isNaN(heartRate) || heartRate < 30 || heartRate > 240)) {
+      return { cardio: null, error: 'Heart rate must be between 30 and 240 bpm' };
+    }
+  }
+  if (avgHeartRate && maxHeartRate && avgHeartRate > maxHeartRate) {
+    return { cardio: null, error: 'Average heart rate can\'t be higher than max heart rate' };
+  }
+
+  const elevationGain = inputs.elevation ? parseFloat(inputs.elevation) : null;
+  if (elevationGain !== null && (isNaN(elevationGain) || elevationGain < 0)) {
+    return { cardio: null, error: 'Enter a valid elevation gain' };
+  }
+
+  return {
+    cardio: {
+      activity: inputs.activity,
+      distanceKm: convertDistance(distance, distanceUnit, 'km'),
+      durationMinutes,
+      avgHeartRate,
+      maxHeartRate,
+      // Elevation is entered in feet alongside miles, meters alongside km
+      elevationGainMeters: elevationGain !== null && distanceUnit === 'mi'
+        ? Math.round(elevationGain * 0.3048)
+        : elevationGain,
+    },
+    error: null,
+  };
+};
+
+/**
+ * Convert a stored cardio object back into form inputs
+ * @param {Object} [cardio] - Stored cardio object
+ * @param {string} [distanceUnit] - Preferred distance unit
+ * @returns {{ activity: string, distance: string, duration: string, avgHeartRate: string, maxHeartRate: string, elevation: string }} Form inputs as strings
+ */
+export const toCardioInputs = (cardio, distanceUnit = DEFAULT_DISTANCE_UNIT) => {
+  if (!cardio) {
+    return { activity: 'run', distance: '', duration: '', avgHeartRate: '', maxHeartRate: '', elevation: '' };
+  }
+
+  const elevation = cardio.elevationGainMeters != null && distanceUnit === 'mi'
+    ? Math.round(cardio.elevationGainMeters / 0.3048)
+    : cardio.elevationGainMeters;
+
+  return {
+    activity: cardio.activity,
+    distance: cardio.distanceKm ? String(convertDistance(cardio.distanceKm, 'km', distanceUnit)) : '',
+    duration: String(cardio.durationMinutes),
+    avgHeartRate: cardio.avgHeartRate ? String(cardio.avgHeartRate) : '',
+    maxHeartRate: cardio.maxHeartRate ? String(cardio.maxHeartRate) : '',
+    elevation: elevation != null ? String(elevation) : '',
+  };
+};
+
+/**
+ * Summarize a cardio entry, e.g. "5.2 km run" or "45 min bike"
+ * @param {Object} cardio - Stored cardio object
+ * @param {string} [distanceUnit] - Preferred distance unit
+ * @returns {string} Display text
+ */
+export const describeCardio = (cardio, distanceUnit = DEFAULT_DISTANCE_UNIT) => {
+  const label = (getCardioActivity(cardio.activity)?.label || 'Cardio').toLowerCase();
+  if (cardio.distanceKm > 0) {
+    return `${convertDistance(cardio.distanceKm, 'km', distanceUnit)} ${distanceUnit} ${label}`;
+  }
+  return `${Math.round(cardio.durationMinutes)} min ${label}`;
+};
+
+/**
+ * Total cardio by activity, for profile stats
+ * @param {Array} workouts - Workouts (non-cardio workouts are ignored)
+ * @returns {Array} { activity, count, distanceKm, durationMinutes } for each activity logged
+ */
+export const summarizeCardio = (workouts) => {
+  const totals = {};
+
+  workouts.filter(isCardioWorkout).forEach(workout => {
+    const { activity, distanceKm, durationMinutes } = workout.cardio;
+    if (!totals[activity]) {
+      totals[activity] = { activity, count: 0, distanceKm: 0, durationMinutes: 0 };
+    }
+    totals[activity].count += 1;
+    totals[activity].distanceKm += distanceKm || 0;
+    totals[activity].durationMinutes += durationMinutes || 0;
+  });
+
+  return CARDIO_ACTIVITIES.map(activity => totals[activity.id]).filter(Boolean);
+};
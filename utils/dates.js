@@ -0,0 +1,64 @@
+/**
+ * Date helpers shared across screens
+ */
+
+/**
+ * Format a date as a local YYYY-MM-DD key
+ * @param {Date} date - Date to format
+ * @returns {string} Date key, e.g. "2025-01-31"
+ */
+export const toDateKey = (date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Parse a YYYY-MM-DD key into a local date at midnight
+ * @param {string} [dateKey] - Date key
+ * @returns {Date|null} Parsed date, or null if the key is malformed
+ */
+export const parseDateKey = (dateKey) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateKey || '');
+  if (!match) {
+    return null;
+  }
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+/**
+ * Check whether two dates fall on the same local day
+ * @param {Date} a - First date
+ * @param {Date} b - Second date
+ * @returns {boolean} True if same day
+ */
+export const isSameDay = (a, b) => a.toDateString() === b.toDateString();
+
+/**
+ * Shift a date by a number of days
+ * @param {Date} date - Starting date
+ * @param {number} days - Days to add (negative to go back)
+ * @returns {Date} New date
+ */
+export const addDays = (date, days) => {
+  const shifted = new Date(date);
+  shifted.setDate(shifted.getDate() + days);
+  return shifted;
+};
+
+/**
+ * Human-friendly label for a day ("Today", "Yesterday", "Mon, Jan 6")
+ * @param {Date} date - Date to label
+ * @returns {string} Display label
+ */
+export const formatDisplayDate = (date) => {
+  const today = new Date();
+  if (isSameDay(date, today)) {
+    return 'Today';
+  }
+  if (isSameDay(date, addDays(today, -1))) {
+    return 'Yesterday';
+  }
+  return date.toLocaleDateString('default', { weekday: 'short', month: 'short', day: 'numeric' });
+};
@@ -0,0 +1,205 @@
+import { addDays, toDateKey } from './dates';
+
+/**
+ * BMR and TDEE estimates
+ * BMR comes from Mifflin-St Jeor, or Katch-McArdle when body fat is known, and is scaled
+ * by activity level. Once enough intake and weigh-ins are logged, an adaptive estimate
+ * works TDEE back from what was eaten and how body weight actually moved
+ */
+
+export const ACTIVITY_LEVELS = [
+  { id: 'sedentary', label: 'Sedentary', description: 'Desk job, little exercise', multiplier: 1.2 },
+  { id: 'light', label: 'Lightly Active', description: 'Exercise 1-3 days a week', multiplier: 1.375 },
+  { id: 'moderate', label: 'Moderately Active', description: 'Exercise 3-5 days a week', multiplier: 1.55 },
+  { id: 'active', label: 'Very Active', description: 'Hard exercise 6-7 days a week', multiplier: 1.725 },
+  { id: 'athlete', label: 'Athlete', description: 'Training twice a day or physical job', multiplier: 1.9 },
+];
+
+export const WEIGHT_GOALS = [
+  { id: 'lose', label: 'Lose', description: 'About 1 lb a week', adjustment: -500 },
+  { id: 'maintain', label: 'Maintain', description: 'Hold current weight', adjustment: 0 },
+  { id: 'gain', label: 'Gain', description: 'About 0.5 lb a week', adjustment: 250 },
+];
+
+// Energy in a pound of body weight change
+const CALORIES_PER_LB = 3500;
+
+const KG_PER_LB = 0.45359237;
+
+// How far back the adaptive estimate looks, and how much data it needs
+export const ADAPTIVE_WINDOW_DAYS = 28;
+const MIN_LOGGED_DAYS = 14;
+const MIN_WEIGH_INS = 3;
+const MIN_WEIGH_IN_SPAN_DAYS = 14;
+
+const DAY_MILLIS = 24 * 60 * 60 * 1000;
+
+const toDate = (value) => (value?.toDate ? value.toDate() : new Date(value));
+
+/**
+ * Look up an activity level
+ * @param {string} activityLevelId - Activity level ID
+ * @returns {*} Activity level, defaulting to sedentary
+ */
+export const getActivityLevel = (activityLevelId) =>
+  ACTIVITY_LEVELS.find(level => level.id === activityLevelId) || ACTIVITY_LEVELS[0];
+
+/**
+ * Look up a weight goal
+ * @param {string} weightGoalId - Weight goal ID
+ * @returns {*} Weight goal, defaulting to maintain
+ */
+export const getWeightGoal = (weightGoalId) =>
+  WEIGHT_GOALS.find(goal => goal.id === weightGoalId) || WEIGHT_GOALS[1];
+
+/**
+ * Mifflin-St Jeor resting energy expenditure
+ * @param {{ sex: string, age: number, heightCm: number, weightLbs: number }} profile - Body profile
+ * @returns {number} BMR in calories per day
+ */
+export const calculateMifflinStJeor = ({ sex, age, heightCm, weightLbs }) => {
+  const weightKg = weightLbs * KG_PER_LB;
+  const base = 10 * weightKg + 6.25 * heightCm - 5 * age;
+  return Math.round(sex === 'female' ? base - 161 : base + 5);
+};
+
+/**
+ * Katch-McArdle resting energy expenditure, from lean body mass
+ * @param {{ weightLbs: number, bodyFatPercent: number }} profile - Body profile
+ * @returns {number} BMR in calories per day
+ */
+export const calculateKatchMcArdle = ({ weightLbs, bodyFatPercent }) => {
+  const leanMassKg = weightLbs * KG_PER_LB * (1 - bodyFatPercent / 100);
+  return Math.round(370 + 21.6 * leanMassKg);
+};
+
+/**
+ * Work out BMR with the best formula the profile allows
+ * @param {{ sex: string, age: number, heightCm: number, weightLbs: number, bodyFatPercent?: number|null }} profile - Body profile
+ * @returns {{ bmr: number, formula: string }} BMR and the formula used
+ */
+export const calculateBmr = (profile) => {
+  if (profile.bodyFatPercent && profile.bodyFatPercent > 0 && profile.bodyFatPercent < 100) {
+    return { bmr: calculateKatchMcArdle(profile), formula: 'Katch-McArdle' };
+  }
+  return { bmr: calculateMifflinStJeor(profile), formula: 'Mifflin-St Jeor' };
+};
+
+/**
+ * Collect body weight weigh-ins from logged workouts
+ * @param {Array} workouts - Workout documents
+ * @returns {Array<{ date: Date, weightLbs: number }>} Weigh-ins, oldest first
+ */
+export const getWeighIns = (workouts) =>
+  workouts
+    .filter(workout => typeof workout.stats?.weight?.value === 'number')
+    .map(workout => ({ date: toDate(workout.date), weightLbs: workout.stats.weight.value }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+/**
+ * Fit a trend line through weigh-ins so single noisy readings don't dominate
+ * @param {Array<{ date: Date, weightLbs: number }>} weighIns - Weigh-ins
+ * @returns {*} { lbsPerDay, spanDays, latestTrendLbs } or null with fewer than two weigh-ins
+ */
+export const getWeightTrend = (weighIns) => {
+  if (weighIns.length < 2) return null;
+
+  const origin = weighIns[0].date.getTime();
+  const points = weighIns.map(weighIn => ({ x: (weighIn.date.getTime() - origin) / DAY_MILLIS, y: weighIn.weightLbs }));
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (variance === 0) return null;
+
+  const lbsPerDay = covariance / variance;
+  const spanDays = points[points.length - 1].x;
+  return {
+    lbsPerDay,
+    spanDays,
+    latestTrendLbs: Math.round((meanY + lbsPerDay * (spanDays - meanX)) * 10) / 10,
+  };
+};
+
+/**
+ * Estimate TDEE from logged intake and the body weight trend over recent weeks
+ * Days with no entries are skipped rather than counted as zero calories, and today is
+ * left out of the intake average since it is usually only partly logged
+ * @param {Array} calorieEntries - Calorie entries in the window
+ * @param {Array} workouts - Workout documents (for body weight stats)
+ * @param {Date} [now] - End of the window
+ * @returns {*} { tdee, averageIntake, loggedDays, weighIns, weeklyChangeLbs } or { tdee: null, reason }
+ */
+export const estimateAdaptiveTdee = (calorieEntries, workouts, now = new Date()) => {
+  const windowStart = addDays(now, -ADAPTIVE_WINDOW_DAYS);
+  const todayKey = toDateKey(now);
+
+  /** @type {Object<string, number>} */
+  const intakeByDay = {};
+  calorieEntries.forEach(entry => {
+    const date = toDate(entry.date);
+    const key = toDateKey(date);
+    if (date < windowStart || key >= todayKey) return;
+    intakeByDay[key] = (intakeByDay[key] || 0) + (entry.amount || 0);
+  });
+
+  const loggedDays = Object.keys(intakeByDay).length;
+  if (loggedDays < MIN_LOGGED_DAYS) {
+    return { tdee: null, reason: `Log food on at least ${MIN_LOGGED_DAYS} of the last ${ADAPTIVE_WINDOW_DAYS} days (${loggedDays} so far)` };
+  }
+
+  const weighIns = getWeighIns(workouts).filter(weighIn => weighIn.date >= windowStart && weighIn.date <= now);
+  const trend = getWeightTrend(weighIns);
+  if (weighIns.length < MIN_WEIGH_INS || !trend || trend.spanDays < MIN_WEIGH_IN_SPAN_DAYS) {
+    return { tdee: null, reason: `Log body weight at least ${MIN_WEIGH_INS} times over ${MIN_WEIGH_IN_SPAN_DAYS}+ days` };
+  }
+
+  const averageIntake = Object.values(intakeByDay).reduce((sum, calories) => sum + calories, 0) / loggedDays;
+  // Eating above TDEE stores the surplus, so expenditure is intake minus the daily change in stored energy
+  const tdee = averageIntake - trend.lbsPerDay * CALORIES_PER_LB;
+
+  return {
+    tdee: Math.round(tdee),
+    averageIntake: Math.round(averageIntake),
+    loggedDays,
+    weighIns: weighIns.length,
+    weeklyChangeLbs: Math.round(trend.lbsPerDay * 7 * 10) / 10,
+  };
+};
+
+/**
+ * Turn a TDEE estimate into a daily calorie goal, with the reasoning spelled out
+ * The adaptive estimate is preferred when there is enough data for it
+ * @param {{ sex: string, age: number, heightCm: number, weightLbs: number, bodyFatPercent?: number|null, activityLevel: string, weightGoal: string }} profile - Body profile
+ * @param {*} [adaptive] - Result of estimateAdaptiveTdee
+ * @returns {{ calories: number, tdee: number, bmr: number, method: string, explanation: string }} Calorie goal and how it was derived
+ */
+export const deriveCalorieGoal = (profile, adaptive) => {
+  const { bmr, formula } = calculateBmr(profile);
+  const activity = getActivityLevel(profile.activityLevel);
+  const weightGoal = getWeightGoal(profile.weightGoal);
+  const formulaTdee = Math.round(bmr * activity.multiplier);
+
+  const useAdaptive = !!adaptive?.tdee;
+  const tdee = useAdaptive ? adaptive.tdee : formulaTdee;
+  // Goals are rounded to the nearest 10 so they don't look more precise than they are
+  const calories = Math.round((tdee + weightGoal.adjustment) / 10) * 10;
+
+  const basis = useAdaptive
+    ? `TDEE of ${tdee.toLocaleString()} cal from ${adaptive.loggedDays} logged days averaging ` +
+      `${adaptive.averageIntake.toLocaleString()} cal while weight changed ${adaptive.weeklyChangeLbs > 0 ? '+' : ''}` +
+      `${adaptive.weeklyChangeLbs} lbs/week (formula estimate: ${formulaTdee.toLocaleString()} cal)`
+    : `${formula} BMR of ${bmr.toLocaleString()} cal × ${activity.multiplier} for ${activity.label.toLowerCase()} = ` +
+      `TDEE of ${tdee.toLocaleString()} cal`;
+  const adjustment = weightGoal.adjustment === 0
+    ? 'kept at maintenance'
+    : `${weightGoal.adjustment > 0 ? '+' : '-'}${Math.abs(weightGoal.adjustment)} cal to ${weightGoal.label.toLowerCase()} ${weightGoal.description.toLowerCase()}`;
+
+  return {
+    calories,
+    tdee,
+    bmr,
+    method: useAdaptive ? 'adaptive' : formula,
+    explanation: `${basis}, ${adjustment}.`,
+  };
+};
@@ -0,0 +1,105 @@
+import { EXERCISE_CATALOG } from '../constants/exercises';
+import { getExerciseKey } from './personalRecords';
+
+/**
+ * Exercise library helpers
+ * Merges the built-in catalog with a user's custom exercises and maps
+ * logged exercises back to the muscle groups they work
+ */
+
+// Values written by the log-workout screen that are not muscle groups
+const NON_MUSCLE_GROUPS = ['Stats Only'];
+
+// Legacy groups covered more specifically by the library
+const LEGACY_MUSCLE_GROUPS = {
+  Arms: ['Biceps', 'Triceps', 'Forearms'],
+  Legs: ['Quads', 'Hamstrings', 'Glutes', 'Calves'],
+};
+
+/**
+ * Combine the built-in catalog with a user's custom exercises
+ * @param {Array} customExercises - Custom exercises from Firestore
+ * @returns {Array} Library sorted by name, custom exercises flagged with isCustom
+ */
+export const buildExerciseLibrary = (customExercises = []) =>
+  [
+    ...EXERCISE_CATALOG.map(exercise => ({ ...exercise, isCustom: false })),
+    ...customExercises.map(exercise => ({ ...exercise, isCustom: true })),
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Find the library entry for a logged exercise, by ID first and then by name
+ * @param {Array} library - Exercise library
+ * @param {Object} exercise - Logged exercise ({ name, exerciseId? })
+ * @returns {*} Library entry, or null for free-text exercises
+ */
+export const findLibraryExercise = (library, exercise) => {
+  if (exercise.exerciseId) {
+    const byId = library.find(entry => entry.id === exercise.exerciseId);
+    if (byId) return byId;
+  }
+
+  const key = getExerciseKey(exercise.name);
+  return library.find(entry => getExerciseKey(entry.name) === key) || null;
+};
+
+/**
+ * Search the library by exercise name or muscle group
+ * @param {Array} library - Exercise library
+ * @param {string} searchQuery - Text to match
+ * @returns {Array} Matching exercises
+ */
+export const searchExerciseLibrary = (library, searchQuery) => {
+  const term = getExerciseKey(searchQuery);
+  if (!term) return library;
+
+  return library.filter(exercise =>
+    getExerciseKey(exercise.name).includes(term) ||
+    exercise.primaryMuscles.some(muscle => getExerciseKey(muscle).includes(term))
+  );
+};
+
+/**
+ * Derive the muscle groups a set of logged exercises worked
+ * @param {Array} library - Exercise library
+ * @param {Array} exercises - Logged exercises
+ * @param {boolean} includeSecondary - Also include secondary muscles
+ * @returns {Array<string>} Unique muscle groups, primary muscles first
+ */
+export const deriveMuscleGroups = (library, exercises, includeSecondary = false) => {
+  const primary = [];
+  const secondary = [];
+
+  exercises.forEach(exercise => {
+    const entry = findLibraryExercise(library, exercise);
+    if (!entry) return;
+
+    entry.primaryMuscles.forEach(muscle => primary.push(muscle));
+    if (includeSecondary) {
+      (entry.secondaryMuscles || []).forEach(muscle => secondary.push(muscle));
+    }
+  });
+
+  return [...new Set([...primary, ...secondary])];
+};
+
+/**
+ * Read a workout's muscle groups, supporting legacy single-string workouts
+ * @param {Object} workout - Workout document data
+ * @returns {Array<string>} Muscle groups, without non-muscle markers like "Stats Only"
+ */
+export const getWorkoutMuscleGroups = (workout) => {
+  const groups = Array.isArray(workout.muscleGroups)
+    ? workout.muscleGroups
+    : [workout.muscleGroup];
+
+  return groups.filter(group => group && !NON_MUSCLE_GROUPS.includes(group));
+};
+
+/**
+ * Expand legacy groups (e.g. "Legs") into the library's specific muscle groups
+ * @param {string} muscleGroup - Muscle group name
+ * @returns {Array<string>} Specific muscle groups
+ */
+export const expandLegacyMuscleGroup = (muscleGroup) =>
+  LEGACY_MUSCLE_GROUPS[muscleGroup] || [muscleGroup];
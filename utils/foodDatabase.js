@@ -0,0 +1,78 @@
+import { FOOD_CATALOG } from '../constants/foods';
+
+/**
+ * Food database helpers
+ * Merges the built-in food catalog with a user's custom foods and works out
+ * calories and macros for a serving size and quantity
+ */
+
+const MACRO_KEYS = ['protein', 'carbs', 'fat'];
+
+const getSearchKey = (text) => (text || '').trim().toLowerCase();
+
+/**
+ * Combine the built-in catalog with a user's custom foods
+ * @param {Array} customFoods - Custom foods from Firestore
+ * @returns {Array} Foods sorted by name, custom foods flagged with isCustom
+ */
+export const buildFoodDatabase = (customFoods = []) =>
+  [
+    ...FOOD_CATALOG.map(food => ({ ...food, isCustom: false })),
+    ...customFoods.map(food => ({ ...food, isCustom: true })),
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Search foods by name
+ * Custom foods and names starting with the search come first
+ * @param {Array} foods - Food database
+ * @param {string} searchQuery - Text to match
+ * @returns {Array} Matching foods
+ */
+export const searchFoods = (foods, searchQuery) => {
+  const term = getSearchKey(searchQuery);
+  if (!term) return foods;
+
+  const rank = (food) =>
+    (food.isCustom ? 0 : 2) + (getSearchKey(food.name).startsWith(term) ? 0 : 1);
+
+  return foods
+    .filter(food => getSearchKey(food.name).includes(term))
+    .sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+};
+
+/**
+ * Work out calories and macros for an amount of a food
+ * @param {Object} food - Food from the database
+ * @param {number} servingIndex - Index into the food's servings
+ * @param {number} quantity - Number of servings
+ * @returns {{ calories: number, protein: number, carbs: number, fat: number }} Calories rounded to whole numbers, macros to 0.1 g
+ */
+export const scaleFoodServing = (food, servingIndex, quantity) => {
+  const serving = food.servings[servingIndex] || food.servings[0];
+  const multiplier = (serving?.scale ?? 1) * quantity;
+
+  /** @type {{ calories: number, protein: number, carbs: number, fat: number }} */
+  const scaled = {
+    calories: Math.round((food.calories || 0) * multiplier),
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+  };
+  MACRO_KEYS.forEach(key => {
+    scaled[key] = Math.round((food[key] || 0) * multiplier * 10) / 10;
+  });
+  return scaled;
+};
+
+/**
+ * Describe a food portion, e.g. "Banana (2 × 1 medium)"
+ * @param {Object} food - Food from the database
+ * @param {number} servingIndex - Index into the food's servings
+ * @param {number} quantity - Number of servings
+ * @returns {string} Display text, used as the calorie entry description
+ */
+export const describeFoodPortion = (food, servingIndex, quantity) => {
+  const serving = food.servings[servingIndex] || food.servings[0];
+  const label = serving?.label || 'serving';
+  return quantity === 1 ? `${food.name} (${label})` : `${food.name} (${quantity} × ${label})`;
+};
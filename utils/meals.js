@@ -0,0 +1,68 @@
+/**
+ * Meal slots for calorie entries
+ * Entries store a slot ID in meal, plus mealName when the slot is custom. Entries
+ * logged before slots existed have no meal and are grouped under Other
+ */
+
+export const MEAL_SLOTS = [
+  { id: 'breakfast', label: 'Breakfast' },
+  { id: 'lunch', label: 'Lunch' },
+  { id: 'dinner', label: 'Dinner' },
+  { id: 'snacks', label: 'Snacks' },
+  { id: 'custom', label: 'Custom' },
+];
+
+const UNCATEGORIZED_LABEL = 'Other';
+
+/**
+ * Pick the meal slot that fits a time of day
+ * @param {Date} [now] - Time to go by
+ * @returns {string} Meal slot ID
+ */
+export const getDefaultMealSlot = (now = new Date()) => {
+  const hour = now.getHours();
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 15) return 'lunch';
+  if (hour >= 17 && hour < 21) return 'dinner';
+  return 'snacks';
+};
+
+/**
+ * Get the display name of an entry's meal
+ * @param {{ meal?: string, mealName?: string }} entry - Calorie entry
+ * @returns {string} Slot label, custom meal name, or "Other"
+ */
+export const getMealLabel = (entry) => {
+  if (entry.meal === 'custom') return entry.mealName?.trim() || UNCATEGORIZED_LABEL;
+  return MEAL_SLOTS.find(slot => slot.id === entry.meal)?.label || UNCATEGORIZED_LABEL;
+};
+
+/**
+ * Group a day's entries by meal, for sectioned lists
+ * Built-in slots come first in the order of the day, then custom meals by name, then Other
+ * @param {Array} entries - Calorie entries
+ * @returns {Array<{ key: string, title: string, total: number, data: Array }>} Meal groups with calorie subtotals
+ */
+export const groupEntriesByMeal = (entries) => {
+  /** @type {Object<string, { key: string, title: string, total: number, data: Array }>} */
+  const groups = {};
+  entries.forEach(entry => {
+    const title = getMealLabel(entry);
+    const isBuiltIn = entry.meal && entry.meal !== 'custom' && title !== UNCATEGORIZED_LABEL;
+    const key = isBuiltIn ? entry.meal : title === UNCATEGORIZED_LABEL ? 'other' : `custom:${title.toLowerCase()}`;
+
+    if (!groups[key]) {
+      groups[key] = { key, title, total: 0, data: [] };
+    }
+    groups[key].data.push(entry);
+    groups[key].total += entry.amount || 0;
+  });
+
+  const rank = (key) => {
+    const slotIndex = MEAL_SLOTS.findIndex(slot => slot.id === key);
+    if (slotIndex >= 0) return slotIndex;
+    return key === 'other' ? MEAL_SLOTS.length + 1 : MEAL_SLOTS.length;
+  };
+
+  return Object.values(groups).sort((a, b) => rank(a.key) - rank(b.key) || a.title.localeCompare(b.title));
+};
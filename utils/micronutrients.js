@@ -0,0 +1,110 @@
+/**
+ * Extended nutrition beyond protein, carbs and fat
+ * Fiber, sugar, saturated fat and sodium are always available; vitamins and minerals are
+ * opt-in. Entries store amounts in a nutrients map keyed by nutrient, and settings live on
+ * the user document as nutrientSettings: { tracked: [micronutrient keys], goals: { key: number|null } }.
+ * A goal is a daily target to reach or a limit to stay under, depending on the nutrient
+ */
+
+export const EXTENDED_NUTRIENTS = [
+  { key: 'fiber', label: 'Fiber', unit: 'g', goalType: 'target' },
+  { key: 'sugar', label: 'Sugar', unit: 'g', goalType: 'limit' },
+  { key: 'saturatedFat', label: 'Saturated Fat', unit: 'g', goalType: 'limit' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', goalType: 'limit' },
+];
+
+export const MICRONUTRIENTS = [
+  { key: 'potassium', label: 'Potassium', unit: 'mg', goalType: 'target' },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', goalType: 'target' },
+  { key: 'iron', label: 'Iron', unit: 'mg', goalType: 'target' },
+  { key: 'magnesium', label: 'Magnesium', unit: 'mg', goalType: 'target' },
+  { key: 'vitaminA', label: 'Vitamin A', unit: 'mcg', goalType: 'target' },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', goalType: 'target' },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'mcg', goalType: 'target' },
+  { key: 'vitaminB12', label: 'Vitamin B12', unit: 'mcg', goalType: 'target' },
+];
+
+const ALL_NUTRIENTS = [...EXTENDED_NUTRIENTS, ...MICRONUTRIENTS];
+
+const roundAmount = (value) => Math.round(value * 10) / 10;
+
+const toGoal = (value) => (typeof value === 'number' && value > 0 ? value : null);
+
+/**
+ * Fill in any nutrient settings the user hasn't set
+ * @param {Object} [settings] - Stored nutrient settings
+ * @returns {{ tracked: Array<string>, goals: Object<string, number|null> }} Complete settings
+ */
+export const resolveNutrientSettings = (settings) => ({
+  tracked: MICRONUTRIENTS.map(nutrient => nutrient.key).filter(key => settings?.tracked?.includes(key)),
+  goals: Object.fromEntries(ALL_NUTRIENTS.map(nutrient => [nutrient.key, toGoal(settings?.goals?.[nutrient.key])])),
+});
+
+/**
+ * Nutrients to show on the entry form and in daily totals
+ * @param {Object} [settings] - Stored nutrient settings
+ * @returns {Array} Extended nutrients, then any tracked vitamins and minerals
+ */
+export const getTrackedNutrients = (settings) => {
+  const { tracked } = resolveNutrientSettings(settings);
+  return [...EXTENDED_NUTRIENTS, ...MICRONUTRIENTS.filter(nutrient => tracked.includes(nutrient.key))];
+};
+
+/**
+ * Keep only nutrient amounts that are valid, non-negative numbers
+ * @param {Object} [nutrients] - Nutrient amounts keyed by nutrient
+ * @returns {Object<string, number>} Clean nutrients map
+ */
+export const sanitizeNutrients = (nutrients) => {
+  /** @type {Object<string, number>} */
+  const clean = {};
+  ALL_NUTRIENTS.forEach(({ key }) => {
+    const value = nutrients?.[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      clean[key] = roundAmount(value);
+    }
+  });
+  return clean;
+};
+
+/**
+ * Scale every nutrient amount, e.g. for a portion multiplier
+ * @param {Object} [nutrients] - Nutrient amounts
+ * @param {number} factor - Multiplier
+ * @returns {Object<string, number>} Scaled nutrients
+ */
+export const scaleNutrients = (nutrients, factor) =>
+  Object.fromEntries(Object.entries(sanitizeNutrients(nutrients)).map(([key, value]) => [key, roundAmount(value * factor)]));
+
+/**
+ * Add up nutrients across a day's entries
+ * @param {Array} entries - Calorie entries
+ * @returns {Object<string, number>} Totals for every nutrient logged
+ */
+export const getNutrientTotals = (entries) => {
+  /** @type {Object<string, number>} */
+  const totals = {};
+  entries.forEach(entry => {
+    Object.entries(sanitizeNutrients(entry.nutrients)).forEach(([key, value]) => {
+      totals[key] = roundAmount((totals[key] || 0) + value);
+    });
+  });
+  return totals;
+};
+
+/**
+ * Compare a nutrient total against its goal
+ * @param {*} nutrient - Nutrient definition
+ * @param {number} total - Amount logged today
+ * @param {number|null} goal - Daily target or limit, or null if unset
+ * @returns {*} { fraction (0-1), status: 'under' | 'met' | 'over' } or null without a goal
+ */
+export const getNutrientStatus = (nutrient, total, goal) => {
+  if (!goal) return null;
+
+  const fraction = Math.min(1, total / goal);
+  if (nutrient.goalType === 'limit') {
+    return { fraction, status: total > goal ? 'over' : 'under' };
+  }
+  return { fraction, status: total >= goal ? 'met' : 'under' };
+};
@@ -0,0 +1,98 @@
+/**
+ * Daily calorie and macro goals
+ * Goals are stored on the user document as nutritionGoals; any goal left unset is null.
+ * shareGoalStatus lets friends see whether the calorie goal was hit instead of the total,
+ * and calorieGoalNote explains a calorie goal worked out by the calculator
+ */
+
+export const NUTRITION_GOAL_FIELDS = [
+  { key: 'calories', label: 'Calories', unit: 'cal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+];
+
+// How close to the calorie goal a day has to land to count as hitting it
+const CALORIE_GOAL_TOLERANCE = 0.1;
+
+const toGoal = (value) => (typeof value === 'number' && value > 0 ? value : null);
+
+/**
+ * Fill in any nutrition goals the user hasn't set
+ * @param {Object} [goals] - Stored nutrition goals
+ * @returns {{ calories: number|null, protein: number|null, carbs: number|null, fat: number|null, shareGoalStatus: boolean, calorieGoalNote: string|null }} Complete goals
+ */
+export const resolveNutritionGoals = (goals) => ({
+  calories: toGoal(goals?.calories),
+  protein: toGoal(goals?.protein),
+  carbs: toGoal(goals?.carbs),
+  fat: toGoal(goals?.fat),
+  shareGoalStatus: !!goals?.shareGoalStatus,
+  calorieGoalNote: toGoal(goals?.calories) && goals?.calorieGoalNote ? goals.calorieGoalNote : null,
+});
+
+/**
+ * Check whether any goal is set
+ * @param {Object} [goals] - Stored nutrition goals
+ * @returns {boolean} True if at least one goal has a target
+ */
+export const hasNutritionGoals = (goals) => {
+  const resolved = resolveNutritionGoals(goals);
+  return NUTRITION_GOAL_FIELDS.some(field => resolved[field.key] !== null);
+};
+
+/**
+ * Add up calories and macros across a day's entries
+ * @param {Array} entries - Calorie entries
+ * @returns {{ calories: number, protein: number, carbs: number, fat: number }} Totals, macros rounded to 0.1 g
+ */
+export const getNutritionTotals = (entries) => {
+  const totals = entries.reduce(
+    (sum, entry) => ({
+      calories: sum.calories + (entry.amount || 0),
+      protein: sum.protein + (entry.protein || 0),
+      carbs: sum.carbs + (entry.carbs || 0),
+      fat: sum.fat + (entry.fat || 0),
+    }),
+    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  );
+
+  return {
+    calories: totals.calories,
+    protein: Math.round(totals.protein * 10) / 10,
+    carbs: Math.round(totals.carbs * 10) / 10,
+    fat: Math.round(totals.fat * 10) / 10,
+  };
+};
+
+/**
+ * Work out progress toward a goal
+ * @param {number} consumed - Amount consumed so far
+ * @param {number|null} goal - Daily target, or null if unset
+ * @returns {*} { consumed, goal, remaining, fraction (0-1), over } or null without a goal
+ */
+export const getGoalProgress = (consumed, goal) => {
+  if (!goal) return null;
+
+  const remaining = Math.round((goal - consumed) * 10) / 10;
+  return {
+    consumed,
+    goal,
+    remaining: Math.max(0, remaining),
+    fraction: Math.min(1, consumed / goal),
+    over: remaining < 0 ? -remaining : 0,
+  };
+};
+
+/**
+ * Check whether a day's calories landed on the goal
+ * @param {number} totalCalories - Calories logged for the day
+ * @param {Object} [goals] - Stored nutrition goals
+ * @returns {boolean|null} True if within tolerance of the goal, null without a calorie goal
+ */
+export const hasHitCalorieGoal = (totalCalories, goals) => {
+  const { calories } = resolveNutritionGoals(goals);
+  if (!calories) return null;
+
+  return Math.abs(totalCalories - calories) <= calories * CALORIE_GOAL_TOLERANCE;
+};
@@ -0,0 +1,180 @@
+import { DEFAULT_WEIGHT_UNIT, formatWeight } from './stats';
+
+/**
+ * Personal record (PR) engine
+ * Computes per-exercise bests from workout history and flags new PRs
+ */
+
+/**
+ * Normalize an exercise name so "Bench Press" and "bench press " match
+ * @param {string} name - Exercise name
+ * @returns {string} Lookup key
+ */
+export const getExerciseKey = (name) => (name || '').trim().toLowerCase();
+
+/**
+ * Estimate a one-rep max using the Epley formula
+ * @param {number} weight - Weight lifted
+ * @param {number} reps - Reps completed
+ * @returns {number} Estimated 1RM, rounded to one decimal
+ */
+export const estimateOneRepMax = (weight, reps) => {
+  if (!weight || !reps || reps <= 0) {
+    return 0;
+  }
+  if (reps === 1) {
+    return weight;
+  }
+  return Math.round(weight * (1 + reps / 30) * 10) / 10;
+};
+
+const getWorkoutMillis = (workout) => {
+  if (workout.date?.toMillis) {
+    return workout.date.toMillis();
+  }
+  return new Date(workout.date).getTime();
+};
+
+/**
+ * Fold a single set into an exercise's record, returning the PR types it beat
+ */
+const applySet = (record, set, workout) => {
+  const beaten = [];
+  const achievedAt = { date: getWorkoutMillis(workout), workoutId: workout.id || null };
+  const weight = set.weight || 0;
+
+  if (weight > 0 && (!record.bestWeight || weight > record.bestWeight.weight)) {
+    record.bestWeight = { weight, reps: set.reps, ...achievedAt };
+    beaten.push({ type: 'weight', weight, reps: set.reps });
+  }
+
+  const oneRepMax = estimateOneRepMax(weight, set.reps);
+  if (oneRepMax > 0 && (!record.bestOneRepMax || oneRepMax > record.bestOneRepMax.value)) {
+    record.bestOneRepMax = { value: oneRepMax, weight, reps: set.reps, ...achievedAt };
+    beaten.push({ type: 'e1rm', value: oneRepMax, weight, reps: set.reps });
+  }
+
+  // Weight 0 tracks bodyweight rep maxes
+  const weightKey = String(weight);
+  const previousReps = record.repsAtWeight[weightKey];
+  if (!previousReps || set.reps > previousReps.reps) {
+    record.repsAtWeight[weightKey] = { reps: set.reps, ...achievedAt };
+    // A weight used for the first time sets a baseline rather than a reps PR
+    if (previousReps) {
+      beaten.push({ type: 'reps', weight, reps: set.reps });
+    }
+  }
+
+  return beaten;
+};
+
+const createRecord = (name) => ({
+  name,
+  bestWeight: null,
+  bestOneRepMax: null,
+  repsAtWeight: {}
+});
+
+const getCreatedMillis = (workout) => (workout.createdAt?.toMillis ? workout.createdAt.toMillis() : 0);
+
+// Oldest first; workouts on the same date are taken in the order they were logged
+const sortByDate = (workouts) =>
+  [...workouts].sort((a, b) => getWorkoutMillis(a) - getWorkoutMillis(b) || getCreatedMillis(a) - getCreatedMillis(b));
+
+/**
+ * Fold every set of a workout into the PR table
+ */
+const applyWorkout = (records, workout) => {
+  (workout.exercises || []).forEach(exercise => {
+    const key = getExerciseKey(exercise.name);
+    if (!key) return;
+
+    if (!records[key]) {
+      records[key] = createRecord(exercise.name);
+    }
+    (exercise.sets || []).forEach(set => applySet(records[key], set, workout));
+  });
+};
+
+/**
+ * Build the per-exercise PR table from a workout history
+ * @param {Array} workouts - Workouts with exercises arrays (any order)
+ * @returns {Object} Map of exercise key to record
+ */
+export const computePersonalRecords = (workouts) => {
+  const records = {};
+  sortByDate(workouts).forEach(workout => applyWorkout(records, workout));
+  return records;
+};
+
+/**
+ * Find the PRs a workout sets against previously established records
+ * @param {Object} records - PR table built from earlier workouts
+ * @param {Object} workout - Workout to check
+ * @returns {Array} New PRs as { exercise, type, weight, reps, value? }
+ */
+export const detectNewRecords = (records, workout) => {
+  // Work on a copy so several sets in one workout are compared against each other
+  const working = JSON.parse(JSON.stringify(records || {}));
+  const newRecords = {};
+
+  (workout.exercises || []).forEach(exercise => {
+    const key = getExerciseKey(exercise.name);
+    if (!key) return;
+
+    // An exercise's first ever session sets a baseline, not a PR
+    const isFirstSession = !working[key];
+    if (isFirstSession) {
+      working[key] = createRecord(exercise.name);
+    }
+
+    (exercise.sets || []).forEach(set => {
+      const beaten = applySet(working[key], set, workout);
+      if (isFirstSession) return;
+
+      // Later sets overwrite earlier ones, so each PR type is reported once per exercise
+      beaten.forEach(pr => {
+        newRecords[`${key}:${pr.type}`] = { exercise: working[key].name, ...pr };
+      });
+    });
+  });
+
+  return Object.values(newRecords);
+};
+
+/**
+ * Work out the PRs every workout set against the workouts logged before it
+ * Used to keep PR flags correct when an earlier workout is added, edited or deleted
+ * @param {Array} workouts - Workouts with IDs and exercises arrays (any order)
+ * @returns {Object<string, Array>} New PRs keyed by workout ID
+ */
+export const detectRecordsByWorkout = (workouts) => {
+  const records = {};
+  /** @type {Object<string, Array>} */
+  const byWorkout = {};
+
+  sortByDate(workouts).forEach(workout => {
+    byWorkout[workout.id] = detectNewRecords(records, workout);
+    applyWorkout(records, workout);
+  });
+
+  return byWorkout;
+};
+
+/**
+ * Describe a PR for display, e.g. "Bench Press: 225 lbs"
+ * @param {Object} pr - PR from detectNewRecords
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {string} Display text
+ */
+export const describeRecord = (pr, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  if (pr.type === 'weight') {
+    return `${pr.exercise}: heaviest ${formatWeight(pr.weight, weightUnit)}`;
+  }
+  if (pr.type === 'e1rm') {
+    return `${pr.exercise}: est. 1RM ${formatWeight(pr.value, weightUnit)}`;
+  }
+  return pr.weight > 0
+    ? `${pr.exercise}: ${pr.reps} reps at ${formatWeight(pr.weight, weightUnit)}`
+    : `${pr.exercise}: ${pr.reps} reps`;
+};
@@ -0,0 +1,168 @@
+import { convertWeight } from './stats';
+
+/**
+ * Warm-up sets and plate loading for barbell lifts
+ * Logged weights are in lbs; the bar and plate inventory can be in lbs or kg,
+ * in which case targets are converted before working out the plates
+ */
+
+// Standard gym inventories, as pairs of each plate
+export const DEFAULT_PLATE_SETTINGS = {
+  lbs: {
+    unit: 'lbs',
+    barWeight: 45,
+    plates: [
+      { weight: 45, pairs: 4 },
+      { weight: 35, pairs: 1 },
+      { weight: 25, pairs: 1 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 1 },
+      { weight: 2.5, pairs: 1 },
+    ],
+  },
+  kg: {
+    unit: 'kg',
+    barWeight: 20,
+    plates: [
+      { weight: 25, pairs: 4 },
+      { weight: 20, pairs: 1 },
+      { weight: 15, pairs: 1 },
+      { weight: 10, pairs: 1 },
+      { weight: 5, pairs: 1 },
+      { weight: 2.5, pairs: 1 },
+      { weight: 1.25, pairs: 1 },
+    ],
+  },
+};
+
+// Percentages of the working weight and reps for each warm-up set
+const WARMUP_SCHEME = [
+  { percent: 40, reps: 5 },
+  { percent: 60, reps: 3 },
+  { percent: 80, reps: 2 },
+];
+
+const EMPTY_BAR_REPS = 10;
+
+/**
+ * Fill in any plate settings the user hasn't configured
+ * @param {Object} [settings] - Stored plate settings
+ * @returns {typeof DEFAULT_PLATE_SETTINGS.lbs} Complete plate settings
+ */
+export const resolvePlateSettings = (settings) => {
+  const unit = settings?.unit === 'kg' ? 'kg' : 'lbs';
+  return {
+    ...DEFAULT_PLATE_SETTINGS[unit],
+    ...(settings || {}),
+    unit,
+  };
+};
+
+/**
+ * Smallest change in total weight the standard plates allow, a pair of the lightest plates
+ * @param {string} [unit] - 'lbs' or 'kg'
+ * @returns {number} Load step in that unit (5 lbs or 2.5 kg)
+ */
+export const getLoadStep = (unit) => {
+  const { plates } = resolvePlateSettings({ unit });
+  return Math.min(...plates.map(plate => plate.weight)) * 2;
+};
+
+/**
+ * Work out the plates to load on each side of the bar
+ * Uses the heaviest plates first, limited to the pairs available; outOfPlates is set
+ * when the shortfall comes from running out of plates rather than rounding
+ * @param {number} targetWeight - Total weight wanted, in the inventory's unit
+ * @param {Object} settings - Plate settings (bar weight and plate inventory)
+ * @returns {{ perSide: Array<{ weight: number, count: number }>, totalWeight: number, remainder: number, outOfPlates: boolean }} Loading details
+ */
+export const calculatePlates = (targetWeight, settings) => {
+  const { barWeight, plates } = settings;
+  let remainingPerSide = Math.max(0, (targetWeight - barWeight) / 2);
+  const perSide = [];
+
+  const available = [...plates]
+    .filter(plate => plate.weight > 0 && plate.pairs > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  available.forEach(plate => {
+    // Small epsilon so fractional plates aren't lost to floating point error
+    const count = Math.min(plate.pairs, Math.floor(remainingPerSide / plate.weight + 1e-9));
+    if (count > 0) {
+      perSide.push({ weight: plate.weight, count });
+      remainingPerSide -= count * plate.weight;
+    }
+  });
+
+  const loadedPerSide = perSide.reduce((sum, plate) => sum + plate.weight * plate.count, 0);
+  const totalWeight = Math.round((barWeight + loadedPerSide * 2) * 100) / 100;
+
+  const remainder = Math.round(Math.max(0, targetWeight - totalWeight) * 100) / 100;
+  const smallestPlate = available.length > 0 ? available[available.length - 1].weight : 0;
+
+  return {
+    perSide,
+    totalWeight,
+    remainder,
+    outOfPlates: remainder > 0 && remainder >= smallestPlate * 2,
+  };
+};
+
+/**
+ * Describe plates per side, e.g. "45 + 25 + 2.5" or "2 × 45 + 10"
+ * @param {Array} perSide - Plates from calculatePlates
+ * @returns {string} Display text
+ */
+export const formatPlates = (perSide) => {
+  if (perSide.length === 0) return 'Empty bar';
+  return perSide
+    .map(plate => (plate.count > 1 ? `${plate.count} × ${plate.weight}` : `${plate.weight}`))
+    .join(' + ');
+};
+
+/**
+ * Plan the loading for a weight logged in lbs
+ * @param {number} weightLbs - Logged weight in lbs
+ * @param {Object} [settings] - Stored plate settings
+ * @returns {*} { target, perSide, totalWeight, remainder, unit } in the inventory's unit
+ */
+export const planLoading = (weightLbs, settings) => {
+  const resolved = resolvePlateSettings(settings);
+  const target = convertWeight(weightLbs, 'lbs', resolved.unit);
+  return { target, unit: resolved.unit, ...calculatePlates(target, resolved) };
+};
+
+/**
+ * Generate warm-up sets leading up to a working weight
+ * Each warm-up is rounded down to a weight the inventory can load, and sets that
+ * would repeat a lighter one or reach the working weight are skipped
+ * @param {number} workingWeightLbs - Working set weight in lbs
+ * @param {Object} [settings] - Stored plate settings
+ * @returns {Array} Warm-up sets as { weight (lbs), reps, loading } where loading comes from planLoading
+ */
+export const generateWarmupSets = (workingWeightLbs, settings) => {
+  const resolved = resolvePlateSettings(settings);
+  const workingTarget = convertWeight(workingWeightLbs, 'lbs', resolved.unit);
+  if (!(workingTarget > resolved.barWeight)) return [];
+
+  const warmups = [{ target: resolved.barWeight, reps: EMPTY_BAR_REPS }];
+  WARMUP_SCHEME.forEach(({ percent, reps }) => {
+    warmups.push({ target: (workingTarget * percent) / 100, reps });
+  });
+
+  const sets = [];
+  let previousWeight = 0;
+  warmups.forEach(({ target, reps }) => {
+    const loading = calculatePlates(target, resolved);
+    if (loading.totalWeight <= previousWeight || loading.totalWeight >= workingTarget) return;
+
+    previousWeight = loading.totalWeight;
+    sets.push({
+      weight: resolved.unit === 'lbs' ? loading.totalWeight : convertWeight(loading.totalWeight, resolved.unit, 'lbs'),
+      reps,
+      loading: { target: loading.totalWeight, unit: resolved.unit, ...loading },
+    });
+  });
+
+  return sets;
+};
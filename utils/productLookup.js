@@ -0,0 +1,125 @@
+import LOCAL_PRODUCTS from '../constants/products.json';
+
+/**
+ * Packaged product lookup by barcode
+ * Products come from a provider so the source can be swapped out; every provider
+ * implements lookup(upc) and resolves to a product in the food database shape
+ * ({ name, brand, servings, calories, protein, carbs, fat }) or null when unknown.
+ * Resolved products are cached so repeat lookups skip the provider
+ */
+
+// UPC-E/EAN-8, UPC-A, EAN-13 and GTIN-14 lengths
+const BARCODE_LENGTHS = [8, 12, 13, 14];
+
+/**
+ * Check a barcode's GS1 check digit
+ * @param {string} digits - Barcode digits including the check digit
+ * @returns {boolean} True if the check digit matches
+ */
+const hasValidCheckDigit = (digits) => {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  // Weights alternate 3, 1 starting from the digit next to the check digit
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * Expand a zero-suppressed UPC-E code to its UPC-A form
+ * The last body digit says which zeros were dropped from the manufacturer and product codes
+ * @param {string} digits - 8-digit UPC-E code (number system, 6 body digits, check digit)
+ * @returns {string} 12-digit UPC-A code
+ */
+const expandUpcE = (digits) => {
+  const [numberSystem, d1, d2, d3, d4, d5, d6, check] = digits;
+  let body;
+  if (d6 <= '2') {
+    body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  } else if (d6 === '3') {
+    body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  } else if (d6 === '4') {
+    body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  } else {
+    body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+  return `${numberSystem}${body}${check}`;
+};
+
+/**
+ * Clean up an entered or scanned barcode
+ * 8-digit codes are read as UPC-E when they expand to a valid UPC-A, and as EAN-8 otherwise
+ * @param {string} code - Barcode text, which may contain spaces or dashes
+ * @returns {string|null} Digits only with UPC-E expanded to UPC-A, or null if it isn't a valid UPC/EAN
+ */
+export const normalizeUpc = (code) => {
+  const digits = (code || '').replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits) || !BARCODE_LENGTHS.includes(digits.length)) return null;
+
+  // UPC-E codes only use number systems 0 and 1, and their check digit covers the expanded code
+  if (digits.length === 8 && /^[01]/.test(digits)) {
+    const upcA = expandUpcE(digits);
+    if (hasValidCheckDigit(upcA)) return upcA;
+  }
+  return hasValidCheckDigit(digits) ? digits : null;
+};
+
+// UPC-A, EAN-8 and EAN-13 codes are GTINs with leading zeros dropped, so compare codes at full length
+const toGtin = (upc) => upc.padStart(14, '0');
+
+/**
+ * Create a provider backed by a bundled product list, for development and offline use
+ * @param {Array} [products] - Products with a upc field
+ * @returns {{ name: string, lookup: (upc: string) => Promise<*> }} Product provider
+ */
+export const createLocalProductProvider = (products = LOCAL_PRODUCTS) => {
+  /** @type {Object<string, *>} */
+  const byGtin = {};
+  products.forEach(product => {
+    const upc = normalizeUpc(product.upc);
+    if (upc) byGtin[toGtin(upc)] = product;
+  });
+
+  return {
+    name: 'local',
+    lookup: async (upc) => byGtin[toGtin(upc)] || null,
+  };
+};
+
+export const defaultProductProvider = createLocalProductProvider();
+
+/**
+ * Look up a product, checking the cache before the provider
+ * Caching failures are logged rather than failing a lookup that succeeded
+ * @param {string} code - Entered or scanned barcode
+ * @param {{ lookup: (upc: string) => Promise<*> }} provider - Product provider
+ * @param {{ get: (gtin: string) => Promise<*>, set: (gtin: string, product: *) => Promise<void> }} [cache] - Cache of resolved products, keyed by 14-digit GTIN
+ * @returns {Promise<*>} Product with its upc, or null if no product has that code
+ */
+export const lookupProduct = async (code, provider, cache) => {
+  const upc = normalizeUpc(code);
+  if (!upc) {
+    throw new Error('Invalid barcode');
+  }
+
+  const gtin = toGtin(upc);
+  if (cache) {
+    const cached = await cache.get(gtin);
+    if (cached) return { ...cached, upc };
+  }
+
+  const product = await provider.lookup(upc);
+  if (!product) return null;
+
+  const resolved = { ...product, upc };
+  if (cache) {
+    try {
+      await cache.set(gtin, resolved);
+    } catch (error) {
+      console.error('Error caching product:', error);
+    }
+  }
+  return resolved;
+};
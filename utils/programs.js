@@ -0,0 +1,183 @@
+import { EXERCISE_CATALOG } from '../constants/exercises';
+import { PROGRAM_TEMPLATES } from '../constants/programs';
+import { addDays, parseDateKey, toDateKey } from './dates';
+import { getExerciseKey } from './personalRecords';
+import { getLoadStep } from './plateCalculator';
+import { DEFAULT_WEIGHT_UNIT, convertWeight } from './stats';
+
+/**
+ * Training programs
+ * A program lays a template's weeks out over the user's training days, with
+ * percentage-based loads worked out from their one-rep maxes. Planned sessions are
+ * marked done when a workout with their main lift is logged near their date
+ */
+
+// How far from its planned date a workout can be and still count for the session
+const MATCH_WINDOW_DAYS = 3;
+
+const DAY_MILLIS = 24 * 60 * 60 * 1000;
+
+/**
+ * Look up a program template
+ * @param {string} templateId - Program template ID
+ * @returns {*} Program template, or undefined
+ */
+export const getProgramTemplate = (templateId) =>
+  PROGRAM_TEMPLATES.find(template => template.id === templateId);
+
+const getExerciseName = (exerciseId) =>
+  EXERCISE_CATALOG.find(exercise => exercise.id === exerciseId)?.name || exerciseId;
+
+/**
+ * Work out a percentage-based load
+ * Loads are rounded in the user's unit to what the standard plates can make
+ * (5 lbs or 2.5 kg), then stored in lbs
+ * @param {number} oneRepMax - One-rep max in lbs
+ * @param {number} trainingMaxPercent - Share of the 1RM the program trains from
+ * @param {number} percent - Percentage of the training max for the set
+ * @param {string} [weightUnit] - Unit the user loads the bar in
+ * @returns {number} Load in lbs
+ */
+export const calculateLoad = (oneRepMax, trainingMaxPercent, percent, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  const load = convertWeight(oneRepMax * (trainingMaxPercent / 100) * (percent / 100), 'lbs', weightUnit);
+  const step = getLoadStep(weightUnit);
+  return convertWeight(Math.round(load / step) * step, weightUnit, 'lbs');
+};
+
+/**
+ * Lay a program template out over the calendar
+ * @param {Object} template - Program template
+ * @param {Date} startDate - First day the program can start
+ * @param {Array<number>} trainingDays - Weekdays to train on (0 = Sunday)
+ * @param {Object<string, number>} oneRepMaxes - One-rep max in lbs keyed by lift exercise ID
+ * @param {string} [weightUnit] - Unit the user loads the bar in
+ * @returns {Array} Planned sessions as { id, week, day, date, name, exercises }
+ */
+export const scheduleProgram = (template, startDate, trainingDays, oneRepMaxes, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  const sessions = [];
+  let date = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+
+  template.weeks.forEach((week, weekIndex) => {
+    week.forEach((day, dayIndex) => {
+      while (!trainingDays.includes(date.getDay())) {
+        date = addDays(date, 1);
+      }
+
+      sessions.push({
+        id: `w${weekIndex + 1}d${dayIndex + 1}`,
+        week: weekIndex + 1,
+        day: dayIndex + 1,
+        date: toDateKey(date),
+        name: `Week ${weekIndex + 1} · ${day.name}`,
+        exercises: day.exercises.map(exercise => {
+          const oneRepMax = oneRepMaxes[exercise.lift || exercise.exerciseId];
+          return {
+            name: getExerciseName(exercise.exerciseId),
+            exerciseId: exercise.exerciseId,
+            sets: exercise.sets.map(set => ({
+              reps: set.reps,
+              weight: set.percent && oneRepMax
+                ? calculateLoad(oneRepMax, template.trainingMaxPercent, set.percent, weightUnit)
+                : null,
+              ...(set.amrap ? { amrap: true } : {}),
+            })),
+          };
+        }),
+      });
+
+      date = addDays(date, 1);
+    });
+  });
+
+  return sessions;
+};
+
+/**
+ * Check whether a planned session has been logged
+ * @param {Object} program - Program document data
+ * @param {string} sessionId - Planned session ID
+ * @returns {boolean} True once a workout has been matched to it
+ */
+export const isPlannedSessionDone = (program, sessionId) => !!program.completedSessions?.[sessionId];
+
+/**
+ * Group a program's planned sessions by date key, for calendars
+ * @param {Object} [program] - Program document data
+ * @returns {Object<string, Array>} Planned sessions keyed by YYYY-MM-DD
+ */
+export const getPlannedSessionsByDate = (program) => {
+  /** @type {Object<string, Array>} */
+  const byDate = {};
+  (program?.sessions || []).forEach(session => {
+    byDate[session.date] = [...(byDate[session.date] || []), session];
+  });
+  return byDate;
+};
+
+/**
+ * Find the planned session a logged workout fulfils
+ * The workout must include the session's main lift (its first exercise) and be logged
+ * within a few days of it; the session planned closest to the workout's date wins
+ * @param {Object} program - Program document data
+ * @param {Object} workout - Workout document data
+ * @returns {*} Planned session, or null if none match
+ */
+export const findMatchingPlannedSession = (program, workout) => {
+  const workoutDate = workout.date?.toDate ? workout.date.toDate() : new Date(workout.date);
+  const workoutDay = parseDateKey(toDateKey(workoutDate));
+  const workoutIds = new Set((workout.exercises || []).map(exercise => exercise.exerciseId).filter(Boolean));
+  const workoutKeys = new Set((workout.exercises || []).map(exercise => getExerciseKey(exercise.name)));
+
+  const includesMainLift = (session) => {
+    const mainLift = session.exercises[0];
+    return !!mainLift && (workoutIds.has(mainLift.exerciseId) || workoutKeys.has(getExerciseKey(mainLift.name)));
+  };
+
+  const candidates = (program.sessions || [])
+    .filter(session => !isPlannedSessionDone(program, session.id))
+    .filter(includesMainLift)
+    .map(session => ({
+      session,
+      distance: Math.round(Math.abs(parseDateKey(session.date).getTime() - workoutDay.getTime()) / DAY_MILLIS),
+    }))
+    .filter(candidate => candidate.distance <= MATCH_WINDOW_DAYS)
+    .sort((a, b) => a.distance - b.distance || a.session.date.localeCompare(b.session.date));
+
+  return candidates[0]?.session || null;
+};
+
+/**
+ * Summarize how far through a program the user is
+ * @param {Object} program - Program document data
+ * @param {Date} [today] - Reference date
+ * @returns {{ completed: number, total: number, currentWeek: number, nextSession: * }} Progress summary
+ */
+export const getProgramProgress = (program, today = new Date()) => {
+  const sessions = program.sessions || [];
+  const todayKey = toDateKey(today);
+  const nextSession = sessions.find(session =>
+    !isPlannedSessionDone(program, session.id) && session.date >= todayKey
+  ) || null;
+  const lastWeek = sessions.length > 0 ? sessions[sessions.length - 1].week : 0;
+
+  return {
+    completed: sessions.filter(session => isPlannedSessionDone(program, session.id)).length,
+    total: sessions.length,
+    currentWeek: nextSession ? nextSession.week : lastWeek,
+    nextSession,
+  };
+};
+
+/**
+ * Describe a planned set list, e.g. "185×5, 210×5, 235×5+"
+ * @param {Array} plannedSets - Sets from a planned session
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {string} Display text
+ */
+export const describePlannedSets = (plannedSets, weightUnit = DEFAULT_WEIGHT_UNIT) =>
+  plannedSets
+    .map(set => {
+      const reps = `${set.reps}${set.amrap ? '+' : ''}`;
+      return set.weight ? `${convertWeight(set.weight, 'lbs', weightUnit)}×${reps}` : `${reps} reps`;
+    })
+    .join(', ');
@@ -0,0 +1,169 @@
+import { getExerciseKey } from './personalRecords';
+import { DEFAULT_WEIGHT_UNIT, convertWeight, formatWeight } from './stats';
+
+/**
+ * Progressive overload suggestions
+ * Proposes today's target for an exercise from the most recent sessions
+ * using the user's chosen progression rule
+ */
+
+export const PROGRESSION_RULES = [
+  {
+    id: 'linear',
+    label: 'Linear',
+    description: 'Add weight every session, repeat the weight after missed reps',
+  },
+  {
+    id: 'double',
+    label: 'Double Progression',
+    description: 'Add reps up to the top of your rep range, then add weight and start again',
+  },
+  {
+    id: 'percentage',
+    label: 'Percentage',
+    description: 'Increase the weight by a fixed percentage each session',
+  },
+];
+
+export const DEFAULT_PROGRESSION_SETTINGS = {
+  rule: 'linear',
+  increment: 5,
+  // Unit the increment was entered in
+  incrementUnit: 'lbs',
+  repRangeMin: 8,
+  repRangeMax: 12,
+  percentage: 2.5,
+};
+
+// Smallest jump most gyms can load in each unit (a pair of 1.25 lb or 1.25 kg plates)
+/** @type {Object<string, number>} */
+const WEIGHT_STEPS = { lbs: 2.5, kg: 2.5 };
+
+const getWorkoutMillis = (workout) =>
+  workout.date?.toMillis ? workout.date.toMillis() : new Date(workout.date).getTime();
+
+const roundToStep = (weight, step) => Math.round(weight / step) * step;
+
+/**
+ * Fill in any settings the user hasn't configured
+ * @param {Object} [settings] - Stored progression settings
+ * @returns {typeof DEFAULT_PROGRESSION_SETTINGS} Complete progression settings
+ */
+export const resolveProgressionSettings = (settings) => ({
+  ...DEFAULT_PROGRESSION_SETTINGS,
+  ...(settings || {}),
+});
+
+/**
+ * Collect previous sessions of an exercise, most recent first
+ * @param {Array} workouts - Workout history
+ * @param {string} exerciseName - Exercise to look up
+ * @param {Object} [options] - { before: Date, excludeWorkoutId: string }
+ * @returns {Array} Sessions as { date, workoutId, sets }
+ */
+export const getExerciseHistory = (workouts, exerciseName, options = {}) => {
+  const key = getExerciseKey(exerciseName);
+  if (!key) return [];
+
+  const beforeMillis = options.before ? options.before.getTime() : Infinity;
+
+  return workouts
+    .filter(workout => workout.id !== options.excludeWorkoutId && getWorkoutMillis(workout) < beforeMillis)
+    .flatMap(workout =>
+      (workout.exercises || [])
+        .filter(exercise => getExerciseKey(exercise.name) === key && (exercise.sets || []).length > 0)
+        .map(exercise => ({ date: getWorkoutMillis(workout), workoutId: workout.id, sets: exercise.sets }))
+    )
+    .sort((a, b) => b.date - a.date);
+};
+
+/**
+ * Propose today's target from the last session
+ * @param {Array} history - Sessions from getExerciseHistory
+ * Weight changes are worked out in the user's unit and rounded to a loadable step
+ * @param {Object} [settings] - Progression settings
+ * @param {string} [weightUnit] - Unit the user loads the bar in
+ * @returns {*} { weight (lbs), reps, change, previous } or null without history
+ */
+export const suggestNextTarget = (history, settings, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  const last = history[0];
+  if (!last) return null;
+
+  const { rule, increment, incrementUnit, repRangeMin, repRangeMax, percentage } = resolveProgressionSettings(settings);
+  const step = WEIGHT_STEPS[weightUnit] || WEIGHT_STEPS[DEFAULT_WEIGHT_UNIT];
+
+  // Progress from the heaviest weight used, judging every set done at it
+  const topWeight = Math.max(...last.sets.map(set => set.weight || 0));
+  const topSets = last.sets.filter(set => (set.weight || 0) === topWeight);
+  const firstReps = topSets[0].reps;
+  const lowestReps = Math.min(...topSets.map(set => set.reps));
+  const suggestion = { weight: topWeight, reps: firstReps, change: 'repeat', previous: last };
+
+  // Next weight up in the user's unit, stored back in lbs
+  const topInUnit = convertWeight(topWeight, 'lbs', weightUnit);
+  const toLbs = (weight) => convertWeight(weight, weightUnit, 'lbs');
+  const addedWeight = toLbs(
+    Math.max(roundToStep(topInUnit + convertWeight(increment, incrementUnit, weightUnit), step), roundToStep(topInUnit, step) + step)
+  );
+
+  // Bodyweight movements progress by reps
+  if (topWeight === 0) {
+    return { ...suggestion, reps: lowestReps + 1, change: 'reps' };
+  }
+
+  if (rule === 'double') {
+    if (lowestReps >= repRangeMax) {
+      return { ...suggestion, weight: addedWeight, reps: repRangeMin, change: 'weight' };
+    }
+    return { ...suggestion, reps: Math.min(lowestReps + 1, repRangeMax), change: 'reps' };
+  }
+
+  // Missed reps on a later set means the weight hasn't been earned yet
+  if (lowestReps < firstReps) {
+    return suggestion;
+  }
+
+  if (rule === 'percentage') {
+    const weight = Math.max(
+      roundToStep(topInUnit * (1 + percentage / 100), step),
+      roundToStep(topInUnit, step) + step
+    );
+    return { ...suggestion, weight: toLbs(weight), change: 'weight' };
+  }
+
+  return { ...suggestion, weight: addedWeight, change: 'weight' };
+};
+
+/**
+ * Describe a suggestion's target, e.g. "140 lbs × 5 (+5 lbs)"
+ * @param {Object} suggestion - Suggestion from suggestNextTarget
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {string} Display text
+ */
+export const describeSuggestion = (suggestion, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  const previousWeight = Math.max(...suggestion.previous.sets.map(set => set.weight || 0));
+  const target = suggestion.weight > 0
+    ? `${formatWeight(suggestion.weight, weightUnit)} × ${suggestion.reps}`
+    : `${suggestion.reps} reps`;
+
+  if (suggestion.change === 'weight') {
+    // Compare in the display unit so the jump matches the weights shown
+    const change = convertWeight(suggestion.weight, 'lbs', weightUnit) - convertWeight(previousWeight, 'lbs', weightUnit);
+    return `${target} (+${Math.round(change * 10) / 10} ${weightUnit})`;
+  }
+  if (suggestion.change === 'reps') {
+    return `${target} (+1 rep)`;
+  }
+  return `${target} (repeat)`;
+};
+
+/**
+ * Describe a previous session's sets, e.g. "135×5, 135×5, 135×4"
+ * @param {Object} session - Session from getExerciseHistory
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {string} Display text
+ */
+export const describePreviousSession = (session, weightUnit = DEFAULT_WEIGHT_UNIT) =>
+  session.sets
+    .map(set => (set.weight > 0 ? `${convertWeight(set.weight, 'lbs', weightUnit)}×${set.reps}` : `${set.reps} reps`))
+    .join(', ');
@@ -0,0 +1,121 @@
+import { scaleNutrients } from './micronutrients';
+
+/**
+ * Recent, frequent and favorite foods for one-tap re-logging
+ * Quick picks are matched on their description, and hold the nutrition for a single
+ * portion so re-logging with a multiplier always starts from the same base
+ */
+
+export const QUICK_PICK_MULTIPLIERS = [0.5, 1, 1.5, 2];
+
+// How many days of entries the recent and frequent lists draw from
+export const QUICK_PICK_HISTORY_DAYS = 30;
+
+const DEFAULT_LIMIT = 8;
+
+const MACRO_KEYS = ['protein', 'carbs', 'fat'];
+
+const roundMacro = (value) => Math.round(value * 10) / 10;
+
+const toMillis = (value) => (value?.toMillis ? value.toMillis() : new Date(value || 0).getTime());
+
+/**
+ * Key used to match entries and favorites for the same food
+ * @param {string} description - Entry description
+ * @returns {string} Normalized description
+ */
+export const getQuickPickKey = (description) => (description || '').trim().toLowerCase();
+
+/**
+ * Work out a single portion of a logged entry, undoing any quantity multiplier
+ * @param {*} entry - Calorie entry or favorite
+ * @returns {{ key: string, description: string, amount: number, protein: number|null, carbs: number|null, fat: number|null, nutrients: Object<string, number> }} Quick pick
+ */
+export const toQuickPick = (entry) => {
+  const quantity = entry.quantity > 0 ? entry.quantity : 1;
+
+  /** @type {*} */
+  const pick = {
+    key: getQuickPickKey(entry.description),
+    description: entry.description.trim(),
+    amount: Math.round((entry.amount || 0) / quantity),
+    nutrients: scaleNutrients(entry.nutrients, 1 / quantity),
+  };
+  MACRO_KEYS.forEach(key => {
+    pick[key] = typeof entry[key] === 'number' ? roundMacro(entry[key] / quantity) : null;
+  });
+  return pick;
+};
+
+// Collapse entries into one quick pick per food, keeping the latest portion logged
+const summarizeLoggedFoods = (entries) => {
+  /** @type {Object<string, *>} */
+  const byKey = {};
+  entries
+    .filter(entry => entry.description?.trim())
+    .forEach(entry => {
+      const loggedAt = toMillis(entry.createdAt);
+      const key = getQuickPickKey(entry.description);
+      const existing = byKey[key];
+      if (!existing) {
+        byKey[key] = { ...toQuickPick(entry), count: 1, lastLoggedAt: loggedAt };
+      } else if (loggedAt > existing.lastLoggedAt) {
+        byKey[key] = { ...toQuickPick(entry), count: existing.count + 1, lastLoggedAt: loggedAt };
+      } else {
+        existing.count += 1;
+      }
+    });
+  return Object.values(byKey);
+};
+
+/**
+ * Foods logged most recently
+ * @param {Array} entries - Calorie entries
+ * @param {number} [limit] - Maximum number of foods
+ * @returns {Array} Quick picks with count and lastLoggedAt, newest first
+ */
+export const getRecentFoods = (entries, limit = DEFAULT_LIMIT) =>
+  summarizeLoggedFoods(entries)
+    .sort((a, b) => b.lastLoggedAt - a.lastLoggedAt)
+    .slice(0, limit);
+
+/**
+ * Foods logged most often
+ * @param {Array} entries - Calorie entries
+ * @param {number} [limit] - Maximum number of foods
+ * @returns {Array} Quick picks with count and lastLoggedAt, most logged first
+ */
+export const getFrequentFoods = (entries, limit = DEFAULT_LIMIT) =>
+  summarizeLoggedFoods(entries)
+    .filter(food => food.count > 1)
+    .sort((a, b) => b.count - a.count || b.lastLoggedAt - a.lastLoggedAt)
+    .slice(0, limit);
+
+/**
+ * Scale a quick pick for logging
+ * @param {*} pick - Quick pick
+ * @param {number} multiplier - Portion multiplier
+ * @returns {{ amount: number, macros: { protein: number|null, carbs: number|null, fat: number|null }|null, nutrients: Object<string, number> }} Calories, macros and extended nutrients to log
+ */
+export const scaleQuickPick = (pick, multiplier) => {
+  const hasMacros = MACRO_KEYS.some(key => pick[key] != null);
+
+  return {
+    amount: Math.round(pick.amount * multiplier),
+    macros: hasMacros
+      ? {
+          protein: pick.protein != null ? roundMacro(pick.protein * multiplier) : null,
+          carbs: pick.carbs != null ? roundMacro(pick.carbs * multiplier) : null,
+          fat: pick.fat != null ? roundMacro(pick.fat * multiplier) : null,
+        }
+      : null,
+    nutrients: scaleNutrients(pick.nutrients, multiplier),
+  };
+};
+
+/**
+ * Label a portion multiplier, e.g. "1.5×"
+ * @param {number} multiplier - Portion multiplier
+ * @returns {string} Label
+ */
+export const formatMultiplier = (multiplier) => `${multiplier}×`;
@@ -0,0 +1,73 @@
+/**
+ * Recipes built from ingredients
+ * Each ingredient stores the calories and macros for the amount used, so a recipe's
+ * totals don't change if a custom food it came from is later edited or deleted
+ */
+
+const MACRO_KEYS = ['protein', 'carbs', 'fat'];
+
+const roundMacro = (value) => Math.round(value * 10) / 10;
+
+/**
+ * Add up a recipe's ingredients
+ * @param {Array} ingredients - Ingredients as { description, calories, protein, carbs, fat }
+ * @returns {{ calories: number, protein: number, carbs: number, fat: number }} Whole-recipe totals
+ */
+export const getRecipeTotals = (ingredients) => {
+  const totals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  ingredients.forEach(ingredient => {
+    totals.calories += ingredient.calories || 0;
+    MACRO_KEYS.forEach(key => {
+      totals[key] += ingredient[key] || 0;
+    });
+  });
+
+  return {
+    calories: Math.round(totals.calories),
+    protein: roundMacro(totals.protein),
+    carbs: roundMacro(totals.carbs),
+    fat: roundMacro(totals.fat),
+  };
+};
+
+/**
+ * Work out calories and macros for a number of servings of a recipe
+ * @param {Array} ingredients - Recipe ingredients
+ * @param {number} recipeServings - Servings the recipe makes
+ * @param {number} [servingsEaten] - Servings eaten
+ * @returns {{ calories: number, protein: number, carbs: number, fat: number }} Calories rounded to whole numbers, macros to 0.1 g
+ */
+export const getRecipeServingNutrition = (ingredients, recipeServings, servingsEaten = 1) => {
+  const totals = getRecipeTotals(ingredients);
+  const share = recipeServings > 0 ? servingsEaten / recipeServings : 0;
+
+  return {
+    calories: Math.round(totals.calories * share),
+    protein: roundMacro(totals.protein * share),
+    carbs: roundMacro(totals.carbs * share),
+    fat: roundMacro(totals.fat * share),
+  };
+};
+
+/**
+ * Describe a logged portion of a recipe, e.g. "Chili (2 servings)"
+ * @param {string} recipeName - Recipe name
+ * @param {number} servingsEaten - Servings eaten
+ * @returns {string} Calorie entry description
+ */
+export const describeRecipePortion = (recipeName, servingsEaten) =>
+  `${recipeName} (${servingsEaten} serving${servingsEaten === 1 ? '' : 's'})`;
+
+/**
+ * Check a recipe before saving
+ * @param {string} name - Recipe name
+ * @param {Array} ingredients - Recipe ingredients
+ * @param {number} servings - Servings the recipe makes
+ * @returns {string|null} Error message, or null if the recipe can be saved
+ */
+export const validateRecipe = (name, ingredients, servings) => {
+  if (!name.trim()) return 'Please enter a recipe name';
+  if (ingredients.length === 0) return 'Add at least one ingredient';
+  if (!Number.isFinite(servings) || servings <= 0) return 'Servings must be greater than 0';
+  return null;
+};
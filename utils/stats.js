@@ -0,0 +1,185 @@
+/**
+ * Typed workout stats
+ * Stats are stored as { value, unit } with the value in a canonical unit
+ * (minutes for durations, lbs for weights) and converted for display
+ */
+
+export const WEIGHT_UNITS = ['lbs', 'kg'];
+
+export const DEFAULT_WEIGHT_UNIT = 'lbs';
+
+const KG_PER_LB = 0.45359237;
+
+// Canonical unit stored for each stat type
+const CANONICAL_UNITS = {
+  duration: 'min',
+  weight: 'lbs',
+  number: 'count',
+};
+
+/** @type {Object<string, { label: string, type: string }>} */
+export const STAT_DEFINITIONS = {
+  pr: { label: 'Personal Records', type: 'records' },
+  cardio: { label: 'Cardio', type: 'duration' },
+  stretch: { label: 'Stretch', type: 'duration' },
+  weight: { label: 'Body Weight', type: 'weight' },
+  reps: { label: 'Total Reps', type: 'number' },
+  duration: { label: 'Duration', type: 'duration' },
+};
+
+/**
+ * Convert a weight between lbs and kg
+ * @param {number} value - Weight to convert
+ * @param {string} fromUnit - 'lbs' or 'kg'
+ * @param {string} toUnit - 'lbs' or 'kg'
+ * @returns {number} Converted weight, rounded to one decimal
+ */
+export const convertWeight = (value, fromUnit, toUnit) => {
+  if (fromUnit === toUnit) return value;
+
+  const converted = fromUnit === 'kg' ? value / KG_PER_LB : value * KG_PER_LB;
+  return Math.round(converted * 10) / 10;
+};
+
+/**
+ * Format a stored weight in the preferred unit, e.g. "102.1 kg"
+ * @param {number} weightLbs - Weight in lbs
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {string} Display text
+ */
+export const formatWeight = (weightLbs, weightUnit = DEFAULT_WEIGHT_UNIT) =>
+  `${convertWeight(weightLbs, 'lbs', weightUnit)} ${weightUnit}`;
+
+/**
+ * Editable set weight for a stored lbs weight
+ * The stored value is kept alongside the text so an untouched input is saved back
+ * exactly, rather than through the rounded unit conversion
+ * @param {number} weightLbs - Stored weight in lbs
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {{ weight: string, weightLbs: number }} Input text and the stored weight
+ */
+export const toWeightInput = (weightLbs, weightUnit = DEFAULT_WEIGHT_UNIT) => ({
+  weight: String(convertWeight(weightLbs, 'lbs', weightUnit)),
+  weightLbs,
+});
+
+/**
+ * Label for a stat including its display unit, e.g. "Body Weight (kg)"
+ * @param {string} statId - Stat ID
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {string} Display label
+ */
+export const getStatLabel = (statId, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  const definition = STAT_DEFINITIONS[statId];
+  if (!definition) return statId;
+
+  if (definition.type === 'duration') return `${definition.label} (minutes)`;
+  if (definition.type === 'weight') return `${definition.label} (${weightUnit})`;
+  return definition.label;
+};
+
+// "45", "45 min", "1:15" (h:mm) and "1h 15m" are all accepted
+const parseDuration = (text) => {
+  const clock = text.match(/^(\d+):([0-5]\d)$/);
+  if (clock) {
+    return parseInt(clock[1]) * 60 + parseInt(clock[2]);
+  }
+
+  const parts = text.match(/^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+(?:\.\d+)?)\s*(?:m|mins?|minutes?)?)?$/i);
+  if (!parts || (!parts[1] && !parts[2])) return null;
+
+  return Math.round(((parseFloat(parts[1]) || 0) * 60 + (parseFloat(parts[2]) || 0)) * 10) / 10;
+};
+
+// "135", "135lbs" and "61.5 kg" are accepted; an explicit unit overrides the preference
+const parseWeight = (text, weightUnit) => {
+  const match = text.match(/^(\d+(?:\.\d+)?)\s*(lbs?|pounds?|kgs?|kilos?|kilograms?)?$/i);
+  if (!match) return null;
+
+  const inputUnit = match[2] ? (match[2].toLowerCase().startsWith('k') ? 'kg' : 'lbs') : weightUnit;
+  return convertWeight(parseFloat(match[1]), inputUnit, CANONICAL_UNITS.weight);
+};
+
+const parseNumber = (text) => {
+  const match = text.match(/^(\d+)(?:\s*reps?)?$/i);
+  return match ? parseInt(match[1]) : null;
+};
+
+/**
+ * Parse user input for a stat into its stored form
+ * @param {string} statId - Stat ID
+ * @param {string} text - Raw input
+ * @param {string} [weightUnit] - Unit assumed for weights typed without one
+ * @returns {{ stat: ?{ value: number, unit: string }, error: ?string }} Parsed stat or a validation message
+ */
+export const parseStatInput = (statId, text, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  const definition = STAT_DEFINITIONS[statId];
+  const trimmed = (text || '').trim();
+
+  if (!definition || definition.type === 'records') {
+    return { stat: null, error: 'This stat is tracked automatically' };
+  }
+  if (!trimmed) {
+    return { stat: null, error: `Please enter a value for ${definition.label}` };
+  }
+
+  let value = null;
+  let error = null;
+  if (definition.type === 'duration') {
+    value = parseDuration(trimmed);
+    error = 'Enter minutes (e.g. 45) or hours and minutes (e.g. 1:15)';
+  } else if (definition.type === 'weight') {
+    value = parseWeight(trimmed, weightUnit);
+    error = `Enter a weight such as 135 or 135 ${weightUnit}`;
+  } else {
+    value = parseNumber(trimmed);
+    error = 'Enter a whole number';
+  }
+
+  if (value === null || !Number.isFinite(value) || value <= 0) {
+    return { stat: null, error };
+  }
+
+  return { stat: { value, unit: CANONICAL_UNITS[definition.type] }, error: null };
+};
+
+/**
+ * Format a stored stat as an editable input value in the preferred unit
+ * @param {string} statId - Stat ID
+ * @param {Object} stat - Stored { value, unit }
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {string} Input text
+ */
+export const formatStatInput = (statId, stat, weightUnit = DEFAULT_WEIGHT_UNIT) => {
+  if (!stat || typeof stat.value !== 'number') return '';
+
+  if (STAT_DEFINITIONS[statId]?.type === 'weight') {
+    return String(convertWeight(stat.value, stat.unit, weightUnit));
+  }
+  return String(stat.value);
+};
+
+/**
+ * Format stored stats as editable input values
+ * @param {Object} [stats] - Stored stats keyed by stat ID
+ * @param {string} [weightUnit] - Preferred weight unit
+ * @returns {Object<string, string>} Input text keyed by stat ID
+ */
+export const toStatInputs = (stats, weightUnit = DEFAULT_WEIGHT_UNIT) =>
+  Object.fromEntries(
+    Object.entries(stats || {}).map(([statId, stat]) => [statId, formatStatInput(statId, stat, weightUnit)])
+  );
+
+/**
+ * Convert a stat saved as a raw string (before stats were typed)
+ * @param {string} statId - Stat ID
+ * @param {*} rawValue - Stored value
+ * @returns {*} { value, unit }, or null if it can't be parsed
+ */
+export const parseLegacyStat = (statId, rawValue) => {
+  if (typeof rawValue !== 'string') return null;
+
+  // Old weights carried no unit and the app only offered lbs
+  const { stat } = parseStatInput(statId, rawValue, 'lbs');
+  return stat;
+};
@@ -0,0 +1,72 @@
+/**
+ * Water intake tracking
+ * Amounts are stored in millilitres and only converted for display. Settings live on
+ * the user document as waterSettings; shareWithFriends shows the day's water on FriendCard
+ */
+
+export const WATER_UNITS = ['ml', 'oz'];
+
+const ML_PER_OZ = 29.5735;
+
+export const DEFAULT_WATER_SETTINGS = {
+  unit: 'ml',
+  goalMl: 2500,
+  containers: [
+    { id: 'cup', label: 'Cup', ml: 250 },
+    { id: 'bottle', label: 'Bottle', ml: 500 },
+  ],
+  shareWithFriends: false,
+};
+
+const toPositive = (value, fallback) => (typeof value === 'number' && value > 0 ? value : fallback);
+
+/**
+ * Fill in any water settings the user hasn't set
+ * @param {Object} [settings] - Stored water settings
+ * @returns {{ unit: string, goalMl: number, containers: Array<{ id: string, label: string, ml: number }>, shareWithFriends: boolean }} Complete settings
+ */
+export const resolveWaterSettings = (settings) => ({
+  unit: WATER_UNITS.includes(settings?.unit) ? settings.unit : DEFAULT_WATER_SETTINGS.unit,
+  goalMl: toPositive(settings?.goalMl, DEFAULT_WATER_SETTINGS.goalMl),
+  containers: DEFAULT_WATER_SETTINGS.containers.map(container => ({
+    ...container,
+    ml: toPositive(settings?.containers?.find(saved => saved.id === container.id)?.ml, container.ml),
+  })),
+  shareWithFriends: !!settings?.shareWithFriends,
+});
+
+/**
+ * Convert millilitres to a display unit
+ * @param {number} ml - Amount in millilitres
+ * @param {string} unit - 'ml' or 'oz'
+ * @returns {number} Amount in the unit, ml rounded to whole numbers and oz to 0.1
+ */
+export const convertFromMl = (ml, unit) =>
+  unit === 'oz' ? Math.round((ml / ML_PER_OZ) * 10) / 10 : Math.round(ml);
+
+/**
+ * Convert an amount in a display unit to millilitres
+ * @param {number} value - Amount in the unit
+ * @param {string} unit - 'ml' or 'oz'
+ * @returns {number} Amount in whole millilitres
+ */
+export const convertToMl = (value, unit) => Math.round(unit === 'oz' ? value * ML_PER_OZ : value);
+
+/**
+ * Format an amount of water, e.g. "500 ml" or "16.9 oz"
+ * @param {number} ml - Amount in millilitres
+ * @param {string} unit - 'ml' or 'oz'
+ * @returns {string} Display string
+ */
+export const formatWaterAmount = (ml, unit) => `${convertFromMl(ml, unit).toLocaleString()} ${unit}`;
+
+/**
+ * Format progress toward the daily goal, e.g. "1,250 / 2,500 ml"
+ * @param {number} totalMl - Water drunk today
+ * @param {Object} [settings] - Stored water settings
+ * @returns {string} Display string
+ */
+export const formatWaterProgress = (totalMl, settings) => {
+  const { unit, goalMl } = resolveWaterSettings(settings);
+  return `${convertFromMl(totalMl, unit).toLocaleString()} / ${formatWaterAmount(goalMl, unit)}`;
+};
@@ -0,0 +1,213 @@
+/**
+ * Exercise blocks (supersets, circuits and interval blocks)
+ * Exercises stay a flat ordered list; consecutive exercises sharing a blockId
+ * form a block, whose settings live in the workout's blocks array
+ */
+
+export const BLOCK_TYPES = [
+  { id: 'superset', label: 'Superset', timed: false, rounds: 3, workSeconds: 0, restSeconds: 90 },
+  { id: 'circuit', label: 'Circuit', timed: false, rounds: 3, workSeconds: 0, restSeconds: 60 },
+  { id: 'emom', label: 'EMOM', timed: true, rounds: 10, workSeconds: 60, restSeconds: 0 },
+  { id: 'tabata', label: 'Tabata', timed: true, rounds: 8, workSeconds: 20, restSeconds: 10 },
+  { id: 'interval', label: 'Intervals', timed: true, rounds: 5, workSeconds: 40, restSeconds: 20 },
+];
+
+// Countdown before the first work interval
+export const GET_READY_SECONDS = 10;
+
+/**
+ * Look up a block type definition
+ * @param {string} typeId - Block type ID
+ * @returns {*} Block type definition, or undefined
+ */
+export const getBlockType = (typeId) => BLOCK_TYPES.find(type => type.id === typeId);
+
+const createBlockId = () => `block-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Create a block with the defaults for its type
+ * @param {string} [typeId] - Block type ID
+ * @returns {{ id: string, type: string, rounds: number, workSeconds: number, restSeconds: number }} New block
+ */
+export const createBlock = (typeId = 'superset') => {
+  const type = getBlockType(typeId) || BLOCK_TYPES[0];
+  return {
+    id: createBlockId(),
+    type: type.id,
+    rounds: type.rounds,
+    workSeconds: type.workSeconds,
+    restSeconds: type.restSeconds,
+  };
+};
+
+/**
+ * Switch a block to another type, resetting its timing to that type's defaults
+ * @param {Object} block - Block to change
+ * @param {string} typeId - New block type ID
+ * @returns {Object} Updated block
+ */
+export const changeBlockType = (block, typeId) => {
+  const type = getBlockType(typeId);
+  if (!type) return block;
+
+  return { ...block, type: type.id, rounds: type.rounds, workSeconds: type.workSeconds, restSeconds: type.restSeconds };
+};
+
+/**
+ * Keep only contiguous runs of two or more exercises per block, and drop unused blocks
+ * @param {Array} exercises - Exercises with optional blockId
+ * @param {Array} blocks - Block settings
+ * @returns {{ exercises: Array, blocks: Array }} Cleaned exercises and blocks
+ */
+export const normalizeBlocks = (exercises, blocks) => {
+  const seen = new Set();
+  const cleaned = exercises.map(exercise => ({ ...exercise }));
+
+  let start = 0;
+  while (start < cleaned.length) {
+    const blockId = cleaned[start].blockId;
+    let end = start;
+    while (blockId && end + 1 < cleaned.length && cleaned[end + 1].blockId === blockId) {
+      end++;
+    }
+
+    // A block needs two exercises, and only its first run counts
+    const isValid = blockId && end > start && !seen.has(blockId) && blocks.some(block => block.id === blockId);
+    for (let i = start; i <= end; i++) {
+      if (!isValid) cleaned[i].blockId = undefined;
+    }
+    if (isValid) seen.add(blockId);
+
+    start = end + 1;
+  }
+
+  return { exercises: cleaned, blocks: blocks.filter(block => seen.has(block.id)) };
+};
+
+/**
+ * Group an exercise with the one before it, joining or starting a block
+ * @param {Array} exercises - Exercises with optional blockId
+ * @param {Array} blocks - Block settings
+ * @param {number} index - Exercise to link (must be > 0)
+ * @returns {{ exercises: Array, blocks: Array }} Updated exercises and blocks
+ */
+export const linkWithPrevious = (exercises, blocks, index) => {
+  if (index <= 0 || index >= exercises.length) return { exercises, blocks };
+
+  let blockId = exercises[index - 1].blockId;
+  let updatedBlocks = blocks;
+  if (!blockId) {
+    const block = createBlock();
+    blockId = block.id;
+    updatedBlocks = [...blocks, block];
+  }
+
+  const previousBlockId = exercises[index].blockId;
+  const updated = exercises.map((exercise, i) => {
+    if (i === index - 1 || i === index) return { ...exercise, blockId };
+    // Exercises that followed this one in its old block come along
+    if (i > index && previousBlockId && exercise.blockId === previousBlockId) return { ...exercise, blockId };
+    return exercise;
+  });
+
+  return normalizeBlocks(updated, updatedBlocks);
+};
+
+/**
+ * Split a block before an exercise; the exercise and those after it form their own block
+ * @param {Array} exercises - Exercises with optional blockId
+ * @param {Array} blocks - Block settings
+ * @param {number} index - Exercise to unlink from the one before it
+ * @returns {{ exercises: Array, blocks: Array }} Updated exercises and blocks
+ */
+export const unlinkFromPrevious = (exercises, blocks, index) => {
+  const blockId = exercises[index]?.blockId;
+  if (!blockId) return { exercises, blocks };
+
+  const original = blocks.find(block => block.id === blockId);
+  // The new block keeps the original's settings
+  const splitBlock = { ...(original || createBlock()), id: createBlockId() };
+
+  const updated = exercises.map((exercise, i) =>
+    i >= index && exercise.blockId === blockId ? { ...exercise, blockId: splitBlock.id } : exercise
+  );
+
+  return normalizeBlocks(updated, [...blocks, splitBlock]);
+};
+
+/**
+ * Check that every block has usable timing
+ * @param {Array} blocks - Block settings
+ * @returns {string|null} Validation message, or null when valid
+ */
+export const validateBlocks = (blocks) => {
+  for (const block of blocks) {
+    const type = getBlockType(block.type);
+    if (!(block.rounds >= 1)) {
+      return `Every ${type?.label || 'block'} needs at least one round`;
+    }
+    if (type?.timed && !(block.workSeconds > 0)) {
+      return `Enter a work time for your ${type.label} block`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Describe a block's settings, e.g. "Tabata · 8 rounds · 20s on / 10s off"
+ * @param {Object} block - Block settings
+ * @returns {string} Display text
+ */
+export const describeBlock = (block) => {
+  const type = getBlockType(block.type);
+  const parts = [type?.label || 'Block', `${block.rounds} round${block.rounds === 1 ? '' : 's'}`];
+
+  if (type?.timed) {
+    parts.push(block.restSeconds > 0 ? `${block.workSeconds}s on / ${block.restSeconds}s off` : `every ${block.workSeconds}s`);
+  } else if (block.restSeconds > 0) {
+    parts.push(`${block.restSeconds}s rest between rounds`);
+  }
+
+  return parts.join(' · ');
+};
+
+/**
+ * Build the guided timer schedule for a timed block
+ * Each work interval rotates through the block's exercises
+ * @param {Object} block - Block settings
+ * @param {Array<string>} exerciseNames - Exercises in the block, in order
+ * @returns {Array} Phases as { kind: 'ready'|'work'|'rest', seconds, round, exercise }
+ */
+export const buildIntervalSchedule = (block, exerciseNames) => {
+  const phases = [{ kind: 'ready', seconds: GET_READY_SECONDS, round: 1, exercise: exerciseNames[0] || '' }];
+
+  for (let round = 1; round <= block.rounds; round++) {
+    const exercise = exerciseNames.length > 0 ? exerciseNames[(round - 1) % exerciseNames.length] : '';
+    phases.push({ kind: 'work', seconds: block.workSeconds, round, exercise });
+
+    // No rest after the final round
+    if (block.restSeconds > 0 && round < block.rounds) {
+      const nextExercise = exerciseNames.length > 0 ? exerciseNames[round % exerciseNames.length] : '';
+      phases.push({ kind: 'rest', seconds: block.restSeconds, round, exercise: nextExercise });
+    }
+  }
+
+  return phases;
+};
+
+/**
+ * Find where a timer is within its schedule
+ * @param {Array} schedule - Phases from buildIntervalSchedule
+ * @param {number} elapsedSeconds - Seconds since the timer started (excluding pauses)
+ * @returns {{ phaseIndex: number, remaining: number, done: boolean }} Current position
+ */
+export const getIntervalPosition = (schedule, elapsedSeconds) => {
+  let phaseEnd = 0;
+  for (let i = 0; i < schedule.length; i++) {
+    phaseEnd += schedule[i].seconds;
+    if (elapsedSeconds < phaseEnd) {
+      return { phaseIndex: i, remaining: Math.ceil(phaseEnd - elapsedSeconds), done: false };
+    }
+  }
+  return { phaseIndex: schedule.length - 1, remaining: 0, done: true };
+};
@@ -0,0 +1,108 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Live workout session drafts
+ * The in-progress session is kept in AsyncStorage so it survives the app
+ * being backgrounded or closed, and only becomes a workout document when finished
+ */
+
+const SESSION_KEY_PREFIX = 'gymbros.activeWorkoutSession.';
+
+export const DEFAULT_REST_SECONDS = 90;
+
+const getSessionKey = (userId) => `${SESSION_KEY_PREFIX}${userId}`;
+
+/**
+ * Start a new live session, replacing any existing draft
+ * @param {string} userId - User ID
+ * @param {Array<string>} muscleGroups - Muscle groups picked by hand; the rest are derived from exercises
+ * @param {Array} exercises - Planned exercises as editable inputs ({ name, exerciseId?, blockId?, sets: [{ reps, weight, rpe }] })
+ * @param {Array} [blocks] - Superset/circuit/interval settings for grouped exercises
+ * @returns {Promise} The new session draft
+ */
+export const startWorkoutSession = async (userId, muscleGroups, exercises = [], blocks = []) => {
+  const session = {
+    startedAt: Date.now(),
+    muscleGroups,
+    exercises: exercises.map(exercise => ({
+      name: exercise.name,
+      exerciseId: exercise.exerciseId,
+      blockId: exercise.blockId,
+      sets: exercise.sets.map(set => ({ ...set, done: false }))
+    })),
+    blocks,
+    restSeconds: DEFAULT_REST_SECONDS,
+    restEndsAt: null
+  };
+
+  await saveWorkoutSession(userId, session);
+  return session;
+};
+
+/**
+ * Load the user's in-progress session, if any
+ * @param {string} userId - User ID
+ * @returns {Promise} Session draft or null
+ */
+export const loadWorkoutSession = async (userId) => {
+  try {
+    const stored = await AsyncStorage.getItem(getSessionKey(userId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error loading workout session:', error);
+    return null;
+  }
+};
+
+/**
+ * Persist the in-progress session
+ * @param {string} userId - User ID
+ * @param {Object} session - Session draft
+ * @returns {Promise} void
+ */
+export const saveWorkoutSession = async (userId, session) => {
+  await AsyncStorage.setItem(getSessionKey(userId), JSON.stringify(session));
+};
+
+/**
+ * Remove the in-progress session once it is finished or discarded
+ * @param {string} userId - User ID
+ * @returns {Promise} void
+ */
+export const clearWorkoutSession = async (userId) => {
+  await AsyncStorage.removeItem(getSessionKey(userId));
+};
+
+/**
+ * Format a number of seconds as m:ss (or h:mm:ss)
+ * @param {number} totalSeconds - Seconds to format
+ * @returns {string} Formatted time
+ */
+export const formatTimer = (totalSeconds) => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+};
+
+/**
+ * Reduce a session to the completed sets, still as editable inputs
+ * @param {Object} session - Session draft
+ * @returns {Array} Exercises containing only ticked-off sets
+ */
+export const getCompletedExercises = (session) =>
+  session.exercises
+    .map(exercise => ({
+      name: exercise.name,
+      exerciseId: exercise.exerciseId,
+      blockId: exercise.blockId,
+      sets: exercise.sets
+        .filter(set => set.done)
+        .map(({ reps, weight, rpe, weightLbs }) => ({ reps, weight, rpe, weightLbs }))
+    }))
+    .filter(exercise => exercise.sets.length > 0);